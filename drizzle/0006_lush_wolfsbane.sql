@@ -0,0 +1,69 @@
+CREATE TYPE "public"."ledger_account" AS ENUM('ARTIST_FUNDING', 'CAMPAIGN_AVAILABLE', 'CAMPAIGN_RESERVED', 'CREATOR_PAYOUTS');--> statement-breakpoint
+CREATE TYPE "public"."ledger_transaction_type" AS ENUM('FUNDING', 'RESERVATION', 'RELEASE', 'PAYOUT', 'REVERSAL', 'REFUND');--> statement-breakpoint
+CREATE TABLE "ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"account" "ledger_account" NOT NULL,
+	"amount_cents" bigint NOT NULL,
+	"currency" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ledger_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"mission_id" uuid,
+	"type" "ledger_transaction_type" NOT NULL,
+	"idempotency_key" varchar NOT NULL,
+	"stripe_object_id" varchar,
+	"amount_cents" bigint NOT NULL,
+	"currency" varchar NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ledger_transactions_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transaction_id_ledger_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."ledger_transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ledger_entries_campaign_account_idx" ON "ledger_entries" USING btree ("campaign_id","account");--> statement-breakpoint
+WITH "funded" AS (
+	INSERT INTO "ledger_transactions" ("campaign_id", "type", "idempotency_key", "stripe_object_id", "amount_cents", "currency", "description", "created_at")
+	SELECT c."id", 'FUNDING', 'funding:' || c."payment_intent_id", c."payment_intent_id", c."budget_cents", c."currency",
+	  'Campaign funded by PaymentIntent ' || c."payment_intent_id", c."created_at"
+	FROM "campaigns" c
+	WHERE c."payment_status" = 'FUNDED' AND c."payment_intent_id" IS NOT NULL
+	RETURNING "id", "campaign_id", "amount_cents", "currency", "created_at"
+)
+INSERT INTO "ledger_entries" ("transaction_id", "campaign_id", "account", "amount_cents", "currency", "created_at")
+SELECT f."id", f."campaign_id", e."account", e."sign" * f."amount_cents", f."currency", f."created_at"
+FROM "funded" f
+CROSS JOIN (VALUES ('CAMPAIGN_AVAILABLE'::"ledger_account", 1), ('ARTIST_FUNDING'::"ledger_account", -1)) AS e("account", "sign");--> statement-breakpoint
+WITH "reserved" AS (
+	INSERT INTO "ledger_transactions" ("campaign_id", "mission_id", "type", "idempotency_key", "amount_cents", "currency", "description", "created_at")
+	SELECT m."campaign_id", m."id", 'RESERVATION', 'reservation:' || m."id", m."payout_cents", c."currency",
+	  'Reserved payout for mission ' || m."id", m."created_at"
+	FROM "missions" m
+	INNER JOIN "campaigns" c ON c."id" = m."campaign_id"
+	WHERE m."state" <> 'REJECTED'
+	RETURNING "id", "campaign_id", "amount_cents", "currency", "created_at"
+)
+INSERT INTO "ledger_entries" ("transaction_id", "campaign_id", "account", "amount_cents", "currency", "created_at")
+SELECT r."id", r."campaign_id", e."account", e."sign" * r."amount_cents", r."currency", r."created_at"
+FROM "reserved" r
+CROSS JOIN (VALUES ('CAMPAIGN_RESERVED'::"ledger_account", 1), ('CAMPAIGN_AVAILABLE'::"ledger_account", -1)) AS e("account", "sign");--> statement-breakpoint
+WITH "paid" AS (
+	INSERT INTO "ledger_transactions" ("campaign_id", "mission_id", "type", "idempotency_key", "amount_cents", "currency", "description", "created_at")
+	SELECT m."campaign_id", m."id", 'PAYOUT', 'payout:legacy:' || m."id", m."payout_cents", c."currency",
+	  'Paid mission ' || m."id" || ' before the ledger existed', m."updated_at"
+	FROM "missions" m
+	INNER JOIN "campaigns" c ON c."id" = m."campaign_id"
+	WHERE m."state" = 'PAID'
+	RETURNING "id", "campaign_id", "amount_cents", "currency", "created_at"
+)
+INSERT INTO "ledger_entries" ("transaction_id", "campaign_id", "account", "amount_cents", "currency", "created_at")
+SELECT p."id", p."campaign_id", e."account", e."sign" * p."amount_cents", p."currency", p."created_at"
+FROM "paid" p
+CROSS JOIN (VALUES ('CREATOR_PAYOUTS'::"ledger_account", 1), ('CAMPAIGN_RESERVED'::"ledger_account", -1)) AS e("account", "sign");
\ No newline at end of file
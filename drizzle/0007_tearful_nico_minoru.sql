@@ -0,0 +1 @@
+ALTER TYPE "public"."mission_state" ADD VALUE 'CANCELLED';
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."payout_status" AS ENUM('PENDING', 'SUBMITTED', 'SUCCEEDED', 'FAILED', 'REVERSED');--> statement-breakpoint
+CREATE TABLE "payouts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mission_id" uuid NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"creator_user_id" integer NOT NULL,
+	"destination_account_id" varchar NOT NULL,
+	"amount_cents" integer NOT NULL,
+	"currency" varchar NOT NULL,
+	"attempt" integer NOT NULL,
+	"idempotency_key" varchar NOT NULL,
+	"status" "payout_status" DEFAULT 'PENDING' NOT NULL,
+	"stripe_transfer_id" varchar,
+	"failure_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payouts_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_creator_user_id_users_id_fk" FOREIGN KEY ("creator_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
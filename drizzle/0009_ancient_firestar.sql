@@ -0,0 +1,15 @@
+CREATE TYPE "public"."stripe_event_status" AS ENUM('PENDING', 'PROCESSING', 'PROCESSED', 'FAILED');--> statement-breakpoint
+CREATE TABLE "stripe_events" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"type" varchar NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "stripe_event_status" DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "stripe_events_status_next_attempt_idx" ON "stripe_events" USING btree ("status","next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."mission_state" ADD VALUE 'PAYOUT_FAILED';--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "payout_failure_reason" text;
\ No newline at end of file
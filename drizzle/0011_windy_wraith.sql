@@ -0,0 +1,2 @@
+ALTER TYPE "public"."payment_status" ADD VALUE 'PARTIALLY_REFUNDED' BEFORE 'REFUNDED';--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "cancelled_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."funding_type" AS ENUM('INITIAL', 'TOP_UP');--> statement-breakpoint
+CREATE TABLE "campaign_fundings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"payment_intent_id" varchar NOT NULL,
+	"type" "funding_type" NOT NULL,
+	"amount_cents" bigint NOT NULL,
+	"currency" varchar NOT NULL,
+	"status" "payment_status" DEFAULT 'PENDING' NOT NULL,
+	"refunded_cents" bigint DEFAULT 0 NOT NULL,
+	"funded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "campaign_fundings_payment_intent_id_unique" UNIQUE("payment_intent_id")
+);
+--> statement-breakpoint
+ALTER TABLE "campaign_fundings" ADD CONSTRAINT "campaign_fundings_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "campaign_fundings" ("campaign_id", "payment_intent_id", "type", "amount_cents", "currency", "status", "refunded_cents", "funded_at", "created_at")
+SELECT c."id", c."payment_intent_id", 'INITIAL', c."budget_cents", c."currency", c."payment_status",
+  COALESCE((SELECT SUM(t."amount_cents") FROM "ledger_transactions" t WHERE t."campaign_id" = c."id" AND t."type" = 'REFUND'), 0),
+  CASE WHEN c."payment_status" <> 'PENDING' THEN c."created_at" END, c."created_at"
+FROM "campaigns" c
+WHERE c."payment_intent_id" IS NOT NULL;
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."mission_state" ADD VALUE 'EXPIRED';--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "accept_by" timestamp;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "submit_window_hours" integer;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "submit_by" timestamp;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."mission_state" ADD VALUE 'CHANGES_REQUESTED' BEFORE 'VERIFIED';--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "max_revisions" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "revision_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "revision_feedback" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."submission_decision" AS ENUM('VERIFIED', 'REJECTED', 'CHANGES_REQUESTED');--> statement-breakpoint
+ALTER TABLE "mission_submissions" DROP CONSTRAINT "mission_submissions_mission_id_unique";--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "decision" "submission_decision";--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "reviewer_notes" text;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "reviewed_by" integer;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD CONSTRAINT "mission_submissions_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mission_submissions_mission_version_idx" ON "mission_submissions" USING btree ("mission_id","version");--> statement-breakpoint
+UPDATE "mission_submissions" s
+SET "decision" = CASE WHEN m."state" = 'REJECTED' THEN 'REJECTED'::"submission_decision" ELSE 'VERIFIED'::"submission_decision" END,
+  "reviewed_at" = m."updated_at"
+FROM "missions" m
+WHERE s."mission_id" = m."id" AND m."state"::text IN ('VERIFIED', 'PAID', 'PAYOUT_FAILED', 'REJECTED');
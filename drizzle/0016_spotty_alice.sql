@@ -0,0 +1,30 @@
+CREATE TABLE "mission_assignments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mission_id" uuid NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"creator_id" varchar NOT NULL,
+	"state" "mission_state" DEFAULT 'ACCEPTED' NOT NULL,
+	"submit_by" timestamp,
+	"revision_count" integer DEFAULT 0 NOT NULL,
+	"revision_feedback" text,
+	"payout_failure_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "assignment_id" uuid;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "slots" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "payouts" ADD COLUMN "assignment_id" uuid;--> statement-breakpoint
+ALTER TABLE "mission_assignments" ADD CONSTRAINT "mission_assignments_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_assignments" ADD CONSTRAINT "mission_assignments_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mission_assignments_mission_creator_idx" ON "mission_assignments" USING btree ("mission_id","creator_id");--> statement-breakpoint
+CREATE INDEX "mission_assignments_creator_idx" ON "mission_assignments" USING btree ("creator_id");--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD CONSTRAINT "mission_submissions_assignment_id_mission_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."mission_assignments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_assignment_id_mission_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."mission_assignments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "mission_assignments" ("mission_id", "campaign_id", "creator_id", "state", "submit_by", "revision_count", "revision_feedback", "payout_failure_reason", "created_at", "updated_at")
+SELECT "id", "campaign_id", "creator_id", "state", "submit_by", "revision_count", "revision_feedback", "payout_failure_reason", "created_at", "updated_at"
+FROM "missions"
+WHERE "creator_id" IS NOT NULL;--> statement-breakpoint
+UPDATE "mission_submissions" s SET "assignment_id" = a."id" FROM "mission_assignments" a WHERE a."mission_id" = s."mission_id";--> statement-breakpoint
+UPDATE "payouts" p SET "assignment_id" = a."id" FROM "mission_assignments" a WHERE a."mission_id" = p."mission_id";--> statement-breakpoint
+UPDATE "missions" SET "state" = 'OPEN' WHERE "state"::text NOT IN ('OPEN', 'CANCELLED', 'EXPIRED');
@@ -0,0 +1,9 @@
+DROP INDEX "mission_submissions_mission_version_idx";--> statement-breakpoint
+ALTER TABLE "mission_submissions" ALTER COLUMN "assignment_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "payouts" ALTER COLUMN "assignment_id" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "mission_submissions_assignment_version_idx" ON "mission_submissions" USING btree ("assignment_id","version");--> statement-breakpoint
+ALTER TABLE "missions" DROP COLUMN "creator_id";--> statement-breakpoint
+ALTER TABLE "missions" DROP COLUMN "payout_failure_reason";--> statement-breakpoint
+ALTER TABLE "missions" DROP COLUMN "submit_by";--> statement-breakpoint
+ALTER TABLE "missions" DROP COLUMN "revision_count";--> statement-breakpoint
+ALTER TABLE "missions" DROP COLUMN "revision_feedback";
\ No newline at end of file
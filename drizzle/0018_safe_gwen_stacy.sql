@@ -0,0 +1,37 @@
+CREATE TYPE "public"."application_status" AS ENUM('PENDING', 'APPROVED', 'REJECTED');--> statement-breakpoint
+CREATE TYPE "public"."notification_type" AS ENUM('APPLICATION_APPROVED', 'APPLICATION_REJECTED');--> statement-breakpoint
+ALTER TYPE "public"."mission_state" ADD VALUE 'APPLICATIONS_OPEN' BEFORE 'ACCEPTED';--> statement-breakpoint
+CREATE TABLE "mission_applications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mission_id" uuid NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"creator_id" varchar NOT NULL,
+	"pitch" text NOT NULL,
+	"status" "application_status" DEFAULT 'PENDING' NOT NULL,
+	"decision_note" text,
+	"decided_by" integer,
+	"decided_at" timestamp,
+	"assignment_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recipient_id" varchar NOT NULL,
+	"type" "notification_type" NOT NULL,
+	"title" varchar NOT NULL,
+	"body" text,
+	"mission_id" uuid,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mission_applications" ADD CONSTRAINT "mission_applications_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_applications" ADD CONSTRAINT "mission_applications_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_applications" ADD CONSTRAINT "mission_applications_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_applications" ADD CONSTRAINT "mission_applications_assignment_id_mission_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."mission_assignments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mission_applications_mission_creator_idx" ON "mission_applications" USING btree ("mission_id","creator_id");--> statement-breakpoint
+CREATE INDEX "mission_applications_creator_idx" ON "mission_applications" USING btree ("creator_id");--> statement-breakpoint
+CREATE INDEX "notifications_recipient_idx" ON "notifications" USING btree ("recipient_id","created_at");
\ No newline at end of file
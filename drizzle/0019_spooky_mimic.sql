@@ -0,0 +1,26 @@
+CREATE TYPE "public"."follower_count_source" AS ENUM('MANUAL', 'IMPORTED');--> statement-breakpoint
+CREATE TYPE "public"."social_platform" AS ENUM('TIKTOK', 'INSTAGRAM', 'YOUTUBE');--> statement-breakpoint
+CREATE TABLE "creator_profiles" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"display_name" varchar NOT NULL,
+	"bio" text,
+	"avatar_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "creator_social_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"platform" "social_platform" NOT NULL,
+	"handle" varchar NOT NULL,
+	"follower_count" integer,
+	"follower_count_source" "follower_count_source",
+	"follower_count_updated_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "creator_profiles" ADD CONSTRAINT "creator_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "creator_social_accounts" ADD CONSTRAINT "creator_social_accounts_user_id_creator_profiles_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."creator_profiles"("user_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "creator_social_accounts_user_platform_idx" ON "creator_social_accounts" USING btree ("user_id","platform");
\ No newline at end of file
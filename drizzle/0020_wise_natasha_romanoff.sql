@@ -0,0 +1,14 @@
+CREATE TABLE "artist_profiles" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"display_name" varchar NOT NULL,
+	"genre" varchar,
+	"bio" text,
+	"avatar_url" text,
+	"links" text[] DEFAULT '{}' NOT NULL,
+	"track_title" varchar,
+	"track_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "artist_profiles" ADD CONSTRAINT "artist_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."video_platform" AS ENUM('TIKTOK', 'INSTAGRAM_REELS', 'YOUTUBE_SHORTS', 'X');--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "platform" "video_platform" DEFAULT 'TIKTOK' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "video_url" text;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "video_id" varchar;--> statement-breakpoint
+ALTER TABLE "missions" ADD COLUMN "platforms" "video_platform"[] DEFAULT '{"TIKTOK"}' NOT NULL;--> statement-breakpoint
+UPDATE "mission_submissions" SET "video_url" = "tiktok_url", "video_id" = substring("tiktok_url" from '/video/([0-9]+)');
@@ -0,0 +1,3 @@
+ALTER TABLE "mission_submissions" ALTER COLUMN "platform" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ALTER COLUMN "video_url" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "mission_submissions" DROP COLUMN "tiktok_url";
\ No newline at end of file
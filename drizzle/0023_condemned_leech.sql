@@ -0,0 +1,3 @@
+ALTER TABLE "mission_submissions" ADD COLUMN "duplicate_of_submission_id" uuid;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD CONSTRAINT "mission_submissions_duplicate_of_submission_id_mission_submissions_id_fk" FOREIGN KEY ("duplicate_of_submission_id") REFERENCES "public"."mission_submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mission_submissions_platform_video_idx" ON "mission_submissions" USING btree ("platform","video_id");
\ No newline at end of file
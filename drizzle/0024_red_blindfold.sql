@@ -0,0 +1,13 @@
+CREATE TABLE "submission_metrics" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"submission_id" uuid NOT NULL,
+	"provider" varchar NOT NULL,
+	"views" bigint NOT NULL,
+	"likes" bigint NOT NULL,
+	"shares" bigint NOT NULL,
+	"comments" bigint NOT NULL,
+	"collected_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "submission_metrics" ADD CONSTRAINT "submission_metrics_submission_id_mission_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."mission_submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submission_metrics_submission_collected_idx" ON "submission_metrics" USING btree ("submission_id","collected_at");
\ No newline at end of file
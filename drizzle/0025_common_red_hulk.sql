@@ -0,0 +1,12 @@
+CREATE TABLE "mission_bonus_tiers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mission_id" uuid NOT NULL,
+	"views_threshold" bigint NOT NULL,
+	"bonus_cents" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payouts" ADD COLUMN "bonus_tier_id" uuid;--> statement-breakpoint
+ALTER TABLE "mission_bonus_tiers" ADD CONSTRAINT "mission_bonus_tiers_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mission_bonus_tiers_mission_views_idx" ON "mission_bonus_tiers" USING btree ("mission_id","views_threshold");--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_bonus_tier_id_mission_bonus_tiers_id_fk" FOREIGN KEY ("bonus_tier_id") REFERENCES "public"."mission_bonus_tiers"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "campaign_verification_rules" (
+	"campaign_id" integer PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"require_public" boolean DEFAULT false NOT NULL,
+	"sound_id" varchar,
+	"required_hashtags" text[] DEFAULT '{}' NOT NULL,
+	"require_posted_after_acceptance" boolean DEFAULT false NOT NULL,
+	"min_views" bigint,
+	"min_views_window_hours" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "auto_verification" jsonb;--> statement-breakpoint
+ALTER TABLE "campaign_verification_rules" ADD CONSTRAINT "campaign_verification_rules_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
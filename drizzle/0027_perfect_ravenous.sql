@@ -0,0 +1,8 @@
+CREATE TYPE "public"."decision_source" AS ENUM('ARTIST', 'AUTO_RULES', 'REVIEW_SLA');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'REVIEW_DEADLINE_APPROACHING';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'SUBMISSION_AUTO_APPROVED';--> statement-breakpoint
+ALTER TABLE "campaign_verification_rules" ADD COLUMN "review_sla_hours" integer;--> statement-breakpoint
+ALTER TABLE "campaign_verification_rules" ADD COLUMN "auto_pay_after_review_sla" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "decision_source" "decision_source";--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "review_warning_sent_at" timestamp;--> statement-breakpoint
+UPDATE "mission_submissions" SET "decision_source" = CASE WHEN "reviewed_by" IS NULL THEN 'AUTO_RULES'::"decision_source" ELSE 'ARTIST'::"decision_source" END WHERE "decision" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."dispute_status" AS ENUM('OPEN', 'UPHELD', 'OVERTURNED');--> statement-breakpoint
+CREATE TYPE "public"."rejection_reason" AS ENUM('NOT_POSTED', 'BRIEF_NOT_FOLLOWED', 'WRONG_SOUND', 'LOW_QUALITY', 'INAPPROPRIATE', 'DUPLICATE', 'OTHER');--> statement-breakpoint
+ALTER TYPE "public"."decision_source" ADD VALUE 'ADMIN';--> statement-breakpoint
+ALTER TYPE "public"."mission_state" ADD VALUE 'DISPUTED';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'DISPUTE_OPENED';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'DISPUTE_RESOLVED';--> statement-breakpoint
+CREATE TABLE "assignment_disputes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"assignment_id" uuid NOT NULL,
+	"submission_id" uuid NOT NULL,
+	"creator_id" varchar NOT NULL,
+	"reason" text NOT NULL,
+	"status" "dispute_status" DEFAULT 'OPEN' NOT NULL,
+	"resolution_note" text,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "assignment_disputes_submission_id_unique" UNIQUE("submission_id")
+);
+--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "rejection_reason" "rejection_reason";--> statement-breakpoint
+ALTER TABLE "assignment_disputes" ADD CONSTRAINT "assignment_disputes_assignment_id_mission_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."mission_assignments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assignment_disputes" ADD CONSTRAINT "assignment_disputes_submission_id_mission_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."mission_submissions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."event_actor" AS ENUM('ARTIST', 'CREATOR', 'ADMIN', 'SYSTEM');--> statement-breakpoint
+CREATE TABLE "mission_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"mission_id" uuid NOT NULL,
+	"assignment_id" uuid,
+	"actor" "event_actor" NOT NULL,
+	"actor_user_id" integer,
+	"from_state" "mission_state" NOT NULL,
+	"to_state" "mission_state" NOT NULL,
+	"reason" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mission_events" ADD CONSTRAINT "mission_events_mission_id_missions_id_fk" FOREIGN KEY ("mission_id") REFERENCES "public"."missions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_events" ADD CONSTRAINT "mission_events_assignment_id_mission_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."mission_assignments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mission_events" ADD CONSTRAINT "mission_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "mission_events_mission_created_idx" ON "mission_events" USING btree ("mission_id","created_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."admin_action_type" AS ENUM('SUSPEND_USER', 'REINSTATE_USER', 'FORCE_TRANSITION', 'RETRY_PAYOUT', 'RESOLVE_DISPUTE', 'REPLAY_STRIPE_EVENT');--> statement-breakpoint
+ALTER TYPE "public"."user_role" ADD VALUE 'ADMIN';--> statement-breakpoint
+CREATE TABLE "admin_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"admin_user_id" integer NOT NULL,
+	"action" "admin_action_type" NOT NULL,
+	"target_type" varchar NOT NULL,
+	"target_id" varchar NOT NULL,
+	"reason" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspension_reason" text;--> statement-breakpoint
+ALTER TABLE "admin_actions" ADD CONSTRAINT "admin_actions_admin_user_id_users_id_fk" FOREIGN KEY ("admin_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "admin_actions_target_idx" ON "admin_actions" USING btree ("target_type","target_id");
\ No newline at end of file
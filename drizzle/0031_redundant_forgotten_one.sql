@@ -0,0 +1 @@
+ALTER TABLE "mission_events" ALTER COLUMN "created_at" SET DEFAULT clock_timestamp();
\ No newline at end of file
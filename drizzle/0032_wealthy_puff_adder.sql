@@ -0,0 +1,2 @@
+ALTER TYPE "public"."notification_type" ADD VALUE 'REVIEW_OVERDUE';--> statement-breakpoint
+ALTER TABLE "mission_submissions" ADD COLUMN "review_overdue_notified_at" timestamp;
\ No newline at end of file
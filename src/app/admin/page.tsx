@@ -0,0 +1,926 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabase/client";
+import type { Session } from "@supabase/supabase-js";
+
+interface AdminUser {
+  id: number;
+  auth_user_id: string | null;
+  roles: string[];
+  stripe_account_id: string | null;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  created_at: string;
+  creator_name: string | null;
+  artist_name: string | null;
+}
+
+interface AdminCampaign {
+  id: number;
+  artist_id: number;
+  artist_name: string | null;
+  title: string;
+  budget_cents: number;
+  currency: string;
+  payment_status: string;
+  cancelled_at: string | null;
+  created_at: string;
+}
+
+interface AdminAssignment {
+  id: string;
+  mission_id: string;
+  creator_id: string;
+  state: string;
+  payout_failure_reason: string | null;
+  updated_at: string;
+}
+
+interface AdminMission {
+  id: string;
+  campaign_id: number;
+  campaign_title: string;
+  title: string;
+  state: string;
+  payout_cents: number;
+  slots: number;
+  created_at: string;
+  assignments: AdminAssignment[];
+}
+
+interface AdminPayout {
+  id: string;
+  assignment_id: string;
+  mission_title: string;
+  creator_name: string | null;
+  amount_cents: number;
+  currency: string;
+  attempt: number;
+  bonus_tier_id: string | null;
+  status: string;
+  stripe_transfer_id: string | null;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+}
+
+interface AdminAction {
+  id: string;
+  admin_user_id: number;
+  action: string;
+  target_type: string;
+  target_id: string;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+type TabType = "users" | "campaigns" | "missions" | "payouts" | "events" | "audit";
+
+const tabLabels: Record<TabType, string> = {
+  users: "Users",
+  campaigns: "Campaigns",
+  missions: "Missions",
+  payouts: "Payouts",
+  events: "Webhook Events",
+  audit: "Audit Log",
+};
+
+// List endpoint behind each tab; all but the audit log take ?q=
+const tabEndpoints: Record<TabType, string> = {
+  users: "/api/admin/users",
+  campaigns: "/api/admin/campaigns",
+  missions: "/api/admin/missions",
+  payouts: "/api/admin/payouts",
+  events: "/api/admin/stripe-events",
+  audit: "/api/admin/actions",
+};
+
+const searchPlaceholders: Record<TabType, string> = {
+  users: "User ID, auth ID or name",
+  campaigns: "Campaign ID, title or artist",
+  missions: "Mission title, mission or assignment ID",
+  payouts: "Payout, assignment or transfer ID, mission or creator",
+  events: "Event ID or type",
+  audit: "",
+};
+
+const statusColors: Record<string, { bg: string; text: string }> = {
+  OPEN: { bg: "#e3f2fd", text: "#1565c0" },
+  APPLICATIONS_OPEN: { bg: "#e3f2fd", text: "#1565c0" },
+  ACCEPTED: { bg: "#fff3e0", text: "#ef6c00" },
+  SUBMITTED: { bg: "#f3e5f5", text: "#7b1fa2" },
+  CHANGES_REQUESTED: { bg: "#fff8e1", text: "#f57f17" },
+  VERIFIED: { bg: "#e8f5e9", text: "#2e7d32" },
+  PAID: { bg: "#e0f2f1", text: "#00695c" },
+  REJECTED: { bg: "#ffebee", text: "#c62828" },
+  DISPUTED: { bg: "#fce4ec", text: "#ad1457" },
+  CANCELLED: { bg: "#f5f5f5", text: "#616161" },
+  EXPIRED: { bg: "#f5f5f5", text: "#616161" },
+  PAYOUT_FAILED: { bg: "#ffebee", text: "#c62828" },
+  PENDING: { bg: "#fff3e0", text: "#ef6c00" },
+  FUNDED: { bg: "#e8f5e9", text: "#2e7d32" },
+  FAILED: { bg: "#ffebee", text: "#c62828" },
+  SUCCEEDED: { bg: "#e8f5e9", text: "#2e7d32" },
+  REVERSED: { bg: "#ffebee", text: "#c62828" },
+  PROCESSED: { bg: "#e8f5e9", text: "#2e7d32" },
+  SUSPENDED: { bg: "#ffebee", text: "#c62828" },
+};
+
+const adminActionLabels: Record<string, string> = {
+  SUSPEND_USER: "Suspended user",
+  REINSTATE_USER: "Reinstated user",
+  FORCE_TRANSITION: "Forced transition",
+  RETRY_PAYOUT: "Retried payout",
+  RESOLVE_DISPUTE: "Resolved dispute",
+  REPLAY_STRIPE_EVENT: "Replayed Stripe event",
+};
+
+// Where an admin can move an assignment, from the states that allow it
+const forceTargets: Record<string, string[]> = {
+  ACCEPTED: ["EXPIRED"],
+  SUBMITTED: ["VERIFIED", "REJECTED"],
+};
+
+type ActionModal =
+  | { kind: "suspend"; user: AdminUser }
+  | { kind: "transition"; mission: AdminMission; assignment: AdminAssignment };
+
+function formatCents(cents: number, currency = "usd") {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const colors = statusColors[status] || { bg: "#f5f5f5", text: "#616161" };
+  return (
+    <span style={{
+      padding: "4px 8px",
+      borderRadius: "4px",
+      fontSize: "12px",
+      fontWeight: "bold",
+      backgroundColor: colors.bg,
+      color: colors.text,
+    }}>
+      {status}
+    </span>
+  );
+}
+
+const cardStyle = {
+  backgroundColor: "white",
+  borderRadius: "8px",
+  boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+  padding: "16px 20px",
+};
+
+const smallButtonStyle = (backgroundColor: string) => ({
+  padding: "6px 12px",
+  backgroundColor,
+  color: "white",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+  fontSize: "13px",
+});
+
+export default function AdminConsole() {
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accessDenied, setAccessDenied] = useState(false);
+  const [activeTab, setActiveTab] = useState<TabType>("users");
+  const [search, setSearch] = useState("");
+  const [rows, setRows] = useState<unknown[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  // Suspend / force transition modal state
+  const [actionModal, setActionModal] = useState<ActionModal | null>(null);
+  const [actionReason, setActionReason] = useState("");
+  const [transitionTo, setTransitionTo] = useState("");
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const checkUserRole = useCallback(async (accessToken: string) => {
+    try {
+      const res = await fetch("/api/auth/me", {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!res.ok) {
+        // User not found in database, redirect to signup
+        if (res.status === 404) {
+          router.push("/auth/signup");
+          return false;
+        }
+        throw new Error("Failed to fetch user role");
+      }
+
+      const user = await res.json();
+      const roles: string[] = user.roles || (user.role ? [user.role] : []);
+
+      // Check if user has ADMIN role
+      if (!roles.includes("ADMIN")) {
+        setAccessDenied(true);
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error("Error checking user role:", err);
+      setError("Failed to verify access. Please try again.");
+      return false;
+    }
+  }, [router]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) {
+        router.push("/auth/signin");
+        return;
+      }
+
+      const hasAccess = await checkUserRole(session.access_token);
+      if (hasAccess) {
+        setSession(session);
+      }
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
+      if (!session) {
+        router.push("/auth/signin");
+        return;
+      }
+
+      const hasAccess = await checkUserRole(session.access_token);
+      if (hasAccess) {
+        setSession(session);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [router, checkUserRole]);
+
+  const fetchRows = useCallback(async (tab: TabType, q: string) => {
+    if (!session) return;
+
+    setListLoading(true);
+    setError(null);
+    try {
+      const query = q.trim() && tab !== "audit" ? `?q=${encodeURIComponent(q.trim())}` : "";
+      const res = await fetch(`${tabEndpoints[tab]}${query}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load");
+      }
+      setRows(data);
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : "Failed to load");
+    } finally {
+      setListLoading(false);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    fetchRows(activeTab, "");
+  }, [activeTab, fetchRows]);
+
+  const handleTabChange = (tab: TabType) => {
+    setSearch("");
+    setMessage(null);
+    setActiveTab(tab);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchRows(activeTab, search);
+  };
+
+  const postAction = async (url: string, body: Record<string, unknown>) => {
+    if (!session) return null;
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || "Action failed");
+    }
+    return data;
+  };
+
+  const openSuspendModal = (user: AdminUser) => {
+    setActionModal({ kind: "suspend", user });
+    setActionReason("");
+    setActionError(null);
+  };
+
+  const openTransitionModal = (mission: AdminMission, assignment: AdminAssignment) => {
+    setActionModal({ kind: "transition", mission, assignment });
+    setTransitionTo(forceTargets[assignment.state]?.[0] || "");
+    setActionReason("");
+    setActionError(null);
+  };
+
+  const handleModalSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!actionModal) return;
+
+    setActionLoading("modal");
+    setActionError(null);
+    try {
+      if (actionModal.kind === "suspend") {
+        await postAction(`/api/admin/users/${actionModal.user.id}/suspend`, { reason: actionReason });
+        setMessage(`User ${actionModal.user.id} suspended`);
+      } else {
+        await postAction(`/api/admin/assignments/${actionModal.assignment.id}/transition`, {
+          to: transitionTo,
+          reason: actionReason,
+        });
+        setMessage(`Assignment moved to ${transitionTo}`);
+      }
+      setActionModal(null);
+      fetchRows(activeTab, search);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleReinstate = async (user: AdminUser) => {
+    if (!confirm(`Reinstate user ${user.id}?`)) return;
+
+    setActionLoading(`user-${user.id}`);
+    setError(null);
+    try {
+      await postAction(`/api/admin/users/${user.id}/reinstate`, {});
+      setMessage(`User ${user.id} reinstated`);
+      fetchRows(activeTab, search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reinstate user");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRetryPayout = async (payout: AdminPayout) => {
+    if (!confirm(`Retry the payout of ${formatCents(payout.amount_cents, payout.currency)} to ${payout.creator_name || "the creator"}?`)) return;
+
+    setActionLoading(`payout-${payout.id}`);
+    setError(null);
+    try {
+      const data = await postAction(`/api/admin/payouts/${payout.id}/retry`, {});
+      setMessage(
+        data.payment.status === "paid"
+          ? "Payout sent"
+          : `Payout not sent: ${data.payment.reason}`
+      );
+      fetchRows(activeTab, search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry payout");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleReplayEvent = async (event: StripeEvent) => {
+    setActionLoading(`event-${event.id}`);
+    setError(null);
+    try {
+      const data = await postAction(`/api/admin/stripe-events/${event.id}/replay`, {});
+      setMessage(`Event ${event.id} replayed: ${data.status}`);
+      fetchRows(activeTab, search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay event");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        fontSize: "24px",
+      }}>
+        Loading...
+      </div>
+    );
+  }
+
+  if (accessDenied) {
+    return (
+      <div style={{
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        gap: "16px",
+        padding: "20px",
+        textAlign: "center",
+      }}>
+        <div style={{ fontSize: "48px" }}>🚫</div>
+        <h1 style={{ fontSize: "24px", margin: 0 }}>Access Denied</h1>
+        <p style={{ color: "#666", margin: 0 }}>
+          The admin console is only accessible to Admin accounts.
+        </p>
+        <button
+          onClick={() => router.push("/")}
+          style={{
+            marginTop: "16px",
+            padding: "12px 24px",
+            backgroundColor: "#0070f3",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+            fontSize: "14px",
+          }}
+        >
+          Go to Home
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      minHeight: "100vh",
+      backgroundColor: "#f5f5f5",
+      padding: "20px",
+    }}>
+      {/* Header */}
+      <div style={{
+        maxWidth: "1100px",
+        margin: "0 auto",
+        marginBottom: "24px",
+      }}>
+        <div style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}>
+          <h1 style={{ fontSize: "28px", fontWeight: "bold", margin: 0 }}>
+            Admin Console
+          </h1>
+          <button
+            onClick={() => router.push("/")}
+            style={{
+              padding: "8px 16px",
+              backgroundColor: "#6c757d",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontSize: "14px",
+            }}
+          >
+            Back to Home
+          </button>
+        </div>
+        <p style={{ color: "#666", marginTop: "8px" }}>
+          Look up users, campaigns, missions, payouts and webhook events. Every action taken here is recorded in the audit log.
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div style={{
+        maxWidth: "1100px",
+        margin: "0 auto",
+        marginBottom: "20px",
+      }}>
+        <div style={{
+          display: "flex",
+          gap: "8px",
+          borderBottom: "2px solid #ddd",
+          flexWrap: "wrap",
+        }}>
+          {(Object.keys(tabLabels) as TabType[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => handleTabChange(tab)}
+              style={{
+                padding: "12px 24px",
+                fontSize: "16px",
+                backgroundColor: activeTab === tab ? "#0070f3" : "transparent",
+                color: activeTab === tab ? "white" : "#333",
+                border: "none",
+                borderRadius: "4px 4px 0 0",
+                cursor: "pointer",
+                fontWeight: activeTab === tab ? "bold" : "normal",
+              }}
+            >
+              {tabLabels[tab]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{ maxWidth: "1100px", margin: "0 auto" }}>
+        {activeTab !== "audit" && (
+          <form onSubmit={handleSearch} style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={searchPlaceholders[activeTab]}
+              style={{
+                flex: 1,
+                padding: "10px 12px",
+                fontSize: "16px",
+                border: "1px solid #ccc",
+                borderRadius: "4px",
+              }}
+            />
+            <button
+              type="submit"
+              style={{
+                padding: "10px 20px",
+                backgroundColor: "#0070f3",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                cursor: "pointer",
+                fontSize: "16px",
+              }}
+            >
+              Search
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div style={{
+            padding: "12px",
+            backgroundColor: "#ffebee",
+            color: "#c62828",
+            borderRadius: "4px",
+            marginBottom: "16px",
+          }}>
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div style={{
+            padding: "12px",
+            backgroundColor: "#e8f5e9",
+            color: "#2e7d32",
+            borderRadius: "4px",
+            marginBottom: "16px",
+          }}>
+            {message}
+          </div>
+        )}
+
+        {listLoading ? (
+          <div style={{ textAlign: "center", padding: "40px", color: "#666" }}>Loading...</div>
+        ) : rows.length === 0 ? (
+          <div style={{
+            textAlign: "center",
+            padding: "40px",
+            color: "#666",
+            backgroundColor: "white",
+            borderRadius: "8px",
+          }}>
+            Nothing found.
+          </div>
+        ) : (
+          <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+            {activeTab === "users" && (rows as AdminUser[]).map((user) => (
+              <div key={user.id} style={cardStyle}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "16px" }}>
+                  <div>
+                    <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+                      <strong>#{user.id} {user.creator_name || user.artist_name || "No profile"}</strong>
+                      {user.roles.map((role) => (
+                        <span key={role} style={{ fontSize: "12px", color: "#666" }}>{role}</span>
+                      ))}
+                      {user.suspended_at && <StatusBadge status="SUSPENDED" />}
+                    </div>
+                    <div style={{ fontSize: "13px", color: "#666" }}>
+                      Auth ID: {user.auth_user_id || "—"} · Joined {new Date(user.created_at).toLocaleDateString()}
+                      {user.stripe_account_id && ` · Stripe: ${user.stripe_account_id}`}
+                    </div>
+                    {user.suspended_at && (
+                      <div style={{ fontSize: "13px", color: "#c62828", marginTop: "4px" }}>
+                        Suspended {new Date(user.suspended_at).toLocaleString()}: {user.suspension_reason}
+                      </div>
+                    )}
+                  </div>
+                  {user.suspended_at ? (
+                    <button
+                      onClick={() => handleReinstate(user)}
+                      disabled={actionLoading === `user-${user.id}`}
+                      style={smallButtonStyle("#28a745")}
+                    >
+                      {actionLoading === `user-${user.id}` ? "Reinstating..." : "Reinstate"}
+                    </button>
+                  ) : (
+                    <button onClick={() => openSuspendModal(user)} style={smallButtonStyle("#dc3545")}>
+                      Suspend
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {activeTab === "campaigns" && (rows as AdminCampaign[]).map((campaign) => (
+              <div key={campaign.id} style={cardStyle}>
+                <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+                  <strong>#{campaign.id} {campaign.title}</strong>
+                  <StatusBadge status={campaign.payment_status} />
+                  {campaign.cancelled_at && <StatusBadge status="CANCELLED" />}
+                </div>
+                <div style={{ fontSize: "13px", color: "#666" }}>
+                  Artist #{campaign.artist_id}{campaign.artist_name && ` (${campaign.artist_name})`} ·
+                  Budget {formatCents(campaign.budget_cents, campaign.currency)} ·
+                  Created {new Date(campaign.created_at).toLocaleDateString()}
+                </div>
+              </div>
+            ))}
+
+            {activeTab === "missions" && (rows as AdminMission[]).map((mission) => (
+              <div key={mission.id} style={cardStyle}>
+                <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+                  <strong>{mission.title}</strong>
+                  <StatusBadge status={mission.state} />
+                </div>
+                <div style={{ fontSize: "13px", color: "#666", marginBottom: "8px" }}>
+                  {mission.campaign_title} (#{mission.campaign_id}) · {formatCents(mission.payout_cents)} per slot ·
+                  {" "}{mission.slots} slot{mission.slots === 1 ? "" : "s"} · {mission.id}
+                </div>
+                {mission.assignments.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      padding: "8px 0",
+                      borderTop: "1px solid #eee",
+                      fontSize: "13px",
+                    }}
+                  >
+                    <div>
+                      <StatusBadge status={assignment.state} />
+                      <span style={{ marginLeft: "8px", color: "#666" }}>
+                        {assignment.id} · creator {assignment.creator_id} · updated {new Date(assignment.updated_at).toLocaleString()}
+                      </span>
+                      {assignment.payout_failure_reason && (
+                        <div style={{ color: "#c62828", marginTop: "4px" }}>{assignment.payout_failure_reason}</div>
+                      )}
+                    </div>
+                    {forceTargets[assignment.state] && (
+                      <button
+                        onClick={() => openTransitionModal(mission, assignment)}
+                        style={smallButtonStyle("#ef6c00")}
+                      >
+                        Force transition
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {activeTab === "payouts" && (rows as AdminPayout[]).map((payout) => (
+              <div key={payout.id} style={cardStyle}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "16px" }}>
+                  <div>
+                    <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+                      <strong>{formatCents(payout.amount_cents, payout.currency)}</strong>
+                      <StatusBadge status={payout.status} />
+                      {payout.bonus_tier_id && <span style={{ fontSize: "12px", color: "#666" }}>View bonus</span>}
+                    </div>
+                    <div style={{ fontSize: "13px", color: "#666" }}>
+                      {payout.mission_title} · {payout.creator_name || "Unknown creator"} · attempt {payout.attempt} ·
+                      {" "}{new Date(payout.created_at).toLocaleString()}
+                    </div>
+                    <div style={{ fontSize: "12px", color: "#999" }}>
+                      {payout.id} · assignment {payout.assignment_id}
+                      {payout.stripe_transfer_id && ` · ${payout.stripe_transfer_id}`}
+                    </div>
+                    {payout.failure_reason && (
+                      <div style={{ fontSize: "13px", color: "#c62828", marginTop: "4px" }}>{payout.failure_reason}</div>
+                    )}
+                  </div>
+                  {(payout.status === "FAILED" || payout.status === "REVERSED") && !payout.bonus_tier_id && (
+                    <button
+                      onClick={() => handleRetryPayout(payout)}
+                      disabled={actionLoading === `payout-${payout.id}`}
+                      style={smallButtonStyle("#0070f3")}
+                    >
+                      {actionLoading === `payout-${payout.id}` ? "Retrying..." : "Retry payout"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {activeTab === "events" && (rows as StripeEvent[]).map((event) => (
+              <div key={event.id} style={cardStyle}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "16px" }}>
+                  <div>
+                    <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "4px" }}>
+                      <strong>{event.type}</strong>
+                      <StatusBadge status={event.status} />
+                    </div>
+                    <div style={{ fontSize: "13px", color: "#666" }}>
+                      {event.id} · {event.attempts} attempt{event.attempts === 1 ? "" : "s"} ·
+                      {" "}{new Date(event.created_at).toLocaleString()}
+                    </div>
+                    {event.last_error && (
+                      <div style={{ fontSize: "13px", color: "#c62828", marginTop: "4px" }}>{event.last_error}</div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleReplayEvent(event)}
+                    disabled={actionLoading === `event-${event.id}`}
+                    style={smallButtonStyle("#6c757d")}
+                  >
+                    {actionLoading === `event-${event.id}` ? "Replaying..." : "Replay"}
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {activeTab === "audit" && (rows as AdminAction[]).map((action) => (
+              <div key={action.id} style={cardStyle}>
+                <div style={{ marginBottom: "4px" }}>
+                  <strong>{adminActionLabels[action.action] || action.action}</strong>
+                  <span style={{ color: "#666" }}> {action.target_type} {action.target_id}</span>
+                </div>
+                <div style={{ fontSize: "13px", color: "#666" }}>
+                  By admin #{action.admin_user_id} · {new Date(action.created_at).toLocaleString()}
+                </div>
+                {action.reason && <div style={{ fontSize: "14px", marginTop: "4px" }}>{action.reason}</div>}
+                {action.metadata && (
+                  <div style={{ fontSize: "12px", color: "#999", marginTop: "4px", fontFamily: "monospace" }}>
+                    {JSON.stringify(action.metadata)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Suspend / Force Transition Modal */}
+      {actionModal && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 8px", fontSize: "20px" }}>
+              {actionModal.kind === "suspend" ? `Suspend User #${actionModal.user.id}` : "Force Transition"}
+            </h2>
+            <p style={{ margin: "0 0 16px", color: "#666", fontSize: "14px" }}>
+              {actionModal.kind === "suspend"
+                ? "The user is locked out of every artist and creator action until reinstated. Work in progress is left as it is."
+                : `"${actionModal.mission.title}", assignment currently ${actionModal.assignment.state}. Rejecting or expiring it releases its reserved payout; no money is sent.`}
+            </p>
+
+            {actionError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {actionError}
+              </div>
+            )}
+
+            <form onSubmit={handleModalSubmit}>
+              {actionModal.kind === "transition" && (
+                <div style={{ marginBottom: "16px" }}>
+                  <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                    New state
+                  </label>
+                  <select
+                    value={transitionTo}
+                    onChange={(e) => setTransitionTo(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: "12px",
+                      fontSize: "16px",
+                      border: "1px solid #ccc",
+                      borderRadius: "4px",
+                      boxSizing: "border-box",
+                    }}
+                  >
+                    {(forceTargets[actionModal.assignment.state] || []).map((state) => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Reason (recorded in the audit log)
+                </label>
+                <textarea
+                  value={actionReason}
+                  onChange={(e) => setActionReason(e.target.value)}
+                  maxLength={2000}
+                  rows={4}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setActionModal(null)}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#6c757d",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    fontSize: "16px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={actionLoading === "modal"}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: actionModal.kind === "suspend" ? "#dc3545" : "#ef6c00",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: actionLoading === "modal" ? "not-allowed" : "pointer",
+                    fontSize: "16px",
+                  }}
+                >
+                  {actionLoading === "modal"
+                    ? "Saving..."
+                    : actionModal.kind === "suspend" ? "Suspend" : "Force Transition"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { getAdminActions, type AdminTargetType } from "@/lib/admin/audit";
+
+const TARGET_TYPES: AdminTargetType[] = ["user", "assignment", "payout", "dispute", "stripe_event"];
+
+/**
+ * GET /api/admin/actions
+ * Audit log: the 100 most recent admin actions, or with ?target_type= and ?target_id= those
+ * on one user, assignment, payout, dispute or Stripe event
+ */
+export const GET = withErrorHandling("fetching admin actions", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const targetType = searchParams.get("target_type");
+  const targetId = searchParams.get("target_id");
+
+  if (targetType && !TARGET_TYPES.includes(targetType as AdminTargetType)) {
+    return NextResponse.json(
+      {
+        error: "Invalid target type",
+        validTargetTypes: TARGET_TYPES,
+      },
+      { status: 400 }
+    );
+  }
+  if (!targetType !== !targetId) {
+    return NextResponse.json(
+      { error: "target_type and target_id must be given together" },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  const actions = await getAdminActions(
+    db,
+    targetType && targetId ? { type: targetType as AdminTargetType, id: targetId } : undefined
+  );
+
+  return NextResponse.json(actions, { status: 200 });
+});
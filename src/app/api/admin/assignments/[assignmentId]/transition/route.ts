@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { FORCEABLE_STATES, forceTransition } from "@/lib/admin/assignments";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const transitionSchema = z.object({
+  to: z.enum(FORCEABLE_STATES),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason for the transition is required")
+    .max(2000, "Reason must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/admin/assignments/[assignmentId]/transition
+ * Forces an assignment to VERIFIED, REJECTED or EXPIRED on the admin's say-so, e.g. when a
+ * review is stuck. Only moves the state machine allows; audited and recorded in its history.
+ */
+export const POST = withErrorHandling("forcing assignment transition", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!UUID_REGEX.test(params.assignmentId)) {
+    return NextResponse.json(
+      { error: "Invalid assignment ID format" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+  const validated = transitionSchema.parse(body);
+
+  const db = getDb();
+  const result = await forceTransition(db, {
+    assignmentId: params.assignmentId,
+    to: validated.to,
+    reason: validated.reason,
+    adminUserId: appUser.id,
+  });
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.assignment, { status: 200 });
+});
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { artist_profiles, campaigns, paymentStatusEnum } from "@/lib/db/schema";
+import { and, desc, eq, ilike, or, SQL } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+
+type PaymentStatus = (typeof paymentStatusEnum.enumValues)[number];
+
+/**
+ * GET /api/admin/campaigns
+ * The 100 most recent campaigns with their artist's name. ?q= matches the campaign ID, title
+ * or artist name; ?payment_status= filters by funding status.
+ */
+export const GET = withErrorHandling("fetching campaigns", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  const statusParam = searchParams.get("payment_status");
+
+  // Validate payment status if provided
+  if (statusParam) {
+    const validStatuses = paymentStatusEnum.enumValues;
+    if (!validStatuses.includes(statusParam as PaymentStatus)) {
+      return NextResponse.json(
+        {
+          error: "Invalid payment status",
+          validStatuses,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (q) {
+    const matches = [
+      ilike(campaigns.title, `%${q}%`),
+      ilike(artist_profiles.display_name, `%${q}%`),
+    ];
+    if (/^\d+$/.test(q)) {
+      matches.push(eq(campaigns.id, parseInt(q, 10)));
+    }
+    const search = or(...matches);
+    if (search) {
+      whereConditions.push(search);
+    }
+  }
+  if (statusParam) {
+    whereConditions.push(eq(campaigns.payment_status, statusParam as PaymentStatus));
+  }
+
+  const rows = await db
+    .select({
+      campaign: campaigns,
+      artist_name: artist_profiles.display_name,
+    })
+    .from(campaigns)
+    .leftJoin(artist_profiles, eq(artist_profiles.user_id, campaigns.artist_id))
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(desc(campaigns.created_at))
+    .limit(100);
+
+  return NextResponse.json(
+    rows.map(({ campaign, artist_name }) => ({ ...campaign, artist_name })),
+    { status: 200 }
+  );
+});
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { resolveDispute } from "@/lib/missions/disputes";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const resolveSchema = z.object({
+  outcome: z.enum(["UPHOLD", "OVERTURN"]),
+  note: z
+    .string()
+    .trim()
+    .min(1, "A note explaining the decision is required")
+    .max(2000, "Note must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/admin/disputes/[disputeId]/resolve
+ * Upholds the rejection (back to REJECTED) or overturns it: the assignment is verified and
+ * the creator paid. `payment` reports whether the payout went through.
+ */
+export const POST = withErrorHandling("resolving dispute", async (
+  request: Request,
+  { params }: { params: { disputeId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!UUID_REGEX.test(params.disputeId)) {
+    return NextResponse.json(
+      { error: "Invalid dispute ID format" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+  const validated = resolveSchema.parse(body);
+
+  if (validated.outcome === "OVERTURN" && !process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const result = await resolveDispute(db, {
+    disputeId: params.disputeId,
+    outcome: validated.outcome,
+    note: validated.note,
+    adminUserId: appUser.id,
+  });
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "Dispute not found" },
+      { status: 404 }
+    );
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      dispute: result.dispute,
+      assignment: result.assignment,
+      payment: result.payment,
+    },
+    { status: 200 }
+  );
+});
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import {
+  assignment_disputes,
+  disputeStatusEnum,
+  mission_assignments,
+  mission_submissions,
+  missions,
+} from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import type { DisputeStatus } from "@/lib/missions/disputes";
+
+/**
+ * GET /api/admin/disputes
+ * The 100 most recent disputes, optionally filtered by ?status=, each with its assignment,
+ * mission and the rejected submission
+ */
+export const GET = withErrorHandling("fetching disputes", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const statusParam = searchParams.get("status");
+
+  // Validate status if provided
+  if (statusParam) {
+    const validStatuses = disputeStatusEnum.enumValues;
+    if (!validStatuses.includes(statusParam as DisputeStatus)) {
+      return NextResponse.json(
+        {
+          error: "Invalid status",
+          validStatuses,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const db = getDb();
+
+  const rows = await db
+    .select({
+      dispute: assignment_disputes,
+      assignment: mission_assignments,
+      mission: missions,
+      submission: mission_submissions,
+    })
+    .from(assignment_disputes)
+    .innerJoin(mission_assignments, eq(mission_assignments.id, assignment_disputes.assignment_id))
+    .innerJoin(missions, eq(missions.id, mission_assignments.mission_id))
+    .innerJoin(mission_submissions, eq(mission_submissions.id, assignment_disputes.submission_id))
+    .where(statusParam ? eq(assignment_disputes.status, statusParam as DisputeStatus) : undefined)
+    .orderBy(desc(assignment_disputes.created_at))
+    .limit(100);
+
+  return NextResponse.json(
+    rows.map(({ dispute, assignment, mission, submission }) => ({ ...dispute, assignment, mission, submission })),
+    { status: 200 }
+  );
+});
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { campaigns, mission_assignments, missions, missionStateEnum } from "@/lib/db/schema";
+import { and, asc, desc, eq, ilike, inArray, or, SQL } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+
+type MissionStateValue = (typeof missionStateEnum.enumValues)[number];
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/admin/missions
+ * The 100 most recent missions with their campaign title and every creator's assignment.
+ * ?q= matches the mission title or ID, or the ID of one of its assignments; ?state= matches
+ * the mission's state or that of any of its assignments.
+ */
+export const GET = withErrorHandling("fetching missions", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  const stateParam = searchParams.get("state");
+
+  // Validate state if provided
+  if (stateParam) {
+    const validStates = missionStateEnum.enumValues;
+    if (!validStates.includes(stateParam as MissionStateValue)) {
+      return NextResponse.json(
+        {
+          error: "Invalid state",
+          validStates,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (q) {
+    const matches = [ilike(missions.title, `%${q}%`)];
+    if (UUID_REGEX.test(q)) {
+      matches.push(
+        eq(missions.id, q),
+        inArray(
+          missions.id,
+          db.select({ id: mission_assignments.mission_id }).from(mission_assignments).where(eq(mission_assignments.id, q))
+        )
+      );
+    }
+    const search = or(...matches);
+    if (search) {
+      whereConditions.push(search);
+    }
+  }
+  if (stateParam) {
+    const state = stateParam as MissionStateValue;
+    const inState = or(
+      eq(missions.state, state),
+      inArray(
+        missions.id,
+        db.select({ id: mission_assignments.mission_id }).from(mission_assignments).where(eq(mission_assignments.state, state))
+      )
+    );
+    if (inState) {
+      whereConditions.push(inState);
+    }
+  }
+
+  const rows = await db
+    .select({
+      mission: missions,
+      campaign_title: campaigns.title,
+    })
+    .from(missions)
+    .innerJoin(campaigns, eq(campaigns.id, missions.campaign_id))
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(desc(missions.created_at))
+    .limit(100);
+
+  const missionIds = rows.map(({ mission }) => mission.id);
+  const assignments =
+    missionIds.length > 0
+      ? await db
+          .select()
+          .from(mission_assignments)
+          .where(inArray(mission_assignments.mission_id, missionIds))
+          .orderBy(asc(mission_assignments.created_at))
+      : [];
+
+  return NextResponse.json(
+    rows.map(({ mission, campaign_title }) => ({
+      ...mission,
+      campaign_title,
+      assignments: assignments.filter((assignment) => assignment.mission_id === mission.id),
+    })),
+    { status: 200 }
+  );
+});
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { retryPayout } from "@/lib/admin/payouts";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const retrySchema = z.object({
+  reason: z.string().trim().max(2000, "Reason must be at most 2000 characters").optional(),
+});
+
+/**
+ * POST /api/admin/payouts/[payoutId]/retry
+ * Pays the assignment of a failed or reversed payout again. `payment` reports whether the
+ * new transfer went through; the attempt is audited either way.
+ */
+export const POST = withErrorHandling("retrying payout", async (
+  request: Request,
+  { params }: { params: { payoutId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!UUID_REGEX.test(params.payoutId)) {
+    return NextResponse.json(
+      { error: "Invalid payout ID format" },
+      { status: 400 }
+    );
+  }
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: no reason given
+  }
+  const validated = retrySchema.parse(body);
+
+  const db = getDb();
+  const result = await retryPayout(db, {
+    payoutId: params.payoutId,
+    adminUserId: appUser.id,
+    reason: validated.reason || null,
+  });
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "Payout not found" },
+      { status: 404 }
+    );
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ payment: result.payment }, { status: 200 });
+});
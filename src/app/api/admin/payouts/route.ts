@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { creator_profiles, missions, payouts, payoutStatusEnum } from "@/lib/db/schema";
+import { and, desc, eq, ilike, or, SQL } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import type { Payout } from "@/lib/payments/payouts";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/admin/payouts
+ * The 100 most recent payouts with their mission title and creator name. ?q= matches the
+ * payout, assignment or Stripe transfer ID, the mission title or the creator's name;
+ * ?status= filters by payout status.
+ */
+export const GET = withErrorHandling("fetching payouts", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  const statusParam = searchParams.get("status");
+
+  // Validate status if provided
+  if (statusParam) {
+    const validStatuses = payoutStatusEnum.enumValues;
+    if (!validStatuses.includes(statusParam as Payout["status"])) {
+      return NextResponse.json(
+        {
+          error: "Invalid status",
+          validStatuses,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (q) {
+    const matches = [
+      eq(payouts.stripe_transfer_id, q),
+      ilike(missions.title, `%${q}%`),
+      ilike(creator_profiles.display_name, `%${q}%`),
+    ];
+    if (UUID_REGEX.test(q)) {
+      matches.push(eq(payouts.id, q), eq(payouts.assignment_id, q));
+    }
+    const search = or(...matches);
+    if (search) {
+      whereConditions.push(search);
+    }
+  }
+  if (statusParam) {
+    whereConditions.push(eq(payouts.status, statusParam as Payout["status"]));
+  }
+
+  const rows = await db
+    .select({
+      payout: payouts,
+      mission_title: missions.title,
+      creator_name: creator_profiles.display_name,
+    })
+    .from(payouts)
+    .innerJoin(missions, eq(missions.id, payouts.mission_id))
+    .leftJoin(creator_profiles, eq(creator_profiles.user_id, payouts.creator_user_id))
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(desc(payouts.created_at))
+    .limit(100);
+
+  return NextResponse.json(
+    rows.map(({ payout, mission_title, creator_name }) => ({ ...payout, mission_title, creator_name })),
+    { status: 200 }
+  );
+});
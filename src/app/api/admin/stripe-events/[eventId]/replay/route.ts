@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import Stripe from "stripe";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { replayStripeEvent } from "@/lib/webhooks/events";
+import { recordAdminAction } from "@/lib/admin/audit";
+
+/**
+ * POST /api/admin/stripe-events/[eventId]/replay
+ * Re-runs a Stripe event through its handler, fetching it from Stripe if it was never received.
+ * Audited with the outcome of the replay.
+ */
+export const POST = withErrorHandling("replaying Stripe event", async (
+  request: Request,
+  { params }: { params: { eventId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const eventId = params.eventId;
+  if (!eventId.startsWith("evt_")) {
+    return NextResponse.json(
+      { error: "Invalid event ID" },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+
+  let event;
+  try {
+    event = await replayStripeEvent(db, eventId);
+  } catch (stripeError) {
+    if (stripeError instanceof Stripe.errors.StripeInvalidRequestError) {
+      return NextResponse.json(
+        { error: `Event not found at Stripe: ${stripeError.message}` },
+        { status: 404 }
+      );
+    }
+    throw stripeError;
+  }
+
+  if (!event) {
+    return NextResponse.json(
+      { error: "Event is currently being processed" },
+      { status: 409 }
+    );
+  }
+
+  await recordAdminAction(db, {
+    adminUserId: appUser.id,
+    action: "REPLAY_STRIPE_EVENT",
+    targetType: "stripe_event",
+    targetId: event.id,
+    metadata: { type: event.type, status: event.status, last_error: event.last_error },
+  });
+
+  return NextResponse.json(event, { status: 200 });
+});
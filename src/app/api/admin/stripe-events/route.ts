@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { stripe_events, stripeEventStatusEnum } from "@/lib/db/schema";
+import { desc, eq, and, ilike, or, SQL } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import {
+  parsePaginationParams,
+  buildOrderBy,
+  buildCursorWhere,
+  encodeCursor,
+} from "@/lib/pagination";
+
+type StripeEventStatus = (typeof stripeEventStatusEnum.enumValues)[number];
+
+/**
+ * GET /api/admin/stripe-events
+ * Lists stored Stripe events, optionally filtered by ?status= and ?type=. ?q= matches part of
+ * the event ID or type.
+ */
+export const GET = withErrorHandling("fetching Stripe events", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const statusParam = searchParams.get("status");
+  const typeParam = searchParams.get("type");
+  const q = searchParams.get("q")?.trim();
+
+  // Validate status if provided
+  if (statusParam) {
+    const validStatuses = stripeEventStatusEnum.enumValues;
+    if (!validStatuses.includes(statusParam as StripeEventStatus)) {
+      return NextResponse.json(
+        {
+          error: "Invalid status",
+          validStatuses,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const { params: paginationParams, error: paginationError } =
+    parsePaginationParams(searchParams);
+
+  if (paginationError) {
+    return NextResponse.json({ error: paginationError }, { status: 400 });
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (statusParam) {
+    whereConditions.push(eq(stripe_events.status, statusParam as StripeEventStatus));
+  }
+  if (typeParam) {
+    whereConditions.push(eq(stripe_events.type, typeParam));
+  }
+  if (q) {
+    const search = or(ilike(stripe_events.id, `%${q}%`), ilike(stripe_events.type, `%${q}%`));
+    if (search) {
+      whereConditions.push(search);
+    }
+  }
+
+  // Without pagination params, return the 100 most recent events
+  if (!paginationParams) {
+    const events = await db
+      .select()
+      .from(stripe_events)
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(desc(stripe_events.created_at))
+      .limit(100);
+
+    return NextResponse.json(events, { status: 200 });
+  }
+
+  // Pagination mode
+  const { limit, cursor, sort } = paginationParams;
+
+  if (cursor) {
+    const cursorWhere = buildCursorWhere(sort, cursor, stripe_events.created_at, stripe_events.id);
+    if (cursorWhere) {
+      whereConditions.push(cursorWhere);
+    }
+  }
+
+  const results = await db
+    .select()
+    .from(stripe_events)
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(...buildOrderBy(sort, stripe_events.created_at, stripe_events.id))
+    .limit(limit + 1); // Fetch one extra to determine if there's a next page
+
+  // Check if there's a next page
+  const hasNextPage = results.length > limit;
+  const data = hasNextPage ? results.slice(0, limit) : results;
+
+  // Generate next cursor from last item
+  let nextCursor: string | null = null;
+  if (hasNextPage && data.length > 0) {
+    const lastItem = data[data.length - 1];
+    nextCursor = encodeCursor({
+      created_at: lastItem.created_at.toISOString(),
+      id: lastItem.id,
+    });
+  }
+
+  return NextResponse.json(
+    {
+      data,
+      nextCursor,
+    },
+    { status: 200 }
+  );
+});
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { reinstateUser } from "@/lib/admin/users";
+
+const reinstateSchema = z.object({
+  reason: z.string().trim().max(2000, "Reason must be at most 2000 characters").optional(),
+});
+
+/**
+ * POST /api/admin/users/[userId]/reinstate
+ * Lifts a suspension. Audited.
+ */
+export const POST = withErrorHandling("reinstating user", async (
+  request: Request,
+  { params }: { params: { userId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const userId = parseInt(params.userId, 10);
+  if (isNaN(userId)) {
+    return NextResponse.json(
+      { error: "Invalid user ID" },
+      { status: 400 }
+    );
+  }
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: no reason given
+  }
+  const validated = reinstateSchema.parse(body);
+
+  const db = getDb();
+  const result = await reinstateUser(db, {
+    userId,
+    adminUserId: appUser.id,
+    reason: validated.reason || null,
+  });
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "User not found" },
+      { status: 404 }
+    );
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.user, { status: 200 });
+});
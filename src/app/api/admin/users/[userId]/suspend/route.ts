@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { suspendUser } from "@/lib/admin/users";
+
+const suspendSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason for the suspension is required")
+    .max(2000, "Reason must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/admin/users/[userId]/suspend
+ * Locks the user out of every role-protected endpoint until reinstated. Audited.
+ */
+export const POST = withErrorHandling("suspending user", async (
+  request: Request,
+  { params }: { params: { userId: string } }
+) => {
+  // Require ADMIN role
+  const { appUser } = await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const userId = parseInt(params.userId, 10);
+  if (isNaN(userId)) {
+    return NextResponse.json(
+      { error: "Invalid user ID" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+  const validated = suspendSchema.parse(body);
+
+  const db = getDb();
+  const result = await suspendUser(db, {
+    userId,
+    adminUserId: appUser.id,
+    reason: validated.reason,
+  });
+
+  if (result.status === "not_found") {
+    return NextResponse.json(
+      { error: "User not found" },
+      { status: 404 }
+    );
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.user, { status: 200 });
+});
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { artist_profiles, creator_profiles, users, VALID_ROLES, type UserRole } from "@/lib/db/schema";
+import { and, arrayContains, desc, eq, ilike, isNotNull, or, SQL } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+
+/**
+ * GET /api/admin/users
+ * The 100 most recent users with their profile names. ?q= matches the user ID, auth user ID or
+ * a profile name; ?role= and ?suspended=true narrow the list.
+ */
+export const GET = withErrorHandling("fetching users", async (request: Request) => {
+  // Require ADMIN role
+  await requireRole(request, "ADMIN");
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  const roleParam = searchParams.get("role");
+
+  // Validate role if provided
+  if (roleParam && !VALID_ROLES.includes(roleParam as UserRole)) {
+    return NextResponse.json(
+      {
+        error: "Invalid role",
+        validRoles: VALID_ROLES,
+      },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (q) {
+    const matches = [
+      ilike(users.auth_user_id, `%${q}%`),
+      ilike(creator_profiles.display_name, `%${q}%`),
+      ilike(artist_profiles.display_name, `%${q}%`),
+    ];
+    if (/^\d+$/.test(q)) {
+      matches.push(eq(users.id, parseInt(q, 10)));
+    }
+    const search = or(...matches);
+    if (search) {
+      whereConditions.push(search);
+    }
+  }
+  if (roleParam) {
+    whereConditions.push(arrayContains(users.roles, [roleParam]));
+  }
+  if (searchParams.get("suspended") === "true") {
+    whereConditions.push(isNotNull(users.suspended_at));
+  }
+
+  const rows = await db
+    .select({
+      user: users,
+      creator_name: creator_profiles.display_name,
+      artist_name: artist_profiles.display_name,
+    })
+    .from(users)
+    .leftJoin(creator_profiles, eq(creator_profiles.user_id, users.id))
+    .leftJoin(artist_profiles, eq(artist_profiles.user_id, users.id))
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(desc(users.created_at))
+    .limit(100);
+
+  return NextResponse.json(
+    rows.map(({ user, creator_name, artist_name }) => ({ ...user, creator_name, artist_name })),
+    { status: 200 }
+  );
+});
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { mission_applications, missions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { claimSlot, countTakenSlots } from "@/lib/missions/assignments";
+import {
+  approveApplication,
+  getApplicationContext,
+  rejectPendingApplications,
+} from "@/lib/missions/applications";
+import { computeSubmitBy, isPastAcceptBy } from "@/lib/missions/deadlines";
+
+const decisionSchema = z.object({
+  note: z.string().trim().optional(),
+});
+
+/**
+ * POST /api/applications/[applicationId]/approve
+ * Artist picks an applicant: gives them one of the mission's slots as an ACCEPTED
+ * assignment and notifies them. Other applications stay pending until decided, the mission closes
+ * or this approval fills its last slot, which rejects them.
+ */
+export const POST = withErrorHandling("approving application", async (
+  request: Request,
+  { params }: { params: { applicationId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const applicationId = params.applicationId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: approve without a note
+  }
+  const validated = decisionSchema.parse(body);
+
+  const db = getDb();
+
+  // Load application with its mission and campaign to verify ownership
+  const context = await getApplicationContext(db, applicationId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Application not found" },
+      { status: 404 }
+    );
+  }
+  const { application, campaign } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "application.decide", { campaign });
+
+  if (application.status !== "PENDING") {
+    return NextResponse.json(
+      { error: `Application is not PENDING. Current status: ${application.status}` },
+      { status: 409 }
+    );
+  }
+
+  // Lock the mission so approvals cannot take more slots than it has, then the
+  // application so a concurrent reject cannot decide it at the same time
+  const result = await db.transaction(async (tx) => {
+    const [mission] = await tx
+      .select()
+      .from(missions)
+      .where(eq(missions.id, application.mission_id))
+      .for("update");
+
+    const [locked] = await tx
+      .select()
+      .from(mission_applications)
+      .where(eq(mission_applications.id, applicationId))
+      .for("update");
+
+    if (locked.status !== "PENDING") {
+      return { error: `Application is not PENDING. Current status: ${locked.status}`, status: 409 } as const;
+    }
+
+    if (mission.state !== "APPLICATIONS_OPEN") {
+      return { error: `Mission is not taking applications. Current state: ${mission.state}`, status: 400 } as const;
+    }
+
+    if (isPastAcceptBy(mission)) {
+      return { error: "Mission application deadline has passed", status: 400 } as const;
+    }
+
+    // The submission clock starts when the creator is picked
+    const acceptedAt = new Date();
+    const claimed = await claimSlot(tx, mission, {
+      creatorId: application.creator_id,
+      submitBy: computeSubmitBy(mission, acceptedAt),
+      actor: { type: "ARTIST", userId: artistId },
+      now: acceptedAt,
+    });
+
+    if (claimed.status === "conflict") {
+      return { error: claimed.error, status: 409 } as const;
+    }
+
+    const approved = await approveApplication(tx, {
+      application: locked,
+      mission,
+      assignment: claimed.assignment,
+      reviewerId: artistId,
+      note: validated.note,
+    });
+
+    // That was the last slot: turn the remaining applicants down now rather than leave them waiting
+    const taken = (await countTakenSlots(tx, [mission.id])).get(mission.id) ?? 0;
+    if (taken >= mission.slots) {
+      await rejectPendingApplications(tx, mission, {
+        note: "All of the mission's slots have been filled.",
+      });
+    }
+
+    return { application: approved, assignment: claimed.assignment };
+  });
+
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+
+  return NextResponse.json(result, { status: 200 });
+});
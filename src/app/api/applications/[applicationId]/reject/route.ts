@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getApplicationContext, rejectApplication } from "@/lib/missions/applications";
+
+const decisionSchema = z.object({
+  note: z.string().trim().optional(),
+});
+
+/**
+ * POST /api/applications/[applicationId]/reject
+ * Artist turns an applicant down; the creator is notified, with the note if one is given
+ */
+export const POST = withErrorHandling("rejecting application", async (
+  request: Request,
+  { params }: { params: { applicationId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const applicationId = params.applicationId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: reject without a note
+  }
+  const validated = decisionSchema.parse(body);
+
+  const db = getDb();
+
+  // Load application with its mission and campaign to verify ownership
+  const context = await getApplicationContext(db, applicationId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Application not found" },
+      { status: 404 }
+    );
+  }
+  const { application, mission, campaign } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "application.decide", { campaign });
+
+  // Conditional on the application still being PENDING, so a concurrent approval wins cleanly
+  const rejected = await db.transaction(async (tx) =>
+    rejectApplication(tx, {
+      application,
+      mission,
+      reviewerId: artistId,
+      note: validated.note,
+    })
+  );
+
+  if (!rejected) {
+    return NextResponse.json(
+      { error: "Application has already been decided, please reload" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(rejected, { status: 200 });
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { mission_applications, missions } from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+
+/**
+ * GET /api/applications
+ * The authenticated creator's own mission applications with their mission, newest first
+ */
+export const GET = withErrorHandling("fetching applications", async (request: Request) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  // Require CREATOR role
+  const { authUserId } = await requireRole(request, "CREATOR");
+
+  const db = getDb();
+
+  const rows = await db
+    .select({ application: mission_applications, mission: missions })
+    .from(mission_applications)
+    .innerJoin(missions, eq(missions.id, mission_applications.mission_id))
+    .where(eq(mission_applications.creator_id, authUserId))
+    .orderBy(desc(mission_applications.created_at));
+
+  return NextResponse.json(
+    rows.map(({ application, mission }) => ({ ...application, mission })),
+    { status: 200 }
+  );
+});
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getArtistProfile, saveArtistProfile } from "@/lib/artists/profiles";
+import { webUrl } from "@/lib/validation";
+
+const updateProfileSchema = z.object({
+  displayName: z.string().trim().min(1, "Display name is required").max(100, "Display name must be at most 100 characters"),
+  genre: z.string().trim().max(100, "Genre must be at most 100 characters").nullable().optional(),
+  bio: z.string().trim().max(1000, "Bio must be at most 1000 characters").nullable().optional(),
+  avatarUrl: webUrl("Avatar URL must be a valid http(s) URL").nullable().optional(),
+  links: z.array(webUrl("Links must be valid http(s) URLs")).max(10, "At most 10 links").default([]),
+  trackTitle: z.string().trim().max(200, "Track title must be at most 200 characters").nullable().optional(),
+  trackUrl: webUrl("Track URL must be a valid http(s) URL").nullable().optional(),
+});
+
+/**
+ * GET /api/artists/[artistId]
+ * Public artist profile. artistId is the artist's app user ID, as stored in campaigns.artist_id.
+ */
+export const GET = withErrorHandling("fetching artist profile", async (
+  _request: Request,
+  { params }: { params: { artistId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const artistId = parseInt(params.artistId, 10);
+  if (isNaN(artistId)) {
+    return NextResponse.json(
+      { error: "Invalid artist ID" },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+  const profile = await getArtistProfile(db, artistId);
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "Artist profile not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(profile, { status: 200 });
+});
+
+/**
+ * PUT /api/artists/[artistId]
+ * Artist creates or replaces their own profile
+ */
+export const PUT = withErrorHandling("updating artist profile", async (
+  request: Request,
+  { params }: { params: { artistId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const artistId = parseInt(params.artistId, 10);
+  if (isNaN(artistId)) {
+    return NextResponse.json(
+      { error: "Invalid artist ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  authorize(user, "artist.profile.update", { id: artistId });
+
+  const body = await request.json();
+  const validated = updateProfileSchema.parse(body);
+
+  const db = getDb();
+  const profile = await saveArtistProfile(db, artistId, validated);
+
+  return NextResponse.json(profile, { status: 200 });
+});
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { openDispute } from "@/lib/missions/disputes";
+
+const disputeSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Explain why the rejection is wrong")
+    .max(2000, "Reason must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/assignments/[assignmentId]/dispute
+ * Creator contests the rejection of their submission. The assignment moves to DISPUTED
+ * until an admin resolves it via /api/admin/disputes/[disputeId]/resolve.
+ */
+export const POST = withErrorHandling("opening dispute", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  const body = await request.json();
+  const validated = disputeSchema.parse(body);
+
+  // Require CREATOR role
+  const user = await requireRole(request, "CREATOR");
+  const { authUserId, appUser } = user;
+
+  const db = getDb();
+
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+
+  // Check creator_id matches
+  authorize(user, "mission.dispute", context);
+
+  const result = await openDispute(db, {
+    assignmentId,
+    creatorId: authUserId,
+    creatorUserId: appUser.id,
+    reason: validated.reason,
+  });
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      assignment: result.assignment,
+      dispute: result.dispute,
+    },
+    { status: 201 }
+  );
+});
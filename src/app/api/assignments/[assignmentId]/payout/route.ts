@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { assertTransition, MissionState } from "@/lib/state/mission";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getCampaignBalances } from "@/lib/ledger";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { createPayout, PAYABLE_CAMPAIGN_STATUSES, submitPayout } from "@/lib/payments/payouts";
+import Stripe from "stripe";
+
+export const POST = withErrorHandling("processing payout", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  const db = getDb();
+
+  // Load assignment with its mission and campaign to verify ownership
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+  const { assignment, mission, campaign } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.payout", context);
+
+  // Check campaign is funded (a cancelled, partially refunded campaign still pays what it reserved)
+  if (!PAYABLE_CAMPAIGN_STATUSES.includes(campaign.payment_status)) {
+    return NextResponse.json(
+      { error: "Campaign is not funded. Please fund the campaign before processing payouts." },
+      { status: 402 }
+    );
+  }
+
+  // Check assignment is VERIFIED (or PAYOUT_FAILED, to retry a failed or reversed payout)
+  if (assignment.state !== "VERIFIED" && assignment.state !== "PAYOUT_FAILED") {
+    return NextResponse.json(
+      { error: `Assignment is not VERIFIED. Current state: ${assignment.state}` },
+      { status: 400 }
+    );
+  }
+
+  // Make sure the funded amount covers everything paid out so far plus this payout
+  const balances = await getCampaignBalances(db, campaign.id);
+  if (balances.paid_cents + mission.payout_cents > balances.funded_cents) {
+    return NextResponse.json(
+      {
+        error: "Payout exceeds the campaign's funded amount",
+        funded_cents: balances.funded_cents,
+        paid_cents: balances.paid_cents,
+        requested_cents: mission.payout_cents,
+      },
+      { status: 409 }
+    );
+  }
+
+  // Look up the creator's Stripe Connect account
+  // Find creator by auth_user_id
+  const [creator] = await db
+    .select()
+    .from(users)
+    .where(eq(users.auth_user_id, assignment.creator_id))
+    .limit(1);
+
+  if (!creator) {
+    return NextResponse.json(
+      { error: "Creator not found" },
+      { status: 404 }
+    );
+  }
+
+  if (!creator.stripe_account_id) {
+    return NextResponse.json(
+      { error: "Creator has not connected their Stripe account. They must complete Stripe onboarding to receive payouts." },
+      { status: 400 }
+    );
+  }
+
+  // Validate transition
+  assertTransition(assignment.state as MissionState, MissionState.PAID);
+
+  // Record the payout while holding a lock on the assignment, so a double click
+  // or concurrent request cannot start a second transfer
+  const created = await createPayout(db, {
+    assignmentId,
+    missionId: mission.id,
+    campaignId: campaign.id,
+    creatorUserId: creator.id,
+    destinationAccountId: creator.stripe_account_id,
+    amountCents: mission.payout_cents,
+    currency: campaign.currency,
+  });
+
+  if (created.status === "conflict") {
+    return NextResponse.json(
+      { error: created.error },
+      { status: 409 }
+    );
+  }
+
+  // Create the transfer (with an idempotency key) and mark the assignment PAID
+  let result;
+  try {
+    result = await submitPayout(db, created.payout, { type: "ARTIST", userId: artistId });
+  } catch (stripeError) {
+    console.error("Stripe transfer failed:", stripeError);
+
+    if (stripeError instanceof Stripe.errors.StripeError) {
+      return NextResponse.json(
+        { error: `Payment failed: ${stripeError.message}`, payout_id: created.payout.id },
+        { status: 400 }
+      );
+    }
+    throw stripeError;
+  }
+
+  return NextResponse.json({
+    assignment: result.assignment,
+    payout: {
+      id: result.payout.id,
+      amount_cents: mission.payout_cents,
+      currency: campaign.currency,
+      status: "completed",
+      transfer_id: result.transferId,
+    },
+  }, { status: 200 });
+});
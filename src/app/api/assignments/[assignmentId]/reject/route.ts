@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { rejectionReasonEnum } from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import { transitionMission } from "@/lib/state/transitions";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getAssignmentContext, releaseAssignmentReservation } from "@/lib/missions/assignments";
+import { recordReviewDecision } from "@/lib/missions/submissions";
+
+const rejectSchema = z.object({
+  reason: z.enum(rejectionReasonEnum.enumValues),
+  notes: z
+    .string()
+    .trim()
+    .min(1, "A note explaining the rejection is required")
+    .max(2000, "Notes must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/assignments/[assignmentId]/reject
+ * Artist rejects the submission with a reason code and a note; the creator can dispute it
+ * for a while afterwards (see /api/assignments/[assignmentId]/dispute)
+ */
+export const POST = withErrorHandling("rejecting mission", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  const body = await request.json();
+  const validated = rejectSchema.parse(body);
+
+  const db = getDb();
+
+  // Load assignment with its mission and campaign to verify ownership
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+  const { assignment, mission, campaign } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.review", context);
+
+  // Check assignment is SUBMITTED
+  if (assignment.state !== "SUBMITTED") {
+    return NextResponse.json(
+      { error: `Assignment is not SUBMITTED. Current state: ${assignment.state}` },
+      { status: 400 }
+    );
+  }
+
+  // Update assignment and return its reserved payout to the campaign budget,
+  // unless a concurrent review or job changed its state first
+  const result = await db.transaction(async (tx) => {
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.SUBMITTED,
+      to: MissionState.REJECTED,
+      actor: { type: "ARTIST", userId: artistId },
+      reason: validated.notes,
+      metadata: { rejection_reason: validated.reason },
+    });
+
+    if (transition.status === "conflict") {
+      return transition;
+    }
+
+    await releaseAssignmentReservation(tx, {
+      assignment,
+      mission,
+      currency: campaign.currency,
+      reason: "rejected",
+    });
+
+    await recordReviewDecision(tx, {
+      assignmentId,
+      decision: "REJECTED",
+      reviewerId: artistId,
+      rejectionReason: validated.reason,
+      notes: validated.notes,
+    });
+
+    return transition;
+  });
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.assignment, { status: 200 });
+});
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { mission_assignments } from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import { transitionMission } from "@/lib/state/transitions";
+import { sql } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { recordReviewDecision } from "@/lib/missions/submissions";
+
+const requestChangesSchema = z.object({
+  feedback: z.string().trim().min(1, "Feedback is required"),
+});
+
+/**
+ * POST /api/assignments/[assignmentId]/request-changes
+ * Sends a SUBMITTED assignment back to the creator with feedback instead of rejecting it.
+ * Limited to the mission's max_revisions rounds; after that it must be verified or rejected.
+ */
+export const POST = withErrorHandling("requesting mission changes", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  const body = await request.json();
+  const validated = requestChangesSchema.parse(body);
+
+  const db = getDb();
+
+  // Load assignment with its mission and campaign to verify ownership
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+  const { assignment, mission } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.review", context);
+
+  // Check assignment is SUBMITTED
+  if (assignment.state !== "SUBMITTED") {
+    return NextResponse.json(
+      { error: `Assignment is not SUBMITTED. Current state: ${assignment.state}` },
+      { status: 400 }
+    );
+  }
+
+  if (assignment.revision_count >= mission.max_revisions) {
+    return NextResponse.json(
+      {
+        error: `Revision limit reached (${mission.max_revisions}). Verify or reject the submission.`,
+        revision_count: assignment.revision_count,
+        max_revisions: mission.max_revisions,
+      },
+      { status: 409 }
+    );
+  }
+
+  // Conditional on the state still being SUBMITTED, so a concurrent verify/reject wins cleanly
+  const result = await db.transaction(async (tx) => {
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.SUBMITTED,
+      to: MissionState.CHANGES_REQUESTED,
+      actor: { type: "ARTIST", userId: artistId },
+      reason: validated.feedback,
+      metadata: { revision: assignment.revision_count + 1 },
+      changes: {
+        revision_count: sql`${mission_assignments.revision_count} + 1`,
+        revision_feedback: validated.feedback,
+      },
+    });
+
+    if (transition.status === "conflict") {
+      return transition;
+    }
+
+    await recordReviewDecision(tx, {
+      assignmentId,
+      decision: "CHANGES_REQUESTED",
+      reviewerId: artistId,
+      notes: validated.feedback,
+    });
+
+    return transition;
+  });
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: "Assignment state changed, please reload" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.assignment, { status: 200 });
+});
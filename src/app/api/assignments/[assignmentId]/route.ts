@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { getSubmissionTimeline } from "@/lib/missions/submissions";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { DISPUTE_WINDOW_MS, getDisputes } from "@/lib/missions/disputes";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/assignments/[assignmentId]
+ * A creator's assignment with its mission, full submission history and disputes.
+ * `dispute_deadline` is when an undisputed rejection stops being disputable.
+ */
+export const GET = withErrorHandling("fetching assignment", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  // Validate UUID format
+  if (!UUID_REGEX.test(assignmentId)) {
+    return NextResponse.json(
+      { error: "Invalid assignment ID format" },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+
+  // Full submission history; the latest version is also returned as `submission`
+  const submissions = await getSubmissionTimeline(db, assignmentId);
+  const disputes = (await getDisputes(db, [assignmentId])).get(assignmentId) ?? [];
+  const latest = submissions[submissions.length - 1] || null;
+
+  // When an undisputed rejection stops being disputable; may already be past
+  const disputeDeadline =
+    context.assignment.state === "REJECTED" &&
+    latest?.decision === "REJECTED" &&
+    latest.reviewed_at &&
+    !disputes.some((dispute) => dispute.submission_id === latest.id)
+      ? new Date(latest.reviewed_at.getTime() + DISPUTE_WINDOW_MS)
+      : null;
+
+  return NextResponse.json(
+    {
+      ...context.assignment,
+      mission: context.mission,
+      submission: latest,
+      submissions,
+      disputes,
+      dispute_deadline: disputeDeadline,
+    },
+    { status: 200 }
+  );
+});
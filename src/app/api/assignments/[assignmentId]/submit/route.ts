@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { ConflictError } from "@/lib/http/errors";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { MissionState } from "@/lib/state/mission";
+import { transitionMission } from "@/lib/state/transitions";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { checkDuplicateVideo, recordSubmission } from "@/lib/missions/submissions";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { parseVideoUrl, VIDEO_PLATFORM_LABELS } from "@/lib/missions/video-urls";
+
+const submitMissionSchema = z.object({
+  videoUrl: z.string().url("Video URL must be a valid URL"),
+});
+
+/**
+ * POST /api/assignments/[assignmentId]/submit
+ * Creator submits (or resubmits after a change request) their work for an assignment
+ */
+export const POST = withErrorHandling("submitting mission", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  // Validate required environment variables
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  const body = await request.json();
+  const validated = submitMissionSchema.parse(body);
+
+  // Require CREATOR role
+  const user = await requireRole(request, "CREATOR");
+  const { appUser } = user;
+
+  const db = getDb();
+
+  // Load assignment
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+  const { assignment, mission } = context;
+
+  // Check assignment is ACCEPTED, or waiting for a revision
+  if (assignment.state !== "ACCEPTED" && assignment.state !== "CHANGES_REQUESTED") {
+    return NextResponse.json(
+      { error: `Assignment is not ACCEPTED or CHANGES_REQUESTED. Current state: ${assignment.state}` },
+      { status: 400 }
+    );
+  }
+
+  // Check creator_id matches
+  authorize(user, "mission.submit", context);
+
+  // Not yet swept by the expiry job, but too late to submit. The deadline only
+  // covers the first submission; revisions are not timed.
+  if (assignment.state === "ACCEPTED" && assignment.submit_by && assignment.submit_by <= new Date()) {
+    return NextResponse.json(
+      { error: "Mission submission deadline has passed" },
+      { status: 400 }
+    );
+  }
+
+  // Work out the platform and video ID, and check the mission takes that platform
+  const parsed = parseVideoUrl(validated.videoUrl);
+  if (parsed.status === "invalid") {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  if (!mission.platforms.includes(parsed.video.platform)) {
+    return NextResponse.json(
+      {
+        error: `This mission only accepts ${mission.platforms.map((p) => VIDEO_PLATFORM_LABELS[p]).join(", ")} videos`,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Store the attempt as a new version and move the assignment to SUBMITTED together, unless the
+  // same video is already in play on another assignment or the state changed since it was checked
+  const result = await db.transaction(async (tx) => {
+    const duplicateCheck = await checkDuplicateVideo(tx, {
+      assignmentId,
+      video: parsed.video,
+    });
+
+    if (duplicateCheck.status === "blocked") {
+      return {
+        error:
+          duplicateCheck.duplicate.mission_id === assignment.mission_id
+            ? "This video has already been submitted for this mission"
+            : "This video has already been submitted for another mission",
+        status: 409,
+      } as const;
+    }
+
+    // Recorded first so the SUBMITTED event can point at the submission
+    const submission = await recordSubmission(tx, {
+      missionId: assignment.mission_id,
+      assignmentId,
+      video: parsed.video,
+      duplicateOfSubmissionId: duplicateCheck.status === "flagged" ? duplicateCheck.duplicate.id : null,
+    });
+
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: assignment.state as MissionState,
+      to: MissionState.SUBMITTED,
+      actor: { type: "CREATOR", userId: appUser.id },
+      metadata: { submission_id: submission.id, version: submission.version },
+    });
+
+    // Throwing rolls the submission back with the transaction
+    if (transition.status === "conflict") {
+      throw new ConflictError(transition.error);
+    }
+
+    return { submission, updatedAssignment: transition.assignment };
+  });
+
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      assignment: result.updatedAssignment,
+      submission: result.submission,
+    },
+    { status: 200 }
+  );
+});
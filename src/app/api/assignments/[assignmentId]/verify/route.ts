@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { MissionState } from "@/lib/state/mission";
+import { transitionMission } from "@/lib/state/transitions";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { recordReviewDecision } from "@/lib/missions/submissions";
+
+const reviewSchema = z.object({
+  notes: z.string().trim().optional(),
+});
+
+export const POST = withErrorHandling("verifying mission", async (
+  request: Request,
+  { params }: { params: { assignmentId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const assignmentId = params.assignmentId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: no reviewer notes
+  }
+  const validated = reviewSchema.parse(body);
+
+  const db = getDb();
+
+  // Load assignment with its mission and campaign to verify ownership
+  const context = await getAssignmentContext(db, assignmentId);
+  if (!context) {
+    return NextResponse.json(
+      { error: "Assignment not found" },
+      { status: 404 }
+    );
+  }
+  const { assignment } = context;
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.review", context);
+
+  // Check assignment is SUBMITTED
+  if (assignment.state !== "SUBMITTED") {
+    return NextResponse.json(
+      { error: `Assignment is not SUBMITTED. Current state: ${assignment.state}` },
+      { status: 400 }
+    );
+  }
+
+  // Update assignment and record the decision on the submission it was based on,
+  // unless a concurrent review or job changed its state first
+  const result = await db.transaction(async (tx) => {
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.SUBMITTED,
+      to: MissionState.VERIFIED,
+      actor: { type: "ARTIST", userId: artistId },
+      reason: validated.notes || null,
+    });
+
+    if (transition.status === "conflict") {
+      return transition;
+    }
+
+    await recordReviewDecision(tx, {
+      assignmentId,
+      decision: "VERIFIED",
+      reviewerId: artistId,
+      notes: validated.notes,
+    });
+
+    return transition;
+  });
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(result.assignment, { status: 200 });
+});
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { mission_assignments, missions, missionStateEnum } from "@/lib/db/schema";
+import { desc, eq, and, SQL } from "drizzle-orm";
+import { MissionState } from "@/lib/state/mission";
+import {
+  parsePaginationParams,
+  buildOrderBy,
+  buildCursorWhere,
+  encodeCursor,
+} from "@/lib/pagination";
+
+/**
+ * GET /api/assignments
+ * Lists creator assignments with their mission, filterable by state, creator_id,
+ * mission_id and campaign_id
+ */
+export const GET = withErrorHandling("fetching assignments", async (request: Request) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const stateParam = searchParams.get("state");
+  const creatorIdParam = searchParams.get("creator_id");
+  const missionIdParam = searchParams.get("mission_id");
+  const campaignIdParam = searchParams.get("campaign_id");
+
+  // Validate state if provided
+  if (stateParam) {
+    const validStates = Object.values(MissionState);
+    if (!validStates.includes(stateParam as MissionState)) {
+      return NextResponse.json(
+        {
+          error: "Invalid state",
+          validStates: validStates,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  const campaignId = campaignIdParam ? parseInt(campaignIdParam, 10) : null;
+  if (campaignIdParam && isNaN(campaignId!)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  const { params: paginationParams, error: paginationError } =
+    parsePaginationParams(searchParams);
+
+  if (paginationError) {
+    return NextResponse.json({ error: paginationError }, { status: 400 });
+  }
+
+  const db = getDb();
+
+  // Build where conditions
+  const whereConditions: SQL[] = [];
+  if (stateParam) {
+    whereConditions.push(
+      eq(mission_assignments.state, stateParam as typeof missionStateEnum.enumValues[number])
+    );
+  }
+  if (creatorIdParam) {
+    whereConditions.push(eq(mission_assignments.creator_id, creatorIdParam));
+  }
+  if (missionIdParam) {
+    whereConditions.push(eq(mission_assignments.mission_id, missionIdParam));
+  }
+  if (campaignId !== null) {
+    whereConditions.push(eq(mission_assignments.campaign_id, campaignId));
+  }
+
+  // Backward compatibility with the other list endpoints: without pagination params, return plain array
+  if (!paginationParams) {
+    const rows = await db
+      .select({ assignment: mission_assignments, mission: missions })
+      .from(mission_assignments)
+      .innerJoin(missions, eq(missions.id, mission_assignments.mission_id))
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(desc(mission_assignments.created_at));
+
+    return NextResponse.json(
+      rows.map(({ assignment, mission }) => ({ ...assignment, mission })),
+      { status: 200 }
+    );
+  }
+
+  // Pagination mode
+  const { limit, cursor, sort } = paginationParams;
+
+  if (cursor) {
+    const cursorWhere = buildCursorWhere(
+      sort,
+      cursor,
+      mission_assignments.created_at,
+      mission_assignments.id
+    );
+    if (cursorWhere) {
+      whereConditions.push(cursorWhere);
+    }
+  }
+
+  // Build query with cursor-based pagination
+  const results = await db
+    .select({ assignment: mission_assignments, mission: missions })
+    .from(mission_assignments)
+    .innerJoin(missions, eq(missions.id, mission_assignments.mission_id))
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(...buildOrderBy(sort, mission_assignments.created_at, mission_assignments.id))
+    .limit(limit + 1); // Fetch one extra to determine if there's a next page
+
+  // Check if there's a next page
+  const hasNextPage = results.length > limit;
+  const data = (hasNextPage ? results.slice(0, limit) : results).map(
+    ({ assignment, mission }) => ({ ...assignment, mission })
+  );
+
+  // Generate next cursor from last item
+  let nextCursor: string | null = null;
+  if (hasNextPage && data.length > 0) {
+    const lastItem = data[data.length - 1];
+    nextCursor = encodeCursor({
+      created_at: lastItem.created_at.toISOString(),
+      id: lastItem.id,
+    });
+  }
+
+  return NextResponse.json(
+    {
+      data,
+      nextCursor,
+    },
+    { status: 200 }
+  );
+});
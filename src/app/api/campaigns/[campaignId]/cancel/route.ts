@@ -0,0 +1,233 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { campaigns, mission_assignments, missions } from "@/lib/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getCampaignBalances } from "@/lib/ledger";
+import {
+  ACCEPTING_MISSION_STATES,
+  closeMission,
+  IN_FLIGHT_ASSIGNMENT_STATES,
+} from "@/lib/missions/assignments";
+import { MissionState } from "@/lib/state/mission";
+import { getStripe, refundCampaignPayment } from "@/lib/payments/stripe";
+import { planFundingRefunds } from "@/lib/payments/fundings";
+import Stripe from "stripe";
+
+const cancelCampaignSchema = z.object({
+  // REFUSE: do not cancel while creators are mid-mission
+  // HONOR: cancel anyway, but keep in-flight assignments (and their reserved payouts) running
+  inFlightPolicy: z.enum(["REFUSE", "HONOR"]).optional().default("REFUSE"),
+});
+
+/**
+ * POST /api/campaigns/[campaignId]/cancel
+ * Cancels the campaign: closes missions still taking creators, releases the reservations of their unfilled
+ * slots and refunds
+ * the unspent, unreserved part of the payment. payment_status is updated by the
+ * charge.refunded webhook once Stripe confirms the refund. Calling it again on a
+ * cancelled campaign refunds whatever has become available since.
+ */
+export const POST = withErrorHandling("cancelling campaign", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  // Body is optional
+  let body = {};
+  try {
+    body = await request.json();
+  } catch {
+    // No body: use the default policy
+  }
+  const validated = cancelCampaignSchema.parse(body);
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  // Close the campaign and its open missions atomically, with the campaign row locked
+  // so no mission can be created or accepted halfway through
+  const result = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, campaignId))
+      .for("update");
+
+    // Already cancelled: only the refund step runs again, e.g. to refund budget
+    // released by in-flight assignments that were rejected since
+    if (locked.cancelled_at) {
+      const balances = await getCampaignBalances(tx, campaignId);
+      return {
+        status: "cancelled" as const,
+        campaign: locked,
+        cancelledMissions: 0,
+        inFlight: [],
+        fundedCents: balances.funded_cents,
+        refundableCents: Math.max(balances.available_cents, 0),
+      };
+    }
+
+    const inFlight = await tx
+      .select({
+        id: mission_assignments.id,
+        mission_id: mission_assignments.mission_id,
+        state: mission_assignments.state,
+      })
+      .from(mission_assignments)
+      .where(
+        and(
+          eq(mission_assignments.campaign_id, campaignId),
+          inArray(mission_assignments.state, IN_FLIGHT_ASSIGNMENT_STATES)
+        )
+      );
+
+    if (inFlight.length > 0 && validated.inFlightPolicy === "REFUSE") {
+      return { status: "in_flight" as const, inFlight };
+    }
+
+    const openMissions = await tx
+      .select()
+      .from(missions)
+      .where(
+        and(eq(missions.campaign_id, campaignId), inArray(missions.state, ACCEPTING_MISSION_STATES))
+      )
+      .for("update");
+
+    for (const mission of openMissions) {
+      await closeMission(tx, mission, {
+        state: MissionState.CANCELLED,
+        currency: campaign.currency,
+        reason: "campaign cancelled",
+        actor: { type: "ARTIST", userId: artistId },
+      });
+    }
+
+    const [updatedCampaign] = await tx
+      .update(campaigns)
+      .set({ cancelled_at: new Date() })
+      .where(eq(campaigns.id, campaignId))
+      .returning();
+
+    // Whatever is neither reserved for remaining missions nor paid out goes back to the artist
+    const balances = await getCampaignBalances(tx, campaignId);
+
+    return {
+      status: "cancelled" as const,
+      campaign: updatedCampaign,
+      cancelledMissions: openMissions.length,
+      inFlight,
+      fundedCents: balances.funded_cents,
+      refundableCents: Math.max(balances.available_cents, 0),
+    };
+  });
+
+  if (result.status === "in_flight") {
+    return NextResponse.json(
+      {
+        error: "Campaign has missions in progress. Retry with inFlightPolicy HONOR to cancel anyway.",
+        in_flight_assignments: result.inFlight,
+      },
+      { status: 409 }
+    );
+  }
+
+  const refunds: { id: string; funding_id: string; amount_cents: number; status: string }[] = [];
+
+  if (campaign.payment_intent_id && campaign.payment_status === "PENDING") {
+    // Never paid: just make sure it can no longer be paid
+    try {
+      await getStripe().paymentIntents.cancel(campaign.payment_intent_id);
+    } catch (stripeError) {
+      console.error(`Failed to cancel PaymentIntent for campaign ${campaignId}:`, stripeError);
+    }
+  } else if (result.refundableCents > 0) {
+    // Top-ups are separate payments, so the refund is split across them
+    const plan = await planFundingRefunds(db, campaignId, result.refundableCents);
+
+    for (const { funding, amountCents } of plan) {
+      try {
+        const refund = await refundCampaignPayment({
+          paymentIntentId: funding.payment_intent_id,
+          amount: amountCents,
+          // Unchanged balances => same key, so a repeated call before the refund webhook
+          // has been processed cannot refund twice
+          idempotencyKey: `campaign-${campaignId}-refund-${funding.id}-${result.fundedCents}-${amountCents}`,
+          metadata: { campaign_id: campaignId.toString(), funding_id: funding.id },
+        });
+        refunds.push({
+          id: refund.id,
+          funding_id: funding.id,
+          amount_cents: amountCents,
+          status: refund.status,
+        });
+      } catch (stripeError) {
+        console.error("Stripe refund failed:", stripeError);
+
+        if (stripeError instanceof Stripe.errors.StripeError) {
+          return NextResponse.json(
+            {
+              error: `Campaign cancelled but refund failed: ${stripeError.message}`,
+              campaign: result.campaign,
+              refunds,
+            },
+            { status: 502 }
+          );
+        }
+        throw stripeError;
+      }
+    }
+  }
+
+  return NextResponse.json({
+    campaign: result.campaign,
+    cancelled_missions: result.cancelledMissions,
+    in_flight_assignments: result.inFlight,
+    refunds,
+  }, { status: 200 });
+});
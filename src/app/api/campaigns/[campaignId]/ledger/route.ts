@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getCampaignBalances, getCampaignLedger } from "@/lib/ledger";
+
+/**
+ * GET /api/campaigns/[campaignId]/ledger
+ * Returns the campaign's balances and every ledger transaction with its entries
+ */
+export const GET = withErrorHandling("fetching campaign ledger", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  const balances = await getCampaignBalances(db, campaignId);
+  const transactions = await getCampaignLedger(db, campaignId);
+
+  return NextResponse.json({
+    campaign_id: campaignId,
+    currency: campaign.currency,
+    balances,
+    transactions,
+  });
+});
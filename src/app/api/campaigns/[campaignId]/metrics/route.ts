@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { campaigns, mission_submissions, missions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getSubmissionMetrics } from "@/lib/metrics";
+
+/**
+ * GET /api/campaigns/[campaignId]/metrics
+ * Performance snapshots (views, likes, shares, comments) of the campaign's submitted videos,
+ * oldest first and keyed by submission ID
+ */
+export const GET = withErrorHandling("fetching campaign metrics", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  const submissions = await db
+    .select({ id: mission_submissions.id })
+    .from(mission_submissions)
+    .innerJoin(missions, eq(missions.id, mission_submissions.mission_id))
+    .where(eq(missions.campaign_id, campaignId));
+
+  const metrics = await getSubmissionMetrics(
+    db,
+    submissions.map((submission) => submission.id)
+  );
+
+  return NextResponse.json({
+    campaign_id: campaignId,
+    metrics: Object.fromEntries(metrics),
+  });
+});
@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
 import { z } from "zod";
 import { getDb } from "@/lib/db";
-import { campaigns, missions } from "@/lib/db/schema";
+import { campaigns, mission_bonus_tiers, missions } from "@/lib/db/schema";
 import { eq, desc, and } from "drizzle-orm";
 import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getCampaignBudget, reserveMissionPayout } from "@/lib/ledger";
+import { withSlotsTaken } from "@/lib/missions/assignments";
+import { VIDEO_PLATFORMS } from "@/lib/missions/video-urls";
+import { withBonusTiers } from "@/lib/payments/bonuses";
 import {
   parsePaginationParams,
   buildOrderBy,
@@ -15,205 +21,275 @@ const createMissionSchema = z.object({
   title: z.string().min(1, "Title is required"),
   brief: z.string().optional(),
   payoutCents: z.number().int().min(100, "Payout must be at least 100 cents"),
+  acceptBy: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Accept-by deadline must be in the future")
+    .optional(),
+  submitWindowHours: z.number().int().min(1, "Submission window must be at least 1 hour").optional(),
+  maxRevisions: z.number().int().min(0).max(10).optional(),
+  slots: z.number().int().min(1, "A mission needs at least one slot").max(1000).optional(),
+  // Creators apply with a pitch and the artist picks who gets a slot, instead of first come first served
+  requireApplication: z.boolean().optional(),
+  // Platforms creators may post on; defaults to TikTok only
+  platforms: z
+    .array(z.enum(VIDEO_PLATFORMS))
+    .min(1, "A mission needs at least one platform")
+    .transform((platforms) => Array.from(new Set(platforms)))
+    .optional(),
+  // Extra payouts once a verified video reaches a view count. Not reserved up front: they are
+  // paid from whatever budget is left when earned.
+  bonusTiers: z
+    .array(
+      z.object({
+        views: z.number().int().min(1, "View milestone must be at least 1"),
+        bonusCents: z.number().int().min(100, "Bonus must be at least 100 cents"),
+      })
+    )
+    .max(10, "At most 10 bonus tiers")
+    .refine(
+      (tiers) => new Set(tiers.map((tier) => tier.views)).size === tiers.length,
+      "Each view milestone can only be used once"
+    )
+    .optional(),
 });
 
-export async function POST(
+export const POST = withErrorHandling("creating mission", async (
   request: Request,
   { params }: { params: { campaignId: string } }
-) {
-  try {
-    // Require ARTIST role
-    const { appUser } = await requireRole(request, "ARTIST");
-    const artistId = appUser.id;
-
-    // Validate required environment variables
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
+) => {
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
 
-    const campaignId = parseInt(params.campaignId, 10);
-    if (isNaN(campaignId)) {
-      return NextResponse.json(
-        { error: "Invalid campaign ID" },
-        { status: 400 }
-      );
-    }
+  // Validate required environment variables
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    const body = await request.json();
-    const validated = createMissionSchema.parse(body);
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+  const validated = createMissionSchema.parse(body);
+
+  const db = getDb();
+
+  // Verify campaign exists and user owns it
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
 
-    const db = getDb();
+  // Verify ownership
+  authorize(user, "campaign.manage", campaign);
 
-    // Verify campaign exists and user owns it
-    const [campaign] = await db
+  if (campaign.cancelled_at) {
+    return NextResponse.json(
+      { error: "Campaign is cancelled" },
+      { status: 409 }
+    );
+  }
+
+  // Every slot can be paid out, so the full payout for all of them is reserved
+  const slots = validated.slots ?? 1;
+  const totalPayoutCents = validated.payoutCents * slots;
+
+  // Create mission and reserve its payout in the campaign ledger. The campaign row is
+  // locked so concurrent creations cannot both spend the same budget, and re-checked
+  // since a cancel or refund may have committed after it was first read.
+  const result = await db.transaction(async (tx) => {
+    const [locked] = await tx
       .select()
       .from(campaigns)
       .where(eq(campaigns.id, campaignId))
-      .limit(1);
+      .for("update");
 
-    if (!campaign) {
-      return NextResponse.json(
-        { error: "Campaign not found" },
-        { status: 404 }
-      );
+    if (locked.cancelled_at) {
+      return { error: "Campaign is cancelled", status: 409 } as const;
     }
 
-    // Verify ownership
-    if (campaign.artist_id !== artistId) {
-      return NextResponse.json(
-        { error: "Forbidden" },
-        { status: 403 }
-      );
+    if (locked.payment_status === "PARTIALLY_REFUNDED" || locked.payment_status === "REFUNDED") {
+      return { error: `Campaign has been refunded. Current status: ${locked.payment_status}`, status: 409 } as const;
     }
 
-    // Create mission
-    const [mission] = await db
+    const budget = await getCampaignBudget(tx, locked);
+    if (totalPayoutCents > budget.remaining_budget_cents) {
+      return { mission: null, budget };
+    }
+
+    const [created] = await tx
       .insert(missions)
       .values({
         campaign_id: campaignId,
-        creator_id: null,
         title: validated.title,
         brief: validated.brief || null,
-        state: "OPEN",
+        state: validated.requireApplication ? "APPLICATIONS_OPEN" : "OPEN",
         payout_cents: validated.payoutCents,
+        slots,
+        accept_by: validated.acceptBy || null,
+        submit_window_hours: validated.submitWindowHours ?? null,
+        max_revisions: validated.maxRevisions,
+        platforms: validated.platforms,
       })
       .returning();
 
-    return NextResponse.json(mission, { status: 201 });
-  } catch (error) {
-    // Handle auth errors first
-    if (error instanceof Error) {
-      if (error.message === "UNAUTHORIZED") {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-      if (error.message === "FORBIDDEN") {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-      }
-    }
+    await reserveMissionPayout(tx, {
+      campaignId,
+      missionId: created.id,
+      amountCents: totalPayoutCents,
+      currency: locked.currency,
+    });
 
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation error", details: error.issues },
-        { status: 400 }
+    if (validated.bonusTiers && validated.bonusTiers.length > 0) {
+      await tx.insert(mission_bonus_tiers).values(
+        validated.bonusTiers.map((tier) => ({
+          mission_id: created.id,
+          views_threshold: tier.views,
+          bonus_cents: tier.bonusCents,
+        }))
       );
     }
 
-    console.error("Error creating mission:", error);
+    return { mission: created, budget };
+  });
+
+  if ("error" in result) {
     return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+      { error: result.error },
+      { status: result.status }
     );
   }
-}
 
-export async function GET(
-  request: Request,
-  { params }: { params: { campaignId: string } }
-) {
-  try {
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
+  if (!result.mission) {
+    return NextResponse.json(
+      {
+        error: "Insufficient campaign budget",
+        budget_cents: result.budget.budget_cents,
+        committed_cents: result.budget.committed_cents,
+        remaining_budget_cents: result.budget.remaining_budget_cents,
+        requested_cents: totalPayoutCents,
+      },
+      { status: 409 }
+    );
+  }
 
-    const campaignId = parseInt(params.campaignId, 10);
-    if (isNaN(campaignId)) {
-      return NextResponse.json(
-        { error: "Invalid campaign ID" },
-        { status: 400 }
-      );
-    }
+  const [mission] = await withBonusTiers(db, [result.mission]);
 
-    const { searchParams } = new URL(request.url);
-    const { params: paginationParams, error: paginationError } =
-      parsePaginationParams(searchParams);
+  return NextResponse.json(mission, { status: 201 });
+});
 
-    if (paginationError) {
-      return NextResponse.json({ error: paginationError }, { status: 400 });
-    }
+export const GET = withErrorHandling("fetching campaign missions", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    const db = getDb();
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
 
-    // Verify campaign exists
-    const [campaign] = await db
-      .select()
-      .from(campaigns)
-      .where(eq(campaigns.id, campaignId))
-      .limit(1);
+  const { searchParams } = new URL(request.url);
+  const { params: paginationParams, error: paginationError } =
+    parsePaginationParams(searchParams);
 
-    if (!campaign) {
-      return NextResponse.json(
-        { error: "Campaign not found" },
-        { status: 404 }
-      );
-    }
+  if (paginationError) {
+    return NextResponse.json({ error: paginationError }, { status: 400 });
+  }
 
-    // Backward compatibility: if no pagination params, return plain array
-    if (!paginationParams) {
-      const campaignMissions = await db
-        .select()
-        .from(missions)
-        .where(eq(missions.campaign_id, campaignId))
-        .orderBy(desc(missions.created_at));
+  const db = getDb();
 
-      return NextResponse.json(campaignMissions, { status: 200 });
-    }
+  // Verify campaign exists
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
 
-    // Pagination mode
-    const { limit, cursor, sort } = paginationParams;
-
-    // Build where condition
-    let whereCondition = eq(missions.campaign_id, campaignId);
-    if (cursor) {
-      const cursorWhere = buildCursorWhere(
-        sort,
-        cursor,
-        missions.created_at,
-        missions.id
-      );
-      whereCondition = and(eq(missions.campaign_id, campaignId), cursorWhere)!;
-    }
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
 
-    // Build query with cursor-based pagination
-    const results = await db
+  // Backward compatibility: if no pagination params, return plain array
+  if (!paginationParams) {
+    const campaignMissions = await db
       .select()
       .from(missions)
-      .where(whereCondition)
-      .orderBy(...buildOrderBy(sort, missions.created_at, missions.id))
-      .limit(limit + 1); // Fetch one extra to determine if there's a next page
-
-    // Check if there's a next page
-    const hasNextPage = results.length > limit;
-    const data = hasNextPage ? results.slice(0, limit) : results;
-
-    // Generate next cursor from last item
-    let nextCursor: string | null = null;
-    if (hasNextPage && data.length > 0) {
-      const lastItem = data[data.length - 1];
-      nextCursor = encodeCursor({
-        created_at: lastItem.created_at.toISOString(),
-        id: lastItem.id,
-      });
-    }
+      .where(eq(missions.campaign_id, campaignId))
+      .orderBy(desc(missions.created_at));
 
-    return NextResponse.json(
-      {
-        data,
-        nextCursor,
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("Error fetching campaign missions:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+    return NextResponse.json(await withBonusTiers(db, await withSlotsTaken(db, campaignMissions)), { status: 200 });
+  }
+
+  // Pagination mode
+  const { limit, cursor, sort } = paginationParams;
+
+  // Build where condition
+  let whereCondition = eq(missions.campaign_id, campaignId);
+  if (cursor) {
+    const cursorWhere = buildCursorWhere(
+      sort,
+      cursor,
+      missions.created_at,
+      missions.id
     );
+    whereCondition = and(eq(missions.campaign_id, campaignId), cursorWhere)!;
+  }
+
+  // Build query with cursor-based pagination
+  const results = await db
+    .select()
+    .from(missions)
+    .where(whereCondition)
+    .orderBy(...buildOrderBy(sort, missions.created_at, missions.id))
+    .limit(limit + 1); // Fetch one extra to determine if there's a next page
+
+  // Check if there's a next page
+  const hasNextPage = results.length > limit;
+  const data = hasNextPage ? results.slice(0, limit) : results;
+
+  // Generate next cursor from last item
+  let nextCursor: string | null = null;
+  if (hasNextPage && data.length > 0) {
+    const lastItem = data[data.length - 1];
+    nextCursor = encodeCursor({
+      created_at: lastItem.created_at.toISOString(),
+      id: lastItem.id,
+    });
   }
-}
+
+  return NextResponse.json(
+    {
+      data: await withBonusTiers(db, await withSlotsTaken(db, data)),
+      nextCursor,
+    },
+    { status: 200 }
+  );
+});
 
@@ -1,49 +1,52 @@
 import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
 import { getDb } from "@/lib/db";
 import { campaigns } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { getCampaignBudget } from "@/lib/ledger";
 
-export async function GET(
+export const GET = withErrorHandling("fetching campaign", async (
   request: Request,
   { params }: { params: { campaignId: string } }
-) {
-  try {
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
-
-    const campaignId = parseInt(params.campaignId, 10);
-    if (isNaN(campaignId)) {
-      return NextResponse.json(
-        { error: "Invalid campaign ID" },
-        { status: 400 }
-      );
-    }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    const db = getDb();
-    const [campaign] = await db
-      .select()
-      .from(campaigns)
-      .where(eq(campaigns.id, campaignId))
-      .limit(1);
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
 
-    if (!campaign) {
-      return NextResponse.json(
-        { error: "Campaign not found" },
-        { status: 404 }
-      );
-    }
+  const db = getDb();
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
 
-    return NextResponse.json(campaign, { status: 200 });
-  } catch (error) {
-    console.error("Error fetching campaign:", error);
+  if (!campaign) {
     return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+      { error: "Campaign not found" },
+      { status: 404 }
     );
   }
-}
+
+  const budget = await getCampaignBudget(db, campaign);
+
+  return NextResponse.json(
+    {
+      ...campaign,
+      committed_cents: budget.committed_cents,
+      remaining_budget_cents: budget.remaining_budget_cents,
+    },
+    { status: 200 }
+  );
+});
 
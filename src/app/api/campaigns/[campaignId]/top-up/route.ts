@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { createCampaignPaymentIntent } from "@/lib/payments/stripe";
+import { createCampaignFunding } from "@/lib/payments/fundings";
+
+const topUpSchema = z.object({
+  amountCents: z.number().int().positive(),
+});
+
+/**
+ * POST /api/campaigns/[campaignId]/top-up
+ * Creates a PaymentIntent for additional budget. The budget is only increased
+ * once the payment succeeds (see creditCampaignFunding).
+ */
+export const POST = withErrorHandling("creating campaign top-up", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  const body = await request.json();
+  const validated = topUpSchema.parse(body);
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  if (campaign.cancelled_at) {
+    return NextResponse.json(
+      { error: "Campaign is cancelled" },
+      { status: 400 }
+    );
+  }
+
+  // The initial payment has to go through first; top-ups add to a funded campaign
+  if (campaign.payment_status !== "FUNDED") {
+    return NextResponse.json(
+      { error: `Campaign must be funded before topping up. Current status: ${campaign.payment_status}` },
+      { status: 400 }
+    );
+  }
+
+  const paymentIntent = await createCampaignPaymentIntent({
+    amount: validated.amountCents,
+    currency: campaign.currency,
+    metadata: {
+      campaign_id: campaignId.toString(),
+      artist_id: artistId.toString(),
+      funding_type: "TOP_UP",
+    },
+  });
+
+  const funding = await createCampaignFunding(db, {
+    campaignId,
+    paymentIntentId: paymentIntent.id,
+    type: "TOP_UP",
+    amountCents: validated.amountCents,
+    currency: campaign.currency,
+  });
+
+  return NextResponse.json(
+    {
+      funding,
+      clientSecret: paymentIntent.client_secret,
+      amount: validated.amountCents,
+      currency: campaign.currency,
+    },
+    { status: 201 }
+  );
+});
@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getVerificationRules, saveVerificationRules } from "@/lib/missions/auto-verification";
+
+const verificationRulesSchema = z
+  .object({
+    enabled: z.boolean(),
+    requirePublic: z.boolean().default(false),
+    soundId: z.string().trim().min(1).max(100, "Sound ID must be at most 100 characters").nullable().default(null),
+    requiredHashtags: z
+      .array(
+        z
+          .string()
+          .trim()
+          .transform((tag) => tag.replace(/^#/, "").toLowerCase())
+          .pipe(z.string().regex(/^\w{1,100}$/, "Hashtags may only contain letters, numbers and underscores"))
+      )
+      .max(10, "At most 10 hashtags")
+      .transform((tags) => Array.from(new Set(tags)))
+      .default([]),
+    requirePostedAfterAcceptance: z.boolean().default(false),
+    minViews: z.number().int().min(1, "Minimum views must be at least 1").nullable().default(null),
+    minViewsWindowHours: z.number().int().min(1, "View window must be at least 1 hour").nullable().default(null),
+    // Approve submissions the artist has not reviewed after this many hours, rules or not
+    reviewSlaHours: z
+      .number()
+      .int()
+      .min(2, "Review window must be at least 2 hours")
+      .max(24 * 30, "Review window must be at most 30 days")
+      .nullable()
+      .default(null),
+    autoPayAfterReviewSla: z.boolean().default(false),
+  })
+  .refine(
+    (rules) =>
+      !rules.enabled ||
+      rules.requirePublic ||
+      rules.soundId !== null ||
+      rules.requiredHashtags.length > 0 ||
+      rules.requirePostedAfterAcceptance ||
+      rules.minViews !== null,
+    "Turn on at least one rule to enable auto-verification"
+  )
+  .refine(
+    (rules) => rules.minViewsWindowHours === null || rules.minViews !== null,
+    "A view window needs a minimum view count"
+  )
+  .refine(
+    (rules) => !rules.autoPayAfterReviewSla || rules.reviewSlaHours !== null,
+    "Auto-pay needs a review window"
+  );
+
+/**
+ * GET /api/campaigns/[campaignId]/verification-rules
+ * The campaign's auto-verification rules; rules is null if they were never set
+ */
+export const GET = withErrorHandling("fetching verification rules", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  const rules = await getVerificationRules(db, campaignId);
+
+  return NextResponse.json({ campaign_id: campaignId, rules }, { status: 200 });
+});
+
+/**
+ * PUT /api/campaigns/[campaignId]/verification-rules
+ * Artist sets the rules submissions must pass to be verified automatically, and the review
+ * window after which unreviewed submissions are approved anyway. Takes effect on the next
+ * run of /api/jobs/auto-verify and /api/jobs/review-sla.
+ */
+export const PUT = withErrorHandling("saving verification rules", async (
+  request: Request,
+  { params }: { params: { campaignId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const campaignId = parseInt(params.campaignId, 10);
+  if (isNaN(campaignId)) {
+    return NextResponse.json(
+      { error: "Invalid campaign ID" },
+      { status: 400 }
+    );
+  }
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  const db = getDb();
+
+  // Load campaign
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "campaign.manage", campaign);
+
+  const body = await request.json();
+  const validated = verificationRulesSchema.parse(body);
+
+  const rules = await saveVerificationRules(db, campaignId, validated);
+
+  return NextResponse.json({ campaign_id: campaignId, rules }, { status: 200 });
+});
@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
+import { expectedErrorResponse, withErrorHandling } from "@/lib/http/handler";
 import { z } from "zod";
 import { getDb } from "@/lib/db";
 import { campaigns } from "@/lib/db/schema";
 import { createCampaignPaymentIntent } from "@/lib/payments/stripe";
+import { createCampaignFunding } from "@/lib/payments/fundings";
 import { eq, desc } from "drizzle-orm";
 import {
   parsePaginationParams,
@@ -85,12 +87,24 @@ export async function POST(request: Request) {
       throw error;
     }
 
-    // Update campaign with payment_intent_id
-    const [updatedCampaign] = await db
-      .update(campaigns)
-      .set({ payment_intent_id: paymentIntent.id })
-      .where(eq(campaigns.id, campaign.id))
-      .returning();
+    // Update campaign with payment_intent_id and track it as the initial funding
+    const updatedCampaign = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(campaigns)
+        .set({ payment_intent_id: paymentIntent.id })
+        .where(eq(campaigns.id, campaign.id))
+        .returning();
+
+      await createCampaignFunding(tx, {
+        campaignId: campaign.id,
+        paymentIntentId: paymentIntent.id,
+        type: "INITIAL",
+        amountCents: validated.budgetCents,
+        currency: campaign.currency,
+      });
+
+      return updated;
+    });
 
     return NextResponse.json(
       {
@@ -103,21 +117,10 @@ export async function POST(request: Request) {
       { status: 201 }
     );
   } catch (error) {
-    // Handle auth errors first
-    if (error instanceof Error) {
-      if (error.message === "UNAUTHORIZED") {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-      if (error.message === "FORBIDDEN") {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-      }
-    }
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation error", details: error.issues },
-        { status: 400 }
-      );
+    // Auth and validation errors first
+    const response = expectedErrorResponse(error);
+    if (response) {
+      return response;
     }
 
     // Extract safe error summary (no secrets)
@@ -148,80 +151,72 @@ export async function POST(request: Request) {
   }
 }
 
-export async function GET(request: Request) {
-  try {
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
-
-    const { searchParams } = new URL(request.url);
-    const { params: paginationParams, error: paginationError } =
-      parsePaginationParams(searchParams);
-
-    if (paginationError) {
-      return NextResponse.json({ error: paginationError }, { status: 400 });
-    }
-
-    const db = getDb();
+export const GET = withErrorHandling("fetching campaigns", async (request: Request) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    // Backward compatibility: if no pagination params, return plain array
-    if (!paginationParams) {
-      const allCampaigns = await db
-        .select()
-        .from(campaigns)
-        .orderBy(desc(campaigns.created_at));
+  const { searchParams } = new URL(request.url);
+  const { params: paginationParams, error: paginationError } =
+    parsePaginationParams(searchParams);
 
-      return NextResponse.json(allCampaigns, { status: 200 });
-    }
+  if (paginationError) {
+    return NextResponse.json({ error: paginationError }, { status: 400 });
+  }
 
-    // Pagination mode
-    const { limit, cursor, sort } = paginationParams;
+  const db = getDb();
 
-    // Build query with cursor-based pagination
-    let query = db
+  // Backward compatibility: if no pagination params, return plain array
+  if (!paginationParams) {
+    const allCampaigns = await db
       .select()
       .from(campaigns)
-      .orderBy(...buildOrderBy(sort, campaigns.created_at, campaigns.id))
-      .limit(limit + 1); // Fetch one extra to determine if there's a next page
+      .orderBy(desc(campaigns.created_at));
 
-    if (cursor) {
-      query = query.where(
-        buildCursorWhere(sort, cursor, campaigns.created_at, campaigns.id)
-      ) as typeof query;
-    }
+    return NextResponse.json(allCampaigns, { status: 200 });
+  }
 
-    const results = await query;
+  // Pagination mode
+  const { limit, cursor, sort } = paginationParams;
 
-    // Check if there's a next page
-    const hasNextPage = results.length > limit;
-    const data = hasNextPage ? results.slice(0, limit) : results;
+  // Build query with cursor-based pagination
+  let query = db
+    .select()
+    .from(campaigns)
+    .orderBy(...buildOrderBy(sort, campaigns.created_at, campaigns.id))
+    .limit(limit + 1); // Fetch one extra to determine if there's a next page
 
-    // Generate next cursor from last item
-    let nextCursor: string | null = null;
-    if (hasNextPage && data.length > 0) {
-      const lastItem = data[data.length - 1];
-      nextCursor = encodeCursor({
-        created_at: lastItem.created_at.toISOString(),
-        id: lastItem.id,
-      });
-    }
+  if (cursor) {
+    query = query.where(
+      buildCursorWhere(sort, cursor, campaigns.created_at, campaigns.id)
+    ) as typeof query;
+  }
 
-    return NextResponse.json(
-      {
-        data,
-        nextCursor,
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("Error fetching campaigns:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+  const results = await query;
+
+  // Check if there's a next page
+  const hasNextPage = results.length > limit;
+  const data = hasNextPage ? results.slice(0, limit) : results;
+
+  // Generate next cursor from last item
+  let nextCursor: string | null = null;
+  if (hasNextPage && data.length > 0) {
+    const lastItem = data[data.length - 1];
+    nextCursor = encodeCursor({
+      created_at: lastItem.created_at.toISOString(),
+      id: lastItem.id,
+    });
   }
-}
+
+  return NextResponse.json(
+    {
+      data,
+      nextCursor,
+    },
+    { status: 200 }
+  );
+});
 
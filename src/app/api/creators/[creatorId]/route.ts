@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { getCreatorProfile, saveCreatorProfile, SOCIAL_PLATFORMS } from "@/lib/creators/profiles";
+import { webUrl } from "@/lib/validation";
+
+const socialAccountSchema = z.object({
+  platform: z.enum(["TIKTOK", "INSTAGRAM", "YOUTUBE"]),
+  handle: z
+    .string()
+    .trim()
+    .regex(/^@?[A-Za-z0-9._-]{1,100}$/, "Handle may only contain letters, numbers, '.', '_' and '-'"),
+  followerCount: z.number().int().min(0).nullable().optional(),
+});
+
+const updateProfileSchema = z.object({
+  displayName: z.string().trim().min(1, "Display name is required").max(100, "Display name must be at most 100 characters"),
+  bio: z.string().trim().max(1000, "Bio must be at most 1000 characters").nullable().optional(),
+  avatarUrl: webUrl("Avatar URL must be a valid http(s) URL").nullable().optional(),
+  socials: z
+    .array(socialAccountSchema)
+    .max(SOCIAL_PLATFORMS.length)
+    .refine(
+      (socials) => new Set(socials.map((social) => social.platform)).size === socials.length,
+      "Each platform can only be linked once"
+    )
+    .default([]),
+});
+
+/**
+ * GET /api/creators/[creatorId]
+ * Public creator profile with linked social accounts. creatorId is the creator's auth user ID,
+ * the same value stored as creator_id on assignments.
+ */
+export const GET = withErrorHandling("fetching creator profile", async (
+  _request: Request,
+  { params }: { params: { creatorId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const profile = await getCreatorProfile(db, params.creatorId);
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "Creator profile not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(profile, { status: 200 });
+});
+
+/**
+ * PUT /api/creators/[creatorId]
+ * Creator creates or replaces their own profile. Socials left out of the body are unlinked.
+ */
+export const PUT = withErrorHandling("updating creator profile", async (
+  request: Request,
+  { params }: { params: { creatorId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  // Require CREATOR role
+  const user = await requireRole(request, "CREATOR");
+  const { authUserId, appUser } = user;
+
+  authorize(user, "creator.profile.update", { creator_id: params.creatorId });
+
+  const body = await request.json();
+  const validated = updateProfileSchema.parse(body);
+
+  const db = getDb();
+
+  await saveCreatorProfile(db, appUser.id, validated);
+  const profile = await getCreatorProfile(db, authUserId);
+
+  return NextResponse.json(profile, { status: 200 });
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { autoVerifySubmissions } from "@/lib/missions/auto-verification";
+import {
+  getMetricsProvider,
+  MetricsProviderConfigError,
+  type MetricsProvider,
+} from "@/lib/metrics/providers";
+
+/**
+ * GET /api/jobs/auto-verify
+ * Scheduled job: checks submissions awaiting review against their campaign's verification
+ * rules and verifies the ones passing all of them. Run after collect-metrics so view rules
+ * see the latest numbers.
+ */
+export const GET = withErrorHandling("auto-verifying submissions", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  // Refuse to run without a real metrics source rather than score videos on made-up numbers
+  let provider: MetricsProvider;
+  try {
+    provider = getMetricsProvider();
+  } catch (error) {
+    if (error instanceof MetricsProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+
+  const db = getDb();
+  const summary = await autoVerifySubmissions(db, provider);
+
+  return NextResponse.json(summary, { status: 200 });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { awardViewBonuses } from "@/lib/payments/bonuses";
+
+/**
+ * GET /api/jobs/award-bonuses
+ * Scheduled job: pays view bonuses earned by verified videos, from the latest collected metrics
+ */
+export const GET = withErrorHandling("awarding view bonuses", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const summary = await awardViewBonuses(db);
+
+  return NextResponse.json(summary, { status: 200 });
+});
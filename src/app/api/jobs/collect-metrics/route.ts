@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { collectSubmissionMetrics } from "@/lib/metrics";
+import {
+  getMetricsProvider,
+  MetricsProviderConfigError,
+  type MetricsProvider,
+} from "@/lib/metrics/providers";
+
+/**
+ * GET /api/jobs/collect-metrics
+ * Scheduled job: records a views/likes/shares/comments snapshot for each tracked submission
+ */
+export const GET = withErrorHandling("collecting submission metrics", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  // Refuse to run without a real metrics source rather than score videos on made-up numbers
+  let provider: MetricsProvider;
+  try {
+    provider = getMetricsProvider();
+  } catch (error) {
+    if (error instanceof MetricsProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+
+  const db = getDb();
+  const summary = await collectSubmissionMetrics(db, provider);
+
+  return NextResponse.json(summary, { status: 200 });
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { expireOverdueMissions } from "@/lib/missions/deadlines";
+
+/**
+ * GET /api/jobs/expire-missions
+ * Scheduled job: expires missions past accept_by and assignments past submit_by
+ */
+export const GET = withErrorHandling("expiring missions", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const summary = await expireOverdueMissions(db);
+
+  return NextResponse.json(summary, { status: 200 });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { reconcileStuckPayouts } from "@/lib/payments/payouts";
+
+/**
+ * GET /api/jobs/reconcile-payouts
+ * Scheduled job: resolves payouts stuck in PENDING/SUBMITTED against Stripe
+ */
+export const GET = withErrorHandling("reconciling payouts", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return NextResponse.json(
+      { error: "STRIPE_SECRET_KEY environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const summary = await reconcileStuckPayouts(db);
+
+  return NextResponse.json(summary, { status: 200 });
+});
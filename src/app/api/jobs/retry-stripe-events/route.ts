@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { retryDueStripeEvents } from "@/lib/webhooks/events";
+
+/**
+ * GET /api/jobs/retry-stripe-events
+ * Scheduled job: re-processes failed Stripe events whose backoff has elapsed
+ */
+export const GET = withErrorHandling("retrying Stripe events", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const summary = await retryDueStripeEvents(db);
+
+  return NextResponse.json(summary, { status: 200 });
+});
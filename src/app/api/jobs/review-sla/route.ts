@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireCronSecret } from "@/lib/auth";
+import { enforceReviewSla } from "@/lib/missions/review-sla";
+
+/**
+ * GET /api/jobs/review-sla
+ * Scheduled job: warns artists about submissions nearing their campaign's review deadline and
+ * approves (and optionally pays) the ones past it
+ */
+export const GET = withErrorHandling("enforcing review SLA", async (request: Request) => {
+  requireCronSecret(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const db = getDb();
+  const summary = await enforceReviewSla(db);
+
+  return NextResponse.json(summary, { status: 200 });
+});
@@ -1,97 +1,83 @@
 import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
 import { getDb } from "@/lib/db";
 import { missions } from "@/lib/db/schema";
-import { assertTransition, MissionState } from "@/lib/state/mission";
 import { eq } from "drizzle-orm";
 import { requireRole } from "@/lib/auth";
+import { computeSubmitBy, isPastAcceptBy } from "@/lib/missions/deadlines";
+import { claimSlot } from "@/lib/missions/assignments";
 
-export async function POST(
+export const POST = withErrorHandling("accepting mission", async (
   request: Request,
   { params }: { params: { missionId: string } }
-) {
-  try {
-    // Validate required environment variables
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
+) => {
+  // Validate required environment variables
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    const missionId = params.missionId;
+  const missionId = params.missionId;
 
-    // Require CREATOR role
-    const { authUserId } = await requireRole(request, "CREATOR");
-    const creatorId = authUserId; // Use Supabase auth user ID as creator_id
+  // Require CREATOR role
+  const { authUserId, appUser } = await requireRole(request, "CREATOR");
+  const creatorId = authUserId; // Use Supabase auth user ID as creator_id
 
-    const db = getDb();
+  const db = getDb();
 
-    // Load mission
-    const [mission] = await db
+  // Take a slot on the mission. The mission row is locked so concurrent accepts
+  // cannot claim more slots than it has.
+  const result = await db.transaction(async (tx) => {
+    const [mission] = await tx
       .select()
       .from(missions)
       .where(eq(missions.id, missionId))
-      .limit(1);
+      .for("update");
 
     if (!mission) {
-      return NextResponse.json(
-        { error: "Mission not found" },
-        { status: 404 }
-      );
+      return { error: "Mission not found", status: 404 } as const;
+    }
+
+    // Application missions are filled by the artist approving applicants
+    if (mission.state === "APPLICATIONS_OPEN") {
+      return { error: "This mission takes applications. Apply with a pitch instead.", status: 400 } as const;
     }
 
     // Check mission is OPEN
     if (mission.state !== "OPEN") {
-      return NextResponse.json(
-        { error: `Mission is not OPEN. Current state: ${mission.state}` },
-        { status: 400 }
-      );
+      return { error: `Mission is not OPEN. Current state: ${mission.state}`, status: 400 } as const;
     }
 
-    // Validate transition
-    assertTransition(mission.state as MissionState, MissionState.ACCEPTED);
+    // Not yet swept by the expiry job, but too late to accept
+    if (isPastAcceptBy(mission)) {
+      return { error: "Mission acceptance deadline has passed", status: 400 } as const;
+    }
 
-    // Update mission
-    const [updatedMission] = await db
-      .update(missions)
-      .set({
-        creator_id: creatorId,
-        state: "ACCEPTED",
-        updated_at: new Date(),
-      })
-      .where(eq(missions.id, missionId))
-      .returning();
+    // The submission clock starts now
+    const acceptedAt = new Date();
+    const claimed = await claimSlot(tx, mission, {
+      creatorId,
+      submitBy: computeSubmitBy(mission, acceptedAt),
+      actor: { type: "CREATOR", userId: appUser.id },
+      now: acceptedAt,
+    });
 
-    return NextResponse.json(updatedMission, { status: 200 });
-  } catch (error) {
-    if (error instanceof Error && error.message.includes("Invalid transition")) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: 400 }
-      );
+    if (claimed.status === "conflict") {
+      return { error: claimed.error, status: 409 } as const;
     }
 
-    // Handle auth errors first
-    if (error instanceof Error) {
-      if (error.message === "UNAUTHORIZED") {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-      if (error.message === "FORBIDDEN") {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-      }
-      if (error.message.includes("Invalid transition")) {
-        return NextResponse.json(
-          { error: error.message },
-          { status: 400 }
-        );
-      }
-    }
+    return { assignment: claimed.assignment };
+  });
 
-    console.error("Error accepting mission:", error);
+  if ("error" in result) {
     return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+      { error: result.error },
+      { status: result.status }
     );
   }
-}
+
+  return NextResponse.json(result.assignment, { status: 201 });
+});
 
@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { z } from "zod";
+import { getDb } from "@/lib/db";
+import { campaigns, mission_applications, mission_assignments, missions } from "@/lib/db/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { isPastAcceptBy } from "@/lib/missions/deadlines";
+import { createApplication } from "@/lib/missions/applications";
+
+const applySchema = z.object({
+  pitch: z.string().trim().min(1, "Pitch is required").max(2000, "Pitch must be at most 2000 characters"),
+});
+
+/**
+ * POST /api/missions/[missionId]/applications
+ * Creator applies to an APPLICATIONS_OPEN mission with a pitch; the artist decides later
+ */
+export const POST = withErrorHandling("applying to mission", async (
+  request: Request,
+  { params }: { params: { missionId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const missionId = params.missionId;
+
+  // Require CREATOR role
+  const { authUserId } = await requireRole(request, "CREATOR");
+  const creatorId = authUserId; // Use Supabase auth user ID as creator_id
+
+  const body = await request.json();
+  const validated = applySchema.parse(body);
+
+  const db = getDb();
+
+  // Load mission
+  const [mission] = await db
+    .select()
+    .from(missions)
+    .where(eq(missions.id, missionId))
+    .limit(1);
+
+  if (!mission) {
+    return NextResponse.json(
+      { error: "Mission not found" },
+      { status: 404 }
+    );
+  }
+
+  if (mission.state !== "APPLICATIONS_OPEN") {
+    return NextResponse.json(
+      { error: `Mission is not taking applications. Current state: ${mission.state}` },
+      { status: 400 }
+    );
+  }
+
+  if (isPastAcceptBy(mission)) {
+    return NextResponse.json(
+      { error: "Mission application deadline has passed" },
+      { status: 400 }
+    );
+  }
+
+  const [existingAssignment] = await db
+    .select({ id: mission_assignments.id })
+    .from(mission_assignments)
+    .where(
+      and(
+        eq(mission_assignments.mission_id, missionId),
+        eq(mission_assignments.creator_id, creatorId)
+      )
+    )
+    .limit(1);
+
+  if (existingAssignment) {
+    return NextResponse.json(
+      { error: "You already have this mission" },
+      { status: 409 }
+    );
+  }
+
+  const application = await createApplication(db, {
+    mission,
+    creatorId,
+    pitch: validated.pitch,
+  });
+
+  if (!application) {
+    return NextResponse.json(
+      { error: "You have already applied to this mission" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(application, { status: 201 });
+});
+
+/**
+ * GET /api/missions/[missionId]/applications
+ * Applications to a mission, oldest first. Only the campaign's artist can read the pitches.
+ */
+export const GET = withErrorHandling("fetching mission applications", async (
+  request: Request,
+  { params }: { params: { missionId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const missionId = params.missionId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+
+  const db = getDb();
+
+  // Load mission with its campaign to verify ownership
+  const [row] = await db
+    .select({ mission: missions, campaign: campaigns })
+    .from(missions)
+    .innerJoin(campaigns, eq(campaigns.id, missions.campaign_id))
+    .where(eq(missions.id, missionId))
+    .limit(1);
+
+  if (!row) {
+    return NextResponse.json(
+      { error: "Mission not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.manage", row);
+
+  const applications = await db
+    .select()
+    .from(mission_applications)
+    .where(eq(mission_applications.mission_id, missionId))
+    .orderBy(asc(mission_applications.created_at));
+
+  return NextResponse.json(applications, { status: 200 });
+});
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { missions, campaigns } from "@/lib/db/schema";
+import { assertTransition, MissionState } from "@/lib/state/mission";
+import { eq } from "drizzle-orm";
+import { requireRole } from "@/lib/auth";
+import { authorize } from "@/lib/policy";
+import { closeMission, isAcceptingCreators } from "@/lib/missions/assignments";
+
+/**
+ * POST /api/missions/[missionId]/cancel
+ * Stops an OPEN or APPLICATIONS_OPEN mission from taking new creators and releases the payout reserved for
+ * its unfilled slots back to the campaign budget. Creators who already accepted keep their slot;
+ * pending applicants are notified that it closed.
+ */
+export const POST = withErrorHandling("cancelling mission", async (
+  request: Request,
+  { params }: { params: { missionId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const missionId = params.missionId;
+
+  // Require ARTIST role
+  const user = await requireRole(request, "ARTIST");
+  const { appUser } = user;
+  const artistId = appUser.id;
+
+  const db = getDb();
+
+  // Load mission
+  const [mission] = await db
+    .select()
+    .from(missions)
+    .where(eq(missions.id, missionId))
+    .limit(1);
+
+  if (!mission) {
+    return NextResponse.json(
+      { error: "Mission not found" },
+      { status: 404 }
+    );
+  }
+
+  // Load campaign to verify artist ownership
+  const [campaign] = await db
+    .select()
+    .from(campaigns)
+    .where(eq(campaigns.id, mission.campaign_id))
+    .limit(1);
+
+  if (!campaign) {
+    return NextResponse.json(
+      { error: "Campaign not found" },
+      { status: 404 }
+    );
+  }
+
+  // Verify artist owns this campaign
+  authorize(user, "mission.manage", { campaign });
+
+  // Only missions still taking creators can be cancelled
+  if (!isAcceptingCreators(mission)) {
+    return NextResponse.json(
+      { error: `Mission is not OPEN or APPLICATIONS_OPEN. Current state: ${mission.state}` },
+      { status: 400 }
+    );
+  }
+
+  // Validate transition
+  assertTransition(mission.state as MissionState, MissionState.CANCELLED);
+
+  // Lock the mission so no creator can take a slot while the unfilled ones are released
+  const updatedMission = await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(missions)
+      .where(eq(missions.id, missionId))
+      .for("update");
+
+    return closeMission(tx, locked, {
+      state: MissionState.CANCELLED,
+      currency: campaign.currency,
+      reason: "cancelled",
+      actor: { type: "ARTIST", userId: artistId },
+    });
+  });
+
+  return NextResponse.json(updatedMission, { status: 200 });
+});
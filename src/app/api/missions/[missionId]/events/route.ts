@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { campaigns, mission_assignments, missions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { requireUser } from "@/lib/auth";
+import { authorize, can } from "@/lib/policy";
+import { getMissionEvents } from "@/lib/state/events";
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/missions/[missionId]/events
+ * State history of a mission and its assignments, oldest first: who changed what, when and why.
+ * `?assignment_id=` narrows it to one assignment (plus changes to the mission itself).
+ * Only the campaign's artist and admins see the whole mission; a creator sees their own
+ * assignment's history.
+ */
+export const GET = withErrorHandling("fetching mission events", async (
+  request: Request,
+  { params }: { params: { missionId: string } }
+) => {
+  // Require a signed-in user; who may read what is checked below
+  const user = await requireUser(request);
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const missionId = params.missionId;
+  let assignmentId = new URL(request.url).searchParams.get("assignment_id");
+
+  // Validate UUID format
+  if (!UUID_REGEX.test(missionId)) {
+    return NextResponse.json(
+      { error: "Invalid mission ID format" },
+      { status: 400 }
+    );
+  }
+  if (assignmentId && !UUID_REGEX.test(assignmentId)) {
+    return NextResponse.json(
+      { error: "Invalid assignment ID format" },
+      { status: 400 }
+    );
+  }
+
+  const db = getDb();
+
+  const [row] = await db
+    .select({ artist_id: campaigns.artist_id })
+    .from(missions)
+    .innerJoin(campaigns, eq(campaigns.id, missions.campaign_id))
+    .where(eq(missions.id, missionId))
+    .limit(1);
+
+  if (!row) {
+    return NextResponse.json(
+      { error: "Mission not found" },
+      { status: 404 }
+    );
+  }
+  const campaign = { artist_id: row.artist_id };
+
+  // The assignment asked for, or else the caller's own one when they may not see the whole mission
+  let assignment: { id: string; creator_id: string } | null = null;
+  if (assignmentId) {
+    const [requested] = await db
+      .select({ id: mission_assignments.id, creator_id: mission_assignments.creator_id })
+      .from(mission_assignments)
+      .where(and(eq(mission_assignments.id, assignmentId), eq(mission_assignments.mission_id, missionId)))
+      .limit(1);
+
+    if (!requested) {
+      return NextResponse.json(
+        { error: "Assignment not found" },
+        { status: 404 }
+      );
+    }
+    assignment = requested;
+  } else if (!can(user, "mission.events.view", { campaign, assignment: null })) {
+    const [own] = await db
+      .select({ id: mission_assignments.id, creator_id: mission_assignments.creator_id })
+      .from(mission_assignments)
+      .where(and(eq(mission_assignments.mission_id, missionId), eq(mission_assignments.creator_id, user.authUserId)))
+      .limit(1);
+    assignment = own ?? null;
+    assignmentId = own?.id ?? null;
+  }
+
+  authorize(user, "mission.events.view", { campaign, assignment });
+
+  const events = await getMissionEvents(db, missionId, assignmentId);
+
+  return NextResponse.json(events, { status: 200 });
+});
@@ -1,69 +1,85 @@
 import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
 import { getDb } from "@/lib/db";
-import { missions, mission_submissions } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { mission_assignments, missions } from "@/lib/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { getSubmissionTimeline } from "@/lib/missions/submissions";
+import { withSlotsTaken } from "@/lib/missions/assignments";
+import { withBonusTiers } from "@/lib/payments/bonuses";
+import { getDisputes } from "@/lib/missions/disputes";
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-export async function GET(
+export const GET = withErrorHandling("fetching mission", async (
   request: Request,
   { params }: { params: { missionId: string } }
-) {
-  try {
-    if (!process.env.DATABASE_URL) {
-      return NextResponse.json(
-        { error: "DATABASE_URL environment variable is not set" },
-        { status: 500 }
-      );
-    }
-
-    const missionId = params.missionId;
-
-    // Validate UUID format
-    if (!UUID_REGEX.test(missionId)) {
-      return NextResponse.json(
-        { error: "Invalid mission ID format" },
-        { status: 400 }
-      );
-    }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
 
-    const db = getDb();
+  const missionId = params.missionId;
 
-    // Get mission
-    const [mission] = await db
-      .select()
-      .from(missions)
-      .where(eq(missions.id, missionId))
-      .limit(1);
+  // Validate UUID format
+  if (!UUID_REGEX.test(missionId)) {
+    return NextResponse.json(
+      { error: "Invalid mission ID format" },
+      { status: 400 }
+    );
+  }
 
-    if (!mission) {
-      return NextResponse.json(
-        { error: "Mission not found" },
-        { status: 404 }
-      );
-    }
+  const db = getDb();
 
-    // Get submission if it exists
-    const [submission] = await db
-      .select()
-      .from(mission_submissions)
-      .where(eq(mission_submissions.mission_id, missionId))
-      .limit(1);
+  // Get mission
+  const [mission] = await db
+    .select()
+    .from(missions)
+    .where(eq(missions.id, missionId))
+    .limit(1);
 
+  if (!mission) {
     return NextResponse.json(
-      {
-        ...mission,
-        submission: submission || null,
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("Error fetching mission:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+      { error: "Mission not found" },
+      { status: 404 }
     );
   }
-}
+
+  const assignments = await db
+    .select()
+    .from(mission_assignments)
+    .where(eq(mission_assignments.mission_id, missionId))
+    .orderBy(asc(mission_assignments.created_at));
+
+  const disputes = await getDisputes(
+    db,
+    assignments.map((assignment) => assignment.id)
+  );
+
+  // Full submission and dispute history per assignment; the latest version is also returned as `submission`
+  const assignmentsWithSubmissions = await Promise.all(
+    assignments.map(async (assignment) => {
+      const submissions = await getSubmissionTimeline(db, assignment.id);
+      return {
+        ...assignment,
+        submission: submissions[submissions.length - 1] || null,
+        submissions,
+        disputes: disputes.get(assignment.id) ?? [],
+      };
+    })
+  );
+
+  const [missionWithSlots] = await withBonusTiers(db, await withSlotsTaken(db, [mission]));
+
+  return NextResponse.json(
+    {
+      ...missionWithSlots,
+      assignments: assignmentsWithSubmissions,
+    },
+    { status: 200 }
+  );
+});
 
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { markNotificationRead } from "@/lib/notifications";
+
+/**
+ * POST /api/notifications/[notificationId]/read
+ * Marks one of the authenticated user's notifications as read
+ */
+export const POST = withErrorHandling("marking notification read", async (
+  request: Request,
+  { params }: { params: { notificationId: string } }
+) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const authUserId = await requireAuth(request);
+
+  const db = getDb();
+  const notification = await markNotificationRead(db, {
+    notificationId: params.notificationId,
+    recipientId: authUserId,
+  });
+
+  if (!notification) {
+    return NextResponse.json(
+      { error: "Notification not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(notification, { status: 200 });
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { withErrorHandling } from "@/lib/http/handler";
+import { getDb } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { listNotifications } from "@/lib/notifications";
+
+/**
+ * GET /api/notifications
+ * The authenticated user's notifications, newest first. `?unread=true` limits to unread ones.
+ */
+export const GET = withErrorHandling("fetching notifications", async (request: Request) => {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: "DATABASE_URL environment variable is not set" },
+      { status: 500 }
+    );
+  }
+
+  const authUserId = await requireAuth(request);
+
+  const { searchParams } = new URL(request.url);
+  const unreadOnly = searchParams.get("unread") === "true";
+
+  const db = getDb();
+  const notifications = await listNotifications(db, authUserId, { unreadOnly });
+
+  return NextResponse.json(notifications, { status: 200 });
+});
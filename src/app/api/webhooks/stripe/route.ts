@@ -1,8 +1,7 @@
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { getDb } from "@/lib/db";
-import { campaigns, users } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { processStripeEvent, storeStripeEvent } from "@/lib/webhooks/events";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "");
 
@@ -42,76 +41,26 @@ export async function POST(request: Request) {
 
   const db = getDb();
 
-  // Handle the event
-  switch (event.type) {
-    case "payment_intent.succeeded": {
-      const paymentIntent = event.data.object as Stripe.PaymentIntent;
-      console.log(`PaymentIntent succeeded: ${paymentIntent.id}`);
-
-      // Update campaign payment status
-      const campaignId = paymentIntent.metadata?.campaign_id;
-      if (campaignId) {
-        try {
-          await db
-            .update(campaigns)
-            .set({ payment_status: "FUNDED" })
-            .where(eq(campaigns.id, parseInt(campaignId, 10)));
-          console.log(`Campaign ${campaignId} marked as FUNDED`);
-        } catch (dbError) {
-          console.error(`Failed to update campaign ${campaignId}:`, dbError);
-        }
-      }
-      break;
-    }
-
-    case "payment_intent.payment_failed": {
-      const paymentIntent = event.data.object as Stripe.PaymentIntent;
-      console.log(`PaymentIntent failed: ${paymentIntent.id}`);
-      console.log(`Failure reason: ${paymentIntent.last_payment_error?.message}`);
-      break;
-    }
-
-    case "payment_intent.canceled": {
-      const paymentIntent = event.data.object as Stripe.PaymentIntent;
-      console.log(`PaymentIntent canceled: ${paymentIntent.id}`);
-      break;
-    }
-
-    case "account.updated": {
-      const account = event.data.object as Stripe.Account;
-      console.log(`Account updated: ${account.id}`);
-
-      // Check if onboarding is complete
-      if (account.details_submitted && account.payouts_enabled) {
-        try {
-          await db
-            .update(users)
-            .set({ stripe_onboarding_complete: new Date() })
-            .where(eq(users.stripe_account_id, account.id));
-          console.log(`User with Stripe account ${account.id} marked as onboarding complete`);
-        } catch (dbError) {
-          console.error(`Failed to update user for account ${account.id}:`, dbError);
-        }
-      }
-      break;
-    }
-
-    case "transfer.created": {
-      const transfer = event.data.object as Stripe.Transfer;
-      console.log(`Transfer created: ${transfer.id} for ${transfer.amount} ${transfer.currency}`);
-      break;
-    }
-
-    case "transfer.reversed": {
-      const transfer = event.data.object as Stripe.Transfer;
-      console.log(`Transfer reversed: ${transfer.id}`);
-      // Could revert mission state here if needed
-      break;
-    }
+  // Persist the event before doing anything else, so it can be retried or replayed
+  let duplicate: boolean;
+  try {
+    ({ duplicate } = await storeStripeEvent(db, event));
+  } catch (dbError) {
+    console.error(`Failed to store Stripe event ${event.id}:`, dbError);
+    // Let Stripe redeliver it
+    return NextResponse.json(
+      { error: "Failed to store event" },
+      { status: 500 }
+    );
+  }
 
-    default:
-      console.log(`Unhandled event type: ${event.type}`);
+  if (duplicate) {
+    console.log(`Duplicate Stripe event ${event.id} (${event.type})`);
   }
 
-  return NextResponse.json({ received: true });
+  // Processing failures are recorded on the event and retried by the
+  // retry-stripe-events job, so Stripe does not need to redeliver
+  await processStripeEvent(db, event.id);
+
+  return NextResponse.json({ received: true, duplicate });
 }
@@ -19,34 +19,163 @@ interface Campaign {
   budget_cents: number;
   currency: string;
   payment_intent_id: string | null;
-  payment_status: "PENDING" | "FUNDED" | "REFUNDED";
+  payment_status: "PENDING" | "FUNDED" | "PARTIALLY_REFUNDED" | "REFUNDED";
+  cancelled_at: string | null;
   created_at: string;
+  committed_cents: number;
+  remaining_budget_cents: number;
 }
 
 interface Mission {
   id: string;
   campaign_id: number;
-  creator_id: string | null;
   title: string;
   brief: string | null;
   state: string;
   payout_cents: number;
+  slots: number;
+  slots_taken: number;
+  max_revisions: number;
+  accept_by: string | null;
+  submit_window_hours: number | null;
+  platforms: string[];
+  bonus_tiers: BonusTier[];
   created_at: string;
   updated_at: string;
-  submission?: {
-    id: string;
-    tiktok_url: string;
-    created_at: string;
-  } | null;
+  assignments?: Assignment[];
+  applications?: Application[];
 }
 
+interface BonusTier {
+  id: string;
+  views_threshold: number;
+  bonus_cents: number;
+}
+
+interface Application {
+  id: string;
+  creator_id: string;
+  pitch: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  decision_note: string | null;
+  created_at: string;
+}
+
+interface Assignment {
+  id: string;
+  mission_id: string;
+  creator_id: string;
+  state: string;
+  submit_by: string | null;
+  revision_count: number;
+  revision_feedback: string | null;
+  payout_failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  submission?: MissionSubmission | null;
+  submissions?: MissionSubmission[];
+  disputes?: AssignmentDispute[];
+}
+
+interface MissionSubmission {
+  id: string;
+  version: number;
+  platform: string;
+  video_url: string;
+  duplicate_of_submission_id: string | null;
+  auto_verification: AutoVerificationReport | null;
+  decision: "VERIFIED" | "REJECTED" | "CHANGES_REQUESTED" | null;
+  decision_source: "ARTIST" | "AUTO_RULES" | "REVIEW_SLA" | "ADMIN" | null;
+  rejection_reason: string | null;
+  reviewer_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+interface AssignmentDispute {
+  id: string;
+  submission_id: string;
+  reason: string;
+  status: "OPEN" | "UPHELD" | "OVERTURNED";
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+interface MissionEvent {
+  id: string;
+  assignment_id: string | null;
+  actor: "ARTIST" | "CREATOR" | "ADMIN" | "SYSTEM";
+  from_state: string;
+  to_state: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface AutoVerificationReport {
+  outcome: "passed" | "failed" | "pending";
+  checked_at: string;
+  checks: { rule: string; passed: boolean | null; detail: string }[];
+}
+
+interface VerificationRules {
+  enabled: boolean;
+  require_public: boolean;
+  sound_id: string | null;
+  required_hashtags: string[];
+  require_posted_after_acceptance: boolean;
+  min_views: number | null;
+  min_views_window_hours: number | null;
+  review_sla_hours: number | null;
+  auto_pay_after_review_sla: boolean;
+}
+
+interface SubmissionMetric {
+  id: string;
+  views: number;
+  likes: number;
+  shares: number;
+  comments: number;
+  collected_at: string;
+}
+
+const platformLabels: Record<string, string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM_REELS: "Instagram Reels",
+  YOUTUBE_SHORTS: "YouTube Shorts",
+  X: "X",
+};
+
 const statusColors: Record<string, { bg: string; text: string }> = {
   OPEN: { bg: "#e3f2fd", text: "#1565c0" },
+  APPLICATIONS_OPEN: { bg: "#e0f7fa", text: "#00838f" },
   ACCEPTED: { bg: "#fff3e0", text: "#ef6c00" },
   SUBMITTED: { bg: "#f3e5f5", text: "#7b1fa2" },
+  CHANGES_REQUESTED: { bg: "#fff3e0", text: "#e65100" },
   VERIFIED: { bg: "#e8f5e9", text: "#2e7d32" },
   PAID: { bg: "#e8f5e9", text: "#1b5e20" },
   REJECTED: { bg: "#ffebee", text: "#c62828" },
+  CANCELLED: { bg: "#eeeeee", text: "#616161" },
+  PAYOUT_FAILED: { bg: "#fff8e1", text: "#b71c1c" },
+  EXPIRED: { bg: "#eeeeee", text: "#9e9e9e" },
+  DISPUTED: { bg: "#fce4ec", text: "#ad1457" },
+};
+
+const eventActorLabels: Record<string, string> = {
+  ARTIST: "by you",
+  CREATOR: "by the creator",
+  ADMIN: "by the platform",
+  SYSTEM: "automatically",
+};
+
+const rejectionReasonLabels: Record<string, string> = {
+  NOT_POSTED: "Video not posted",
+  BRIEF_NOT_FOLLOWED: "Brief not followed",
+  WRONG_SOUND: "Wrong sound",
+  LOW_QUALITY: "Low quality",
+  INAPPROPRIATE: "Inappropriate content",
+  DUPLICATE: "Duplicate video",
+  OTHER: "Other",
 };
 
 export default function CampaignDetailPage() {
@@ -58,21 +187,60 @@ export default function CampaignDetailPage() {
   const [loading, setLoading] = useState(true);
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [missions, setMissions] = useState<Mission[]>([]);
+  const [submissionMetrics, setSubmissionMetrics] = useState<Record<string, SubmissionMetric[]>>({});
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [historyMissionId, setHistoryMissionId] = useState<string | null>(null);
+  const [missionEvents, setMissionEvents] = useState<MissionEvent[]>([]);
 
   // Create Mission modal state
   const [showMissionModal, setShowMissionModal] = useState(false);
   const [missionTitle, setMissionTitle] = useState("");
   const [missionBrief, setMissionBrief] = useState("");
   const [missionPayout, setMissionPayout] = useState("");
+  const [missionAcceptBy, setMissionAcceptBy] = useState("");
+  const [missionSubmitWindow, setMissionSubmitWindow] = useState("");
+  const [missionSlots, setMissionSlots] = useState("1");
+  const [missionRequireApplication, setMissionRequireApplication] = useState(false);
+  const [missionPlatforms, setMissionPlatforms] = useState<string[]>(["TIKTOK"]);
+  const [missionBonusTiers, setMissionBonusTiers] = useState("");
   const [missionError, setMissionError] = useState<string | null>(null);
   const [missionLoading, setMissionLoading] = useState(false);
 
+  // Auto-verification rules form state
+  const [rulesEnabled, setRulesEnabled] = useState(false);
+  const [rulesRequirePublic, setRulesRequirePublic] = useState(false);
+  const [rulesSoundId, setRulesSoundId] = useState("");
+  const [rulesHashtags, setRulesHashtags] = useState("");
+  const [rulesPostedAfterAcceptance, setRulesPostedAfterAcceptance] = useState(false);
+  const [rulesMinViews, setRulesMinViews] = useState("");
+  const [rulesWindowHours, setRulesWindowHours] = useState("");
+  const [rulesReviewSla, setRulesReviewSla] = useState("");
+  const [rulesAutoPay, setRulesAutoPay] = useState(false);
+  // Saved review window, for showing when pending submissions auto-approve
+  const [reviewSlaHours, setReviewSlaHours] = useState<number | null>(null);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  const [rulesSaved, setRulesSaved] = useState(false);
+  const [rulesLoading, setRulesLoading] = useState(false);
+
+  // Reject modal state
+  const [rejectAssignmentId, setRejectAssignmentId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("BRIEF_NOT_FOLLOWED");
+  const [rejectNotes, setRejectNotes] = useState("");
+  const [rejectError, setRejectError] = useState<string | null>(null);
+
   // Checkout modal state
   const [showCheckout, setShowCheckout] = useState(false);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [checkoutLoading, setCheckoutLoading] = useState(false);
+  // Set while paying a top-up instead of the initial budget
+  const [checkoutAmount, setCheckoutAmount] = useState<number | null>(null);
+
+  // Top-up modal state
+  const [showTopUpModal, setShowTopUpModal] = useState(false);
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const [topUpError, setTopUpError] = useState<string | null>(null);
+  const [topUpLoading, setTopUpLoading] = useState(false);
 
   const formatCurrency = (cents: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -81,6 +249,43 @@ export default function CampaignDetailPage() {
     }).format(cents / 100);
   };
 
+  const formatBonusTiers = (tiers: BonusTier[]) => {
+    const compact = new Intl.NumberFormat("en-US", { notation: "compact" });
+    return tiers
+      .map((tier) => `+${formatCurrency(tier.bonus_cents)} at ${compact.format(tier.views_threshold)} views`)
+      .join(" · ");
+  };
+
+  // Latest snapshot, with the view growth since the first one when there is a trend to show
+  const formatMetrics = (series: SubmissionMetric[]) => {
+    const compact = new Intl.NumberFormat("en-US", { notation: "compact" });
+    const first = series[0];
+    const latest = series[series.length - 1];
+    const growth = series.length > 1
+      ? ` (+${compact.format(latest.views - first.views)} since ${new Date(first.collected_at).toLocaleDateString()})`
+      : "";
+    return [
+      `${compact.format(latest.views)} views${growth}`,
+      `${compact.format(latest.likes)} likes`,
+      `${compact.format(latest.shares)} shares`,
+      `${compact.format(latest.comments)} comments`,
+      `as of ${new Date(latest.collected_at).toLocaleString()}`,
+    ].join(" · ");
+  };
+
+  const applyRules = (rules: VerificationRules | null) => {
+    setRulesEnabled(rules?.enabled ?? false);
+    setRulesRequirePublic(rules?.require_public ?? false);
+    setRulesSoundId(rules?.sound_id ?? "");
+    setRulesHashtags((rules?.required_hashtags ?? []).map((tag) => `#${tag}`).join(" "));
+    setRulesPostedAfterAcceptance(rules?.require_posted_after_acceptance ?? false);
+    setRulesMinViews(rules?.min_views ? String(rules.min_views) : "");
+    setRulesWindowHours(rules?.min_views_window_hours ? String(rules.min_views_window_hours) : "");
+    setRulesReviewSla(rules?.review_sla_hours ? String(rules.review_sla_hours) : "");
+    setRulesAutoPay(rules?.auto_pay_after_review_sla ?? false);
+    setReviewSlaHours(rules?.review_sla_hours ?? null);
+  };
+
   const fetchData = useCallback(async () => {
     if (!session) return;
 
@@ -112,23 +317,50 @@ export default function CampaignDetailPage() {
         const missionsData = await missionsRes.json();
         const missionsList = Array.isArray(missionsData) ? missionsData : missionsData.data || [];
 
-        // Fetch submission details for SUBMITTED missions
+        // Fetch the creator assignments (with submission history) of each mission
         const missionsWithSubmissions = await Promise.all(
           missionsList.map(async (mission: Mission) => {
-            if (mission.state === "SUBMITTED" || mission.state === "VERIFIED" || mission.state === "PAID") {
-              const detailRes = await fetch(`/api/missions/${mission.id}`, {
+            const detailRes = await fetch(`/api/missions/${mission.id}`, {
+              headers: { Authorization: `Bearer ${session.access_token}` },
+            });
+            if (!detailRes.ok) {
+              return mission;
+            }
+            const detail = await detailRes.json();
+
+            // Applicants to pick from, for missions where creators apply
+            if (detail.state === "APPLICATIONS_OPEN") {
+              const applicationsRes = await fetch(`/api/missions/${mission.id}/applications`, {
                 headers: { Authorization: `Bearer ${session.access_token}` },
               });
-              if (detailRes.ok) {
-                return await detailRes.json();
+              if (applicationsRes.ok) {
+                detail.applications = await applicationsRes.json();
               }
             }
-            return mission;
+            return detail;
           })
         );
 
         setMissions(missionsWithSubmissions);
       }
+
+      // Fetch collected performance metrics of the submitted videos
+      const metricsRes = await fetch(`/api/campaigns/${campaignId}/metrics`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (metricsRes.ok) {
+        const metricsData = await metricsRes.json();
+        setSubmissionMetrics(metricsData.metrics || {});
+      }
+
+      // Fetch the auto-verification rules
+      const rulesRes = await fetch(`/api/campaigns/${campaignId}/verification-rules`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (rulesRes.ok) {
+        const rulesData = await rulesRes.json();
+        applyRules(rulesData.rules);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch data");
     }
@@ -189,15 +421,57 @@ export default function CampaignDetailPage() {
     }
   };
 
+  const handleTopUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    setTopUpLoading(true);
+    setTopUpError(null);
+
+    try {
+      const amountCents = Math.round(parseFloat(topUpAmount) * 100);
+      if (isNaN(amountCents) || amountCents < 100) {
+        throw new Error("Top-up must be at least $1.00");
+      }
+
+      const res = await fetch(`/api/campaigns/${campaignId}/top-up`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ amountCents }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to start top-up");
+      }
+
+      setShowTopUpModal(false);
+      setTopUpAmount("");
+      setCheckoutAmount(data.amount);
+      setClientSecret(data.clientSecret);
+      setShowCheckout(true);
+    } catch (err) {
+      setTopUpError(err instanceof Error ? err.message : "Failed to start top-up");
+    } finally {
+      setTopUpLoading(false);
+    }
+  };
+
   const handleCheckoutSuccess = async () => {
     setShowCheckout(false);
     setClientSecret(null);
+    setCheckoutAmount(null);
     await fetchData();
   };
 
   const handleCheckoutCancel = () => {
     setShowCheckout(false);
     setClientSecret(null);
+    setCheckoutAmount(null);
   };
 
   const handleCreateMission = async (e: React.FormEvent) => {
@@ -217,6 +491,24 @@ export default function CampaignDetailPage() {
         throw new Error("Mission title is required");
       }
 
+      if (missionPlatforms.length === 0) {
+        throw new Error("Pick at least one platform");
+      }
+
+      // "views:dollars" pairs, e.g. "10000:20, 100000:50"
+      const bonusTiers = missionBonusTiers
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0)
+        .map((entry) => {
+          const [views, dollars] = entry.split(":").map((part) => part.trim());
+          const tier = { views: parseInt(views, 10), bonusCents: Math.round(parseFloat(dollars) * 100) };
+          if (isNaN(tier.views) || tier.views < 1 || isNaN(tier.bonusCents) || tier.bonusCents < 100) {
+            throw new Error(`Invalid bonus tier "${entry}". Use views:dollars, e.g. 10000:20`);
+          }
+          return tier;
+        });
+
       const res = await fetch(`/api/campaigns/${campaignId}/missions`, {
         method: "POST",
         headers: {
@@ -227,6 +519,12 @@ export default function CampaignDetailPage() {
           title: missionTitle,
           brief: missionBrief || undefined,
           payoutCents,
+          acceptBy: missionAcceptBy ? new Date(missionAcceptBy).toISOString() : undefined,
+          submitWindowHours: missionSubmitWindow ? parseInt(missionSubmitWindow, 10) : undefined,
+          slots: missionSlots ? parseInt(missionSlots, 10) : undefined,
+          requireApplication: missionRequireApplication,
+          platforms: missionPlatforms,
+          bonusTiers: bonusTiers.length > 0 ? bonusTiers : undefined,
         }),
       });
 
@@ -239,6 +537,12 @@ export default function CampaignDetailPage() {
       setMissionTitle("");
       setMissionBrief("");
       setMissionPayout("");
+      setMissionAcceptBy("");
+      setMissionSubmitWindow("");
+      setMissionSlots("1");
+      setMissionRequireApplication(false);
+      setMissionPlatforms(["TIKTOK"]);
+      setMissionBonusTiers("");
       await fetchData();
     } catch (err) {
       setMissionError(err instanceof Error ? err.message : "Failed to create mission");
@@ -247,14 +551,56 @@ export default function CampaignDetailPage() {
     }
   };
 
-  const handleVerify = async (missionId: string) => {
+  const handleSaveRules = async (e: React.FormEvent) => {
+    e.preventDefault();
     if (!session) return;
 
-    setActionLoading(missionId);
+    setRulesLoading(true);
+    setRulesError(null);
+    setRulesSaved(false);
+
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/verification-rules`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          enabled: rulesEnabled,
+          requirePublic: rulesRequirePublic,
+          soundId: rulesSoundId.trim() || null,
+          requiredHashtags: rulesHashtags.split(/[\s,]+/).filter((tag) => tag.length > 0),
+          requirePostedAfterAcceptance: rulesPostedAfterAcceptance,
+          minViews: rulesMinViews ? parseInt(rulesMinViews, 10) : null,
+          minViewsWindowHours: rulesWindowHours ? parseInt(rulesWindowHours, 10) : null,
+          reviewSlaHours: rulesReviewSla ? parseInt(rulesReviewSla, 10) : null,
+          autoPayAfterReviewSla: rulesAutoPay,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || "Failed to save rules");
+      }
+
+      applyRules(data.rules);
+      setRulesSaved(true);
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : "Failed to save rules");
+    } finally {
+      setRulesLoading(false);
+    }
+  };
+
+  const handleVerify = async (assignmentId: string) => {
+    if (!session) return;
+
+    setActionLoading(assignmentId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/verify`, {
+      const res = await fetch(`/api/assignments/${assignmentId}/verify`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
@@ -275,19 +621,60 @@ export default function CampaignDetailPage() {
     }
   };
 
-  const handleReject = async (missionId: string) => {
+  const handleRequestChanges = async (assignmentId: string) => {
     if (!session) return;
 
-    setActionLoading(missionId);
+    const feedback = window.prompt("What should the creator change?");
+    if (!feedback || !feedback.trim()) return;
+
+    setActionLoading(assignmentId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/reject`, {
+      const res = await fetch(`/api/assignments/${assignmentId}/request-changes`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ feedback }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to request changes");
+      }
+
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request changes");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const openRejectModal = (assignmentId: string) => {
+    setRejectAssignmentId(assignmentId);
+    setRejectReason("BRIEF_NOT_FOLLOWED");
+    setRejectNotes("");
+    setRejectError(null);
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !rejectAssignmentId) return;
+
+    setActionLoading(rejectAssignmentId);
+    setRejectError(null);
+
+    try {
+      const res = await fetch(`/api/assignments/${rejectAssignmentId}/reject`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ reason: rejectReason, notes: rejectNotes }),
       });
 
       if (!res.ok) {
@@ -295,22 +682,159 @@ export default function CampaignDetailPage() {
         throw new Error(data.error || "Failed to reject mission");
       }
 
+      setRejectAssignmentId(null);
+      await fetchData();
+    } catch (err) {
+      setRejectError(err instanceof Error ? err.message : "Failed to reject mission");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCancelCampaign = async () => {
+    if (!session || !campaign) return;
+
+    if (!window.confirm("Cancel this campaign? Open missions will be closed and unspent budget refunded.")) {
+      return;
+    }
+
+    setActionLoading("campaign");
+    setError(null);
+
+    try {
+      let res = await fetch(`/api/campaigns/${campaignId}/cancel`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ inFlightPolicy: "REFUSE" }),
+      });
+
+      // Creators are mid-mission: ask before cancelling around them
+      if (res.status === 409) {
+        const data = await res.json();
+        const count = data.in_flight_assignments?.length || 0;
+        if (!window.confirm(`${count} mission(s) are in progress. Cancel anyway and let them finish?`)) {
+          return;
+        }
+
+        res = await fetch(`/api/campaigns/${campaignId}/cancel`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ inFlightPolicy: "HONOR" }),
+        });
+      }
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to cancel campaign");
+      }
+
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel campaign");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleApplicationDecision = async (applicationId: string, decision: "approve" | "reject") => {
+    if (!session) return;
+
+    let note: string | null = null;
+    if (decision === "reject") {
+      note = window.prompt("Optional note for the creator:");
+      if (note === null) return;
+    }
+
+    setActionLoading(applicationId);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/applications/${applicationId}/${decision}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ note: note?.trim() || undefined }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || `Failed to ${decision} application`);
+      }
+
       await fetchData();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to reject mission");
+      setError(err instanceof Error ? err.message : `Failed to ${decision} application`);
     } finally {
       setActionLoading(null);
     }
   };
 
-  const handlePayout = async (missionId: string) => {
+  const handleToggleHistory = async (missionId: string) => {
+    if (historyMissionId === missionId) {
+      setHistoryMissionId(null);
+      return;
+    }
+
+    if (!session) return;
+
+    try {
+      const res = await fetch(`/api/missions/${missionId}/events`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to load mission history");
+      }
+      setMissionEvents(await res.json());
+      setHistoryMissionId(missionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load mission history");
+    }
+  };
+
+  const handleCancel = async (missionId: string) => {
     if (!session) return;
 
     setActionLoading(missionId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/payout`, {
+      const res = await fetch(`/api/missions/${missionId}/cancel`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to cancel mission");
+      }
+
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel mission");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handlePayout = async (assignmentId: string) => {
+    if (!session) return;
+
+    setActionLoading(assignmentId);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/payout`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
@@ -332,9 +856,13 @@ export default function CampaignDetailPage() {
   };
 
   // Calculate stats
-  const totalPayout = missions.reduce((sum, m) => sum + m.payout_cents, 0);
-  const paidOut = missions.filter(m => m.state === "PAID").reduce((sum, m) => sum + m.payout_cents, 0);
-  const pendingPayout = missions.filter(m => m.state === "VERIFIED").reduce((sum, m) => sum + m.payout_cents, 0);
+  const sumAssignmentPayouts = (state: string) =>
+    missions.reduce(
+      (sum, m) => sum + (m.assignments || []).filter(a => a.state === state).length * m.payout_cents,
+      0
+    );
+  const paidOut = sumAssignmentPayouts("PAID");
+  const pendingPayout = sumAssignmentPayouts("VERIFIED");
 
   if (loading) {
     return (
@@ -435,8 +963,23 @@ export default function CampaignDetailPage() {
                 >
                   {campaign.payment_status === "FUNDED" && "✓ Funded"}
                   {campaign.payment_status === "PENDING" && "Awaiting Payment"}
+                  {campaign.payment_status === "PARTIALLY_REFUNDED" && "Partially Refunded"}
                   {campaign.payment_status === "REFUNDED" && "Refunded"}
                 </span>
+                {campaign.cancelled_at && (
+                  <span
+                    style={{
+                      padding: "6px 12px",
+                      borderRadius: "4px",
+                      fontSize: "14px",
+                      fontWeight: "bold",
+                      backgroundColor: "#eeeeee",
+                      color: "#616161",
+                    }}
+                  >
+                    Cancelled
+                  </span>
+                )}
               </div>
               {campaign.description && (
                 <p style={{ color: "#666", margin: "0 0 16px", lineHeight: "1.5" }}>
@@ -447,6 +990,9 @@ export default function CampaignDetailPage() {
                 <div>
                   <strong>Budget:</strong> {formatCurrency(campaign.budget_cents)}
                 </div>
+                <div>
+                  <strong>Remaining:</strong> {formatCurrency(campaign.remaining_budget_cents)}
+                </div>
                 <div>
                   <strong>Total Missions:</strong> {missions.length}
                 </div>
@@ -456,7 +1002,7 @@ export default function CampaignDetailPage() {
               </div>
             </div>
             <div style={{ display: "flex", gap: "8px" }}>
-              {campaign.payment_status === "PENDING" && (
+              {campaign.payment_status === "PENDING" && !campaign.cancelled_at && (
                 <button
                   onClick={handleFundCampaign}
                   disabled={checkoutLoading}
@@ -474,45 +1020,82 @@ export default function CampaignDetailPage() {
                   {checkoutLoading ? "Loading..." : "Fund Campaign"}
                 </button>
               )}
-              <button
-                onClick={() => setShowMissionModal(true)}
-                style={{
-                  padding: "12px 24px",
-                  backgroundColor: "#28a745",
-                  color: "white",
-                  border: "none",
-                  borderRadius: "4px",
-                  cursor: "pointer",
-                  fontSize: "14px",
-                  fontWeight: "bold",
-                }}
-              >
-                + Add Mission
-              </button>
-            </div>
-          </div>
-
-          {/* Stats */}
-          <div style={{
-            display: "flex",
-            gap: "16px",
-            marginTop: "24px",
-            paddingTop: "24px",
-            borderTop: "1px solid #eee",
-          }}>
-            <div style={{
-              flex: 1,
-              padding: "16px",
-              backgroundColor: "#f5f5f5",
-              borderRadius: "8px",
-              textAlign: "center",
-            }}>
-              <div style={{ fontSize: "24px", fontWeight: "bold", color: "#333" }}>
-                {formatCurrency(totalPayout)}
-              </div>
-              <div style={{ fontSize: "12px", color: "#666" }}>Total Allocated</div>
-            </div>
-            <div style={{
+              {campaign.payment_status === "FUNDED" && !campaign.cancelled_at && (
+                <button
+                  onClick={() => setShowTopUpModal(true)}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#ff9800",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  Top Up
+                </button>
+              )}
+              {!campaign.cancelled_at && (
+                <button
+                  onClick={() => setShowMissionModal(true)}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#28a745",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  + Add Mission
+                </button>
+              )}
+              {!campaign.cancelled_at && (
+                <button
+                  onClick={handleCancelCampaign}
+                  disabled={actionLoading === "campaign"}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: actionLoading === "campaign" ? "#ccc" : "#dc3545",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: actionLoading === "campaign" ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {actionLoading === "campaign" ? "Cancelling..." : "Cancel Campaign"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div style={{
+            display: "flex",
+            gap: "16px",
+            marginTop: "24px",
+            paddingTop: "24px",
+            borderTop: "1px solid #eee",
+          }}>
+            <div style={{
+              flex: 1,
+              padding: "16px",
+              backgroundColor: "#f5f5f5",
+              borderRadius: "8px",
+              textAlign: "center",
+            }}>
+              <div style={{ fontSize: "24px", fontWeight: "bold", color: "#333" }}>
+                {formatCurrency(campaign.committed_cents)}
+              </div>
+              <div style={{ fontSize: "12px", color: "#666" }}>Total Allocated</div>
+            </div>
+            <div style={{
               flex: 1,
               padding: "16px",
               backgroundColor: "#e8f5e9",
@@ -554,6 +1137,172 @@ export default function CampaignDetailPage() {
         </div>
       )}
 
+      {/* Auto-Verification Rules */}
+      <div style={{ maxWidth: "1000px", margin: "0 auto 24px" }}>
+        <h2 style={{ fontSize: "20px", marginBottom: "16px" }}>Auto-Verification</h2>
+        <form
+          onSubmit={handleSaveRules}
+          style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+          }}
+        >
+          <p style={{ color: "#666", margin: "0 0 16px", fontSize: "14px" }}>
+            Submissions passing every rule switched on below are verified without you. The rest stay in your review queue.
+          </p>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer", marginBottom: "16px", fontWeight: "bold" }}>
+            <input type="checkbox" checked={rulesEnabled} onChange={(e) => setRulesEnabled(e.target.checked)} />
+            Verify submissions automatically
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer", marginBottom: "12px" }}>
+            <input type="checkbox" checked={rulesRequirePublic} onChange={(e) => setRulesRequirePublic(e.target.checked)} />
+            Video is public
+          </label>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer", marginBottom: "16px" }}>
+            <input
+              type="checkbox"
+              checked={rulesPostedAfterAcceptance}
+              onChange={(e) => setRulesPostedAfterAcceptance(e.target.checked)}
+            />
+            Posted after the creator accepted the mission
+          </label>
+
+          <div style={{ display: "flex", gap: "16px", marginBottom: "16px" }}>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>Campaign Sound ID</label>
+              <input
+                type="text"
+                value={rulesSoundId}
+                onChange={(e) => setRulesSoundId(e.target.value)}
+                placeholder="Platform sound ID"
+                style={{
+                  width: "100%",
+                  padding: "12px",
+                  fontSize: "16px",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  boxSizing: "border-box",
+                }}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>Required Hashtags</label>
+              <input
+                type="text"
+                value={rulesHashtags}
+                onChange={(e) => setRulesHashtags(e.target.value)}
+                placeholder="#newmusic #fyp"
+                style={{
+                  width: "100%",
+                  padding: "12px",
+                  fontSize: "16px",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  boxSizing: "border-box",
+                }}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: "16px", marginBottom: "16px" }}>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>Minimum Views</label>
+              <input
+                type="number"
+                min="1"
+                value={rulesMinViews}
+                onChange={(e) => setRulesMinViews(e.target.value)}
+                placeholder="10000"
+                style={{
+                  width: "100%",
+                  padding: "12px",
+                  fontSize: "16px",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  boxSizing: "border-box",
+                }}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>Within (hours after posting)</label>
+              <input
+                type="number"
+                min="1"
+                value={rulesWindowHours}
+                onChange={(e) => setRulesWindowHours(e.target.value)}
+                placeholder="48"
+                style={{
+                  width: "100%",
+                  padding: "12px",
+                  fontSize: "16px",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  boxSizing: "border-box",
+                }}
+              />
+            </div>
+          </div>
+
+          <div style={{ borderTop: "1px solid #eee", paddingTop: "16px", marginBottom: "16px" }}>
+            <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+              Approve unreviewed submissions after (hours)
+            </label>
+            <input
+              type="number"
+              min="2"
+              value={rulesReviewSla}
+              onChange={(e) => setRulesReviewSla(e.target.value)}
+              placeholder="72"
+              style={{
+                width: "100%",
+                padding: "12px",
+                fontSize: "16px",
+                border: "1px solid #ccc",
+                borderRadius: "4px",
+                boxSizing: "border-box",
+                marginBottom: "8px",
+              }}
+            />
+            <div style={{ color: "#666", fontSize: "12px", marginBottom: "12px" }}>
+              You get a reminder before the deadline. Leave empty to always wait for your review.
+            </div>
+            <label style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer" }}>
+              <input type="checkbox" checked={rulesAutoPay} onChange={(e) => setRulesAutoPay(e.target.checked)} />
+              Also pay the creator when a submission is approved this way
+            </label>
+          </div>
+
+          {rulesError && (
+            <div style={{ color: "#c62828", fontSize: "14px", marginBottom: "12px" }}>{rulesError}</div>
+          )}
+          {rulesSaved && (
+            <div style={{ color: "#2e7d32", fontSize: "14px", marginBottom: "12px" }}>Rules saved</div>
+          )}
+
+          <button
+            type="submit"
+            disabled={rulesLoading}
+            style={{
+              padding: "12px 24px",
+              backgroundColor: rulesLoading ? "#ccc" : "#0070f3",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: rulesLoading ? "not-allowed" : "pointer",
+              fontSize: "14px",
+              fontWeight: "bold",
+            }}
+          >
+            {rulesLoading ? "Saving..." : "Save Rules"}
+          </button>
+        </form>
+      </div>
+
       {/* Missions List */}
       <div style={{ maxWidth: "1000px", margin: "0 auto" }}>
         <h2 style={{ fontSize: "20px", marginBottom: "16px" }}>Missions</h2>
@@ -605,24 +1354,19 @@ export default function CampaignDetailPage() {
                         {mission.brief}
                       </p>
                     )}
-                    {mission.submission && (
-                      <div style={{
-                        marginTop: "12px",
-                        padding: "12px",
-                        backgroundColor: "#f5f5f5",
-                        borderRadius: "4px",
-                      }}>
-                        <div style={{ fontSize: "12px", color: "#666", marginBottom: "4px" }}>
-                          Submission:
-                        </div>
-                        <a
-                          href={mission.submission.tiktok_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          style={{ color: "#0070f3", wordBreak: "break-all" }}
-                        >
-                          {mission.submission.tiktok_url}
-                        </a>
+                    {(mission.state === "OPEN" || mission.state === "APPLICATIONS_OPEN") && mission.accept_by && (
+                      <div style={{ color: "#ef6c00", fontSize: "14px", marginTop: "8px" }}>
+                        Stops taking creators {new Date(mission.accept_by).toLocaleString()}
+                      </div>
+                    )}
+                    <div style={{ color: "#666", fontSize: "14px", marginTop: "8px" }}>
+                      {mission.slots_taken}/{mission.slots} {mission.slots === 1 ? "slot" : "slots"} taken
+                      {" · "}
+                      {mission.platforms.map((platform) => platformLabels[platform] || platform).join(", ")}
+                    </div>
+                    {mission.bonus_tiers.length > 0 && (
+                      <div style={{ color: "#2e7d32", fontSize: "14px", marginTop: "8px" }}>
+                        Bonuses: {formatBonusTiers(mission.bonus_tiers)}
                       </div>
                     )}
                     <div style={{ color: "#999", fontSize: "12px", marginTop: "8px" }}>
@@ -630,72 +1374,364 @@ export default function CampaignDetailPage() {
                     </div>
                   </div>
                   <div style={{ display: "flex", gap: "8px" }}>
-                    {mission.state === "SUBMITTED" && (
-                      <>
-                        <button
-                          onClick={() => handleVerify(mission.id)}
-                          disabled={actionLoading === mission.id}
-                          style={{
-                            padding: "8px 16px",
-                            backgroundColor: actionLoading === mission.id ? "#ccc" : "#28a745",
-                            color: "white",
-                            border: "none",
-                            borderRadius: "4px",
-                            cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
-                            fontSize: "14px",
-                          }}
-                        >
-                          Verify
-                        </button>
-                        <button
-                          onClick={() => handleReject(mission.id)}
-                          disabled={actionLoading === mission.id}
-                          style={{
-                            padding: "8px 16px",
-                            backgroundColor: actionLoading === mission.id ? "#ccc" : "#dc3545",
-                            color: "white",
-                            border: "none",
-                            borderRadius: "4px",
-                            cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
-                            fontSize: "14px",
-                          }}
-                        >
-                          Reject
-                        </button>
-                      </>
-                    )}
-                    {mission.state === "VERIFIED" && (
+                    {(mission.state === "OPEN" || mission.state === "APPLICATIONS_OPEN") && (
                       <button
-                        onClick={() => handlePayout(mission.id)}
+                        onClick={() => handleCancel(mission.id)}
                         disabled={actionLoading === mission.id}
                         style={{
                           padding: "8px 16px",
-                          backgroundColor: actionLoading === mission.id ? "#ccc" : "#0070f3",
+                          backgroundColor: actionLoading === mission.id ? "#ccc" : "#6c757d",
                           color: "white",
                           border: "none",
                           borderRadius: "4px",
                           cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
                           fontSize: "14px",
-                          fontWeight: "bold",
                         }}
                       >
-                        {actionLoading === mission.id ? "Processing..." : "Pay Creator"}
+                        Cancel
                       </button>
                     )}
-                    {mission.state === "PAID" && (
-                      <span style={{
-                        padding: "8px 16px",
-                        backgroundColor: "#e8f5e9",
-                        color: "#1b5e20",
-                        borderRadius: "4px",
-                        fontSize: "14px",
-                        fontWeight: "bold",
-                      }}>
-                        Paid ✓
-                      </span>
-                    )}
                   </div>
                 </div>
+
+                {mission.applications && mission.applications.some((a) => a.status === "PENDING") && (
+                  <div style={{ marginTop: "16px" }}>
+                    <div style={{ fontSize: "14px", color: "#666", marginBottom: "8px" }}>
+                      Applicants
+                    </div>
+                    <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+                      {mission.applications
+                        .filter((application) => application.status === "PENDING")
+                        .map((application) => (
+                          <div
+                            key={application.id}
+                            style={{
+                              display: "flex",
+                              justifyContent: "space-between",
+                              alignItems: "flex-start",
+                              padding: "12px",
+                              border: "1px solid #b2ebf2",
+                              borderRadius: "4px",
+                              backgroundColor: "#f5fdfe",
+                            }}
+                          >
+                            <div style={{ flex: 1 }}>
+                              <div style={{ fontSize: "13px", color: "#666" }}>
+                                Creator {application.creator_id.slice(0, 8)} · applied {new Date(application.created_at).toLocaleDateString()}
+                              </div>
+                              <div style={{ fontSize: "14px", marginTop: "4px", whiteSpace: "pre-wrap" }}>
+                                {application.pitch}
+                              </div>
+                            </div>
+                            <div style={{ display: "flex", gap: "8px" }}>
+                              <button
+                                onClick={() => handleApplicationDecision(application.id, "approve")}
+                                disabled={actionLoading === application.id || mission.slots_taken >= mission.slots}
+                                title={mission.slots_taken >= mission.slots ? "All slots are taken" : undefined}
+                                style={{
+                                  padding: "8px 16px",
+                                  backgroundColor:
+                                    actionLoading === application.id || mission.slots_taken >= mission.slots ? "#ccc" : "#28a745",
+                                  color: "white",
+                                  border: "none",
+                                  borderRadius: "4px",
+                                  cursor:
+                                    actionLoading === application.id || mission.slots_taken >= mission.slots
+                                      ? "not-allowed"
+                                      : "pointer",
+                                  fontSize: "14px",
+                                }}
+                              >
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => handleApplicationDecision(application.id, "reject")}
+                                disabled={actionLoading === application.id}
+                                style={{
+                                  padding: "8px 16px",
+                                  backgroundColor: actionLoading === application.id ? "#ccc" : "#dc3545",
+                                  color: "white",
+                                  border: "none",
+                                  borderRadius: "4px",
+                                  cursor: actionLoading === application.id ? "not-allowed" : "pointer",
+                                  fontSize: "14px",
+                                }}
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
+                {mission.assignments && mission.assignments.length > 0 && (
+                  <div style={{ marginTop: "16px", display: "flex", flexDirection: "column", gap: "8px" }}>
+                    {mission.assignments.map((assignment) => (
+                      <div
+                        key={assignment.id}
+                        style={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          alignItems: "flex-start",
+                          padding: "12px",
+                          border: "1px solid #eee",
+                          borderRadius: "4px",
+                        }}
+                      >
+                        <div style={{ flex: 1 }}>
+                          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                            <span style={{ fontSize: "13px", color: "#666" }}>
+                              Creator {assignment.creator_id.slice(0, 8)}
+                            </span>
+                            <span
+                              style={{
+                                padding: "2px 8px",
+                                borderRadius: "4px",
+                                fontSize: "12px",
+                                fontWeight: "bold",
+                                backgroundColor: statusColors[assignment.state]?.bg || "#eee",
+                                color: statusColors[assignment.state]?.text || "#333",
+                              }}
+                            >
+                              {assignment.state}
+                            </span>
+                          </div>
+                          {assignment.submissions && assignment.submissions.length > 0 && (
+                            <div style={{
+                              marginTop: "12px",
+                              padding: "12px",
+                              backgroundColor: "#f5f5f5",
+                              borderRadius: "4px",
+                            }}>
+                              <div style={{ fontSize: "12px", color: "#666", marginBottom: "4px" }}>
+                                {assignment.submissions.length > 1 ? "Submission history:" : "Submission:"}
+                              </div>
+                              {[...assignment.submissions].reverse().map((submission) => (
+                                <div key={submission.id} style={{ marginBottom: "8px" }}>
+                                  <div style={{ fontSize: "12px", color: "#999" }}>
+                                    v{submission.version} · {new Date(submission.created_at).toLocaleString()}
+                                    {submission.decision && (
+                                      <span style={{
+                                        marginLeft: "8px",
+                                        fontWeight: "bold",
+                                        color: statusColors[submission.decision]?.text || "#333",
+                                      }}>
+                                        {submission.decision}
+                                        {submission.decision_source === "AUTO_RULES" && " (by rules)"}
+                                        {submission.decision_source === "REVIEW_SLA" && " (review window passed)"}
+                                        {submission.decision_source === "ADMIN" && " (by the platform)"}
+                                      </span>
+                                    )}
+                                    {!submission.decision && reviewSlaHours !== null && assignment.state === "SUBMITTED" && (
+                                      <span style={{ marginLeft: "8px", color: "#ef6c00" }}>
+                                        Auto-approves{" "}
+                                        {new Date(
+                                          new Date(submission.created_at).getTime() + reviewSlaHours * 60 * 60 * 1000
+                                        ).toLocaleString()}
+                                      </span>
+                                    )}
+                                  </div>
+                                  <span style={{ fontSize: "13px", color: "#666", marginRight: "6px" }}>
+                                    {platformLabels[submission.platform] || submission.platform}:
+                                  </span>
+                                  <a
+                                    href={submission.video_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    style={{ color: "#0070f3", wordBreak: "break-all" }}
+                                  >
+                                    {submission.video_url}
+                                  </a>
+                                  {submission.duplicate_of_submission_id && (
+                                    <div style={{ fontSize: "13px", color: "#b71c1c", marginTop: "2px" }}>
+                                      ⚠ Already submitted for another mission and rejected there
+                                    </div>
+                                  )}
+                                  {submissionMetrics[submission.id]?.length > 0 && (
+                                    <div style={{ fontSize: "13px", color: "#333", marginTop: "2px" }}>
+                                      {formatMetrics(submissionMetrics[submission.id])}
+                                    </div>
+                                  )}
+                                  {submission.auto_verification && !submission.decision && (
+                                    <div style={{ fontSize: "13px", color: "#555", marginTop: "2px" }}>
+                                      Auto-check ({new Date(submission.auto_verification.checked_at).toLocaleString()}):{" "}
+                                      {submission.auto_verification.checks
+                                        .map((check) => `${check.passed === true ? "✓" : check.passed === false ? "✗" : "…"} ${check.detail}`)
+                                        .join(" · ")}
+                                    </div>
+                                  )}
+                                  {submission.rejection_reason && (
+                                    <div style={{ fontSize: "13px", color: "#c62828", marginTop: "2px" }}>
+                                      Rejected: {rejectionReasonLabels[submission.rejection_reason] || submission.rejection_reason}
+                                    </div>
+                                  )}
+                                  {submission.reviewer_notes && (
+                                    <div style={{ fontSize: "13px", color: "#555", marginTop: "2px" }}>
+                                      Notes: {submission.reviewer_notes}
+                                    </div>
+                                  )}
+                                  {assignment.disputes
+                                    ?.filter((dispute) => dispute.submission_id === submission.id)
+                                    .map((dispute) => (
+                                      <div key={dispute.id} style={{ fontSize: "13px", color: "#ad1457", marginTop: "2px" }}>
+                                        Disputed by the creator: {dispute.reason}
+                                        <div style={{ color: "#555" }}>
+                                          {dispute.status === "OPEN"
+                                            ? "Awaiting review by the platform"
+                                            : `${dispute.status === "OVERTURNED" ? "Rejection overturned" : "Rejection upheld"}: ${dispute.resolution_note}`}
+                                        </div>
+                                      </div>
+                                    ))}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {assignment.state === "CHANGES_REQUESTED" && assignment.revision_feedback && (
+                            <div style={{ color: "#e65100", fontSize: "14px", marginTop: "8px" }}>
+                              Changes requested ({assignment.revision_count}/{mission.max_revisions}): {assignment.revision_feedback}
+                            </div>
+                          )}
+                          {assignment.state === "ACCEPTED" && assignment.submit_by && (
+                            <div style={{ color: "#ef6c00", fontSize: "14px", marginTop: "8px" }}>
+                              Submission due {new Date(assignment.submit_by).toLocaleString()}
+                            </div>
+                          )}
+                          {assignment.state === "PAYOUT_FAILED" && (
+                            <div style={{ color: "#b71c1c", fontSize: "14px", marginTop: "8px" }}>
+                              Payout failed: {assignment.payout_failure_reason || "Unknown reason"}
+                            </div>
+                          )}
+                        </div>
+                        <div style={{ display: "flex", gap: "8px" }}>
+                          {assignment.state === "SUBMITTED" && (
+                            <>
+                              <button
+                                onClick={() => handleVerify(assignment.id)}
+                                disabled={actionLoading === assignment.id}
+                                style={{
+                                  padding: "8px 16px",
+                                  backgroundColor: actionLoading === assignment.id ? "#ccc" : "#28a745",
+                                  color: "white",
+                                  border: "none",
+                                  borderRadius: "4px",
+                                  cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
+                                  fontSize: "14px",
+                                }}
+                              >
+                                Verify
+                              </button>
+                              <button
+                                onClick={() => handleRequestChanges(assignment.id)}
+                                disabled={actionLoading === assignment.id || assignment.revision_count >= mission.max_revisions}
+                                title="Send back to the creator with feedback"
+                                style={{
+                                  padding: "8px 16px",
+                                  backgroundColor:
+                                    actionLoading === assignment.id || assignment.revision_count >= mission.max_revisions ? "#ccc" : "#ff9800",
+                                  color: "white",
+                                  border: "none",
+                                  borderRadius: "4px",
+                                  cursor:
+                                    actionLoading === assignment.id || assignment.revision_count >= mission.max_revisions
+                                      ? "not-allowed"
+                                      : "pointer",
+                                  fontSize: "14px",
+                                }}
+                              >
+                                Request Changes ({assignment.revision_count}/{mission.max_revisions})
+                              </button>
+                              <button
+                                onClick={() => openRejectModal(assignment.id)}
+                                disabled={actionLoading === assignment.id}
+                                style={{
+                                  padding: "8px 16px",
+                                  backgroundColor: actionLoading === assignment.id ? "#ccc" : "#dc3545",
+                                  color: "white",
+                                  border: "none",
+                                  borderRadius: "4px",
+                                  cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
+                                  fontSize: "14px",
+                                }}
+                              >
+                                Reject
+                              </button>
+                            </>
+                          )}
+                          {(assignment.state === "VERIFIED" || assignment.state === "PAYOUT_FAILED") && (
+                            <button
+                              onClick={() => handlePayout(assignment.id)}
+                              disabled={actionLoading === assignment.id}
+                              style={{
+                                padding: "8px 16px",
+                                backgroundColor: actionLoading === assignment.id ? "#ccc" : "#0070f3",
+                                color: "white",
+                                border: "none",
+                                borderRadius: "4px",
+                                cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
+                                fontSize: "14px",
+                                fontWeight: "bold",
+                              }}
+                            >
+                              {actionLoading === assignment.id
+                                ? "Processing..."
+                                : assignment.state === "PAYOUT_FAILED" ? "Retry Payout" : "Pay Creator"}
+                            </button>
+                          )}
+                          {assignment.state === "PAID" && (
+                            <span style={{
+                              padding: "8px 16px",
+                              backgroundColor: "#e8f5e9",
+                              color: "#1b5e20",
+                              borderRadius: "4px",
+                              fontSize: "14px",
+                              fontWeight: "bold",
+                            }}>
+                              Paid ✓
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div style={{ marginTop: "12px" }}>
+                  <button
+                    onClick={() => handleToggleHistory(mission.id)}
+                    style={{
+                      color: "#0070f3",
+                      background: "none",
+                      border: "none",
+                      padding: 0,
+                      cursor: "pointer",
+                      fontSize: "13px",
+                    }}
+                  >
+                    {historyMissionId === mission.id ? "Hide history" : "Show history"}
+                  </button>
+                  {historyMissionId === mission.id && (
+                    <div style={{ marginTop: "8px", padding: "8px", backgroundColor: "#fafafa", borderRadius: "4px" }}>
+                      {missionEvents.length === 0 ? (
+                        <div style={{ fontSize: "13px", color: "#999" }}>No state changes recorded yet.</div>
+                      ) : (
+                        missionEvents.map((event) => (
+                          <div key={event.id} style={{ fontSize: "13px", color: "#555", marginBottom: "4px" }}>
+                            <span style={{ color: "#999" }}>{new Date(event.created_at).toLocaleString()}</span>
+                            {" · "}
+                            {event.assignment_id
+                              ? `Creator ${mission.assignments?.find((a) => a.id === event.assignment_id)?.creator_id.slice(0, 8) ?? "?"}`
+                              : "Mission"}
+                            {": "}
+                            {event.from_state} → <strong>{event.to_state}</strong> {eventActorLabels[event.actor]}
+                            {event.reason && <span style={{ color: "#777" }}> – {event.reason}</span>}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
             ))}
           </div>
@@ -804,6 +1840,126 @@ export default function CampaignDetailPage() {
                 />
               </div>
 
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Creator Slots
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={missionSlots}
+                  onChange={(e) => setMissionSlots(e.target.value)}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+                <div style={{ fontSize: "12px", color: "#666", marginTop: "4px" }}>
+                  Each creator who takes a slot is paid the full payout, so the budget for every slot is reserved.
+                </div>
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+                <div style={{ flex: 1 }}>
+                  <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                    Accept By (optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={missionAcceptBy}
+                    onChange={(e) => setMissionAcceptBy(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: "12px",
+                      fontSize: "16px",
+                      border: "1px solid #ccc",
+                      borderRadius: "4px",
+                      boxSizing: "border-box",
+                    }}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                    Hours to Submit (optional)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={missionSubmitWindow}
+                    onChange={(e) => setMissionSubmitWindow(e.target.value)}
+                    placeholder="72"
+                    style={{
+                      width: "100%",
+                      padding: "12px",
+                      fontSize: "16px",
+                      border: "1px solid #ccc",
+                      borderRadius: "4px",
+                      boxSizing: "border-box",
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <div style={{ marginBottom: "8px", fontWeight: "bold" }}>Accepted Platforms</div>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: "16px" }}>
+                  {Object.entries(platformLabels).map(([platform, label]) => (
+                    <label key={platform} style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer" }}>
+                      <input
+                        type="checkbox"
+                        checked={missionPlatforms.includes(platform)}
+                        onChange={(e) =>
+                          setMissionPlatforms((current) =>
+                            e.target.checked ? [...current, platform] : current.filter((p) => p !== platform)
+                          )
+                        }
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  View Bonuses (optional)
+                </label>
+                <input
+                  type="text"
+                  value={missionBonusTiers}
+                  onChange={(e) => setMissionBonusTiers(e.target.value)}
+                  placeholder="10000:20, 100000:50"
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+                <div style={{ color: "#666", fontSize: "12px", marginTop: "4px" }}>
+                  Views:dollars pairs. Paid once a verified video reaches the view count, from whatever budget is left.
+                </div>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer" }}>
+                  <input
+                    type="checkbox"
+                    checked={missionRequireApplication}
+                    onChange={(e) => setMissionRequireApplication(e.target.checked)}
+                  />
+                  Creators apply with a pitch and I pick who gets a slot
+                </label>
+              </div>
+
               <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
                 <button
                   type="button"
@@ -843,6 +1999,228 @@ export default function CampaignDetailPage() {
         </div>
       )}
 
+      {/* Top Up Modal */}
+      {showTopUpModal && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 16px", fontSize: "20px" }}>Top Up Campaign</h2>
+
+            {topUpError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {topUpError}
+              </div>
+            )}
+
+            <form onSubmit={handleTopUp}>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Additional Budget (USD)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="1"
+                  value={topUpAmount}
+                  onChange={(e) => setTopUpAmount(e.target.value)}
+                  placeholder="100.00"
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setShowTopUpModal(false)}
+                  disabled={topUpLoading}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#f5f5f5",
+                    color: "#333",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    cursor: topUpLoading ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={topUpLoading || !topUpAmount}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: topUpLoading || !topUpAmount ? "#ccc" : "#ff9800",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: topUpLoading || !topUpAmount ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {topUpLoading ? "Loading..." : "Continue to Payment"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Modal */}
+      {rejectAssignmentId && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 8px", fontSize: "20px" }}>Reject Submission</h2>
+            <p style={{ margin: "0 0 16px", color: "#666", fontSize: "14px" }}>
+              The creator sees your reason and notes, and can dispute the rejection within 72 hours.
+            </p>
+
+            {rejectError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {rejectError}
+              </div>
+            )}
+
+            <form onSubmit={handleReject}>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Reason
+                </label>
+                <select
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                >
+                  {Object.entries(rejectionReasonLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Notes for the creator
+                </label>
+                <textarea
+                  value={rejectNotes}
+                  onChange={(e) => setRejectNotes(e.target.value)}
+                  maxLength={2000}
+                  rows={4}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setRejectAssignmentId(null)}
+                  disabled={actionLoading === rejectAssignmentId}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#f5f5f5",
+                    color: "#333",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    cursor: actionLoading === rejectAssignmentId ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={actionLoading === rejectAssignmentId || !rejectNotes.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: actionLoading === rejectAssignmentId || !rejectNotes.trim() ? "#ccc" : "#dc3545",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: actionLoading === rejectAssignmentId || !rejectNotes.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {actionLoading === rejectAssignmentId ? "Rejecting..." : "Reject"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Stripe Checkout Modal */}
       {showCheckout && clientSecret && campaign && (
         <div style={{
@@ -866,7 +2244,7 @@ export default function CampaignDetailPage() {
             margin: "20px",
           }}>
             <h2 style={{ margin: "0 0 8px", fontSize: "20px" }}>
-              Fund Campaign
+              {checkoutAmount !== null ? "Top Up Campaign" : "Fund Campaign"}
             </h2>
             <p style={{ color: "#666", marginBottom: "20px" }}>
               {campaign.title}
@@ -874,7 +2252,7 @@ export default function CampaignDetailPage() {
 
             <StripeCheckout
               clientSecret={clientSecret}
-              amount={campaign.budget_cents}
+              amount={checkoutAmount ?? campaign.budget_cents}
               onSuccess={handleCheckoutSuccess}
               onCancel={handleCheckoutCancel}
             />
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase/client";
 import type { Session } from "@supabase/supabase-js";
 import dynamic from "next/dynamic";
+import CreatorProfileCard, { type CreatorProfile } from "@/components/CreatorProfileCard";
 
 const StripeCheckout = dynamic(() => import("@/components/StripeCheckout"), {
   ssr: false,
@@ -19,40 +20,103 @@ interface Campaign {
   budget_cents: number;
   currency: string;
   payment_intent_id: string | null;
-  payment_status: "PENDING" | "FUNDED" | "REFUNDED";
+  payment_status: "PENDING" | "FUNDED" | "PARTIALLY_REFUNDED" | "REFUNDED";
+  cancelled_at: string | null;
   created_at: string;
 }
 
 interface Mission {
   id: string;
   campaign_id: number;
-  creator_id: string | null;
   title: string;
   brief: string | null;
   state: string;
   payout_cents: number;
+  slots: number;
+  slots_taken: number;
+  max_revisions: number;
   created_at: string;
   updated_at: string;
 }
 
-interface MissionWithSubmission extends Mission {
+interface Assignment {
+  id: string;
+  mission_id: string;
+  campaign_id: number;
+  creator_id: string;
+  state: string;
+  revision_count: number;
+  revision_feedback: string | null;
+  payout_failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  mission: Mission;
+}
+
+interface AssignmentWithSubmission extends Assignment {
   submission?: {
     id: string;
     mission_id: string;
-    tiktok_url: string;
+    version: number;
+    platform: string;
+    video_url: string;
+    duplicate_of_submission_id: string | null;
     created_at: string;
   } | null;
 }
 
-type TabType = "campaigns" | "reviews" | "payouts";
+interface ArtistProfile {
+  user_id: number;
+  display_name: string;
+  genre: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  links: string[];
+  track_title: string | null;
+  track_url: string | null;
+}
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+type TabType = "campaigns" | "reviews" | "payouts" | "profile";
+
+const platformLabels: Record<string, string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM_REELS: "Instagram Reels",
+  YOUTUBE_SHORTS: "YouTube Shorts",
+  X: "X",
+};
 
 const statusColors: Record<string, { bg: string; text: string }> = {
   OPEN: { bg: "#e3f2fd", text: "#1565c0" },
+  APPLICATIONS_OPEN: { bg: "#e0f7fa", text: "#00838f" },
   ACCEPTED: { bg: "#fff3e0", text: "#ef6c00" },
   SUBMITTED: { bg: "#f3e5f5", text: "#7b1fa2" },
+  CHANGES_REQUESTED: { bg: "#fff3e0", text: "#e65100" },
   VERIFIED: { bg: "#e8f5e9", text: "#2e7d32" },
   PAID: { bg: "#e8f5e9", text: "#1b5e20" },
   REJECTED: { bg: "#ffebee", text: "#c62828" },
+  CANCELLED: { bg: "#eeeeee", text: "#616161" },
+  PAYOUT_FAILED: { bg: "#fff8e1", text: "#b71c1c" },
+  EXPIRED: { bg: "#eeeeee", text: "#9e9e9e" },
+  DISPUTED: { bg: "#fce4ec", text: "#ad1457" },
+};
+
+const rejectionReasonLabels: Record<string, string> = {
+  NOT_POSTED: "Video not posted",
+  BRIEF_NOT_FOLLOWED: "Brief not followed",
+  WRONG_SOUND: "Wrong sound",
+  LOW_QUALITY: "Low quality",
+  INAPPROPRIATE: "Inappropriate content",
+  DUPLICATE: "Duplicate video",
+  OTHER: "Other",
 };
 
 type UserRole = "ARTIST" | "CREATOR";
@@ -63,11 +127,14 @@ export default function ArtistDashboard() {
   const [loading, setLoading] = useState(true);
   const [accessDenied, setAccessDenied] = useState(false);
   const [userRoles, setUserRoles] = useState<UserRole[]>([]);
+  const [userId, setUserId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>("campaigns");
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [campaignMissions, setCampaignMissions] = useState<Record<number, Mission[]>>({});
-  const [pendingReviews, setPendingReviews] = useState<MissionWithSubmission[]>([]);
-  const [pendingPayouts, setPendingPayouts] = useState<Mission[]>([]);
+  const [pendingReviews, setPendingReviews] = useState<AssignmentWithSubmission[]>([]);
+  const [pendingPayouts, setPendingPayouts] = useState<Assignment[]>([]);
+  const [creatorProfiles, setCreatorProfiles] = useState<Record<string, CreatorProfile | null>>({});
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [expandedCampaign, setExpandedCampaign] = useState<number | null>(null);
@@ -88,6 +155,24 @@ export default function ArtistDashboard() {
   const [missionError, setMissionError] = useState<string | null>(null);
   const [missionLoading, setMissionLoading] = useState(false);
 
+  // Profile form state
+  const [profileDisplayName, setProfileDisplayName] = useState("");
+  const [profileGenre, setProfileGenre] = useState("");
+  const [profileBio, setProfileBio] = useState("");
+  const [profileAvatarUrl, setProfileAvatarUrl] = useState("");
+  const [profileLinks, setProfileLinks] = useState("");
+  const [profileTrackTitle, setProfileTrackTitle] = useState("");
+  const [profileTrackUrl, setProfileTrackUrl] = useState("");
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileSaved, setProfileSaved] = useState(false);
+  const [profileLoading, setProfileLoading] = useState(false);
+
+  // Reject modal state
+  const [rejectAssignmentId, setRejectAssignmentId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("BRIEF_NOT_FOLLOWED");
+  const [rejectNotes, setRejectNotes] = useState("");
+  const [rejectError, setRejectError] = useState<string | null>(null);
+
   // Checkout modal state
   const [checkoutCampaign, setCheckoutCampaign] = useState<Campaign | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
@@ -114,6 +199,7 @@ export default function ArtistDashboard() {
       // Store user roles
       const roles: UserRole[] = user.roles || (user.role ? [user.role] : []);
       setUserRoles(roles);
+      setUserId(user.id);
 
       // Check if user has ARTIST role
       if (!roles.includes("ARTIST")) {
@@ -188,36 +274,129 @@ export default function ArtistDashboard() {
         setCampaignMissions(missionsMap);
       }
 
-      // Fetch pending reviews (SUBMITTED missions)
-      const reviewsRes = await fetch("/api/missions?state=SUBMITTED");
+      // Fetch pending reviews (SUBMITTED assignments)
+      const reviewsRes = await fetch("/api/assignments?state=SUBMITTED");
       if (reviewsRes.ok) {
         const data = await reviewsRes.json();
-        const submittedMissions = Array.isArray(data) ? data : data.data || [];
+        const submittedAssignments = Array.isArray(data) ? data : data.data || [];
 
         // Fetch submission details for each
-        const reviewsWithSubmissions: MissionWithSubmission[] = [];
-        for (const mission of submittedMissions) {
-          const detailRes = await fetch(`/api/missions/${mission.id}`);
+        const reviewsWithSubmissions: AssignmentWithSubmission[] = [];
+        for (const assignment of submittedAssignments) {
+          const detailRes = await fetch(`/api/assignments/${assignment.id}`);
           if (detailRes.ok) {
             const detail = await detailRes.json();
             reviewsWithSubmissions.push(detail);
           }
         }
         setPendingReviews(reviewsWithSubmissions);
+
+        // Fetch the profile of each creator with a submission to review
+        const profiles: Record<string, CreatorProfile | null> = {};
+        for (const creatorId of Array.from(new Set(reviewsWithSubmissions.map((a) => a.creator_id)))) {
+          const profileRes = await fetch(`/api/creators/${creatorId}`);
+          profiles[creatorId] = profileRes.ok ? await profileRes.json() : null;
+        }
+        setCreatorProfiles(profiles);
+      }
+
+      // Fetch my artist profile for the profile form
+      if (userId !== null) {
+        const profileRes = await fetch(`/api/artists/${userId}`);
+        if (profileRes.ok) {
+          applyProfile(await profileRes.json());
+        }
+      }
+
+      // Fetch pending payouts (VERIFIED assignments, plus failed/reversed payouts to retry)
+      const payoutAssignments: Assignment[] = [];
+      for (const state of ["PAYOUT_FAILED", "VERIFIED"]) {
+        const payoutsRes = await fetch(`/api/assignments?state=${state}`);
+        if (payoutsRes.ok) {
+          const data = await payoutsRes.json();
+          payoutAssignments.push(...(Array.isArray(data) ? data : data.data || []));
+        }
       }
+      setPendingPayouts(payoutAssignments);
 
-      // Fetch pending payouts (VERIFIED missions)
-      const payoutsRes = await fetch("/api/missions?state=VERIFIED");
-      if (payoutsRes.ok) {
-        const data = await payoutsRes.json();
-        const verifiedMissions = Array.isArray(data) ? data : data.data || [];
-        setPendingPayouts(verifiedMissions);
+      // Unread notifications, e.g. review deadlines coming up
+      const notificationsRes = await fetch("/api/notifications?unread=true", {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (notificationsRes.ok) {
+        setNotifications(await notificationsRes.json());
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch data");
     }
   };
 
+  const handleDismissNotification = async (notificationId: string) => {
+    if (!session) return;
+
+    try {
+      await fetch(`/api/notifications/${notificationId}/read`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+      setNotifications((current) => current.filter((n) => n.id !== notificationId));
+    } catch (err) {
+      console.error("Failed to dismiss notification:", err);
+    }
+  };
+
+  const applyProfile = (profile: ArtistProfile) => {
+    setProfileDisplayName(profile.display_name);
+    setProfileGenre(profile.genre || "");
+    setProfileBio(profile.bio || "");
+    setProfileAvatarUrl(profile.avatar_url || "");
+    setProfileLinks(profile.links.join("\n"));
+    setProfileTrackTitle(profile.track_title || "");
+    setProfileTrackUrl(profile.track_url || "");
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || userId === null) return;
+
+    setProfileLoading(true);
+    setProfileError(null);
+    setProfileSaved(false);
+
+    try {
+      const res = await fetch(`/api/artists/${userId}`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          displayName: profileDisplayName,
+          genre: profileGenre.trim() || null,
+          bio: profileBio.trim() || null,
+          avatarUrl: profileAvatarUrl.trim() || null,
+          links: profileLinks.split("\n").map((link) => link.trim()).filter(Boolean),
+          trackTitle: profileTrackTitle.trim() || null,
+          trackUrl: profileTrackUrl.trim() || null,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save profile");
+      }
+
+      applyProfile(data);
+      setProfileSaved(true);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setProfileLoading(false);
+    }
+  };
+
   const handleCreateCampaign = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session) return;
@@ -348,14 +527,14 @@ export default function ArtistDashboard() {
     setClientSecret(null);
   };
 
-  const handleVerify = async (missionId: string) => {
+  const handleVerify = async (assignmentId: string) => {
     if (!session) return;
 
-    setActionLoading(missionId);
+    setActionLoading(assignmentId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/verify`, {
+      const res = await fetch(`/api/assignments/${assignmentId}/verify`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
@@ -376,19 +555,60 @@ export default function ArtistDashboard() {
     }
   };
 
-  const handleReject = async (missionId: string) => {
+  const handleRequestChanges = async (assignmentId: string) => {
     if (!session) return;
 
-    setActionLoading(missionId);
+    const feedback = window.prompt("What should the creator change?");
+    if (!feedback || !feedback.trim()) return;
+
+    setActionLoading(assignmentId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/reject`, {
+      const res = await fetch(`/api/assignments/${assignmentId}/request-changes`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ feedback }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to request changes");
+      }
+
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request changes");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const openRejectModal = (assignmentId: string) => {
+    setRejectAssignmentId(assignmentId);
+    setRejectReason("BRIEF_NOT_FOLLOWED");
+    setRejectNotes("");
+    setRejectError(null);
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !rejectAssignmentId) return;
+
+    setActionLoading(rejectAssignmentId);
+    setRejectError(null);
+
+    try {
+      const res = await fetch(`/api/assignments/${rejectAssignmentId}/reject`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ reason: rejectReason, notes: rejectNotes }),
       });
 
       if (!res.ok) {
@@ -396,22 +616,23 @@ export default function ArtistDashboard() {
         throw new Error(data.error || "Failed to reject mission");
       }
 
+      setRejectAssignmentId(null);
       await fetchData();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to reject mission");
+      setRejectError(err instanceof Error ? err.message : "Failed to reject mission");
     } finally {
       setActionLoading(null);
     }
   };
 
-  const handlePayout = async (missionId: string) => {
+  const handlePayout = async (assignmentId: string) => {
     if (!session) return;
 
-    setActionLoading(missionId);
+    setActionLoading(assignmentId);
     setError(null);
 
     try {
-      const res = await fetch(`/api/missions/${missionId}/payout`, {
+      const res = await fetch(`/api/assignments/${assignmentId}/payout`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
@@ -644,6 +865,49 @@ export default function ArtistDashboard() {
         </div>
       </div>
 
+      {/* Notifications */}
+      {notifications.length > 0 && (
+        <div style={{ maxWidth: "900px", margin: "0 auto 16px", display: "flex", flexDirection: "column", gap: "8px" }}>
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              style={{
+                padding: "12px 16px",
+                backgroundColor:
+                  notification.type === "REVIEW_DEADLINE_APPROACHING" || notification.type === "REVIEW_OVERDUE"
+                    ? "#fff3e0"
+                    : "#e8f5e9",
+                border: "1px solid #ddd",
+                borderRadius: "4px",
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "flex-start",
+                gap: "12px",
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: "bold", fontSize: "14px" }}>{notification.title}</div>
+                {notification.body && (
+                  <div style={{ color: "#555", fontSize: "14px", marginTop: "4px" }}>{notification.body}</div>
+                )}
+              </div>
+              <button
+                onClick={() => handleDismissNotification(notification.id)}
+                style={{
+                  background: "none",
+                  border: "none",
+                  color: "#666",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                }}
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div style={{
@@ -714,6 +978,21 @@ export default function ArtistDashboard() {
           >
             Ready to Pay ({pendingPayouts.length})
           </button>
+          <button
+            onClick={() => setActiveTab("profile")}
+            style={{
+              padding: "12px 24px",
+              fontSize: "16px",
+              backgroundColor: activeTab === "profile" ? "#0070f3" : "transparent",
+              color: activeTab === "profile" ? "white" : "#333",
+              border: "none",
+              borderRadius: "4px 4px 0 0",
+              cursor: "pointer",
+              fontWeight: activeTab === "profile" ? "bold" : "normal",
+            }}
+          >
+            Profile
+          </button>
         </div>
       </div>
 
@@ -802,6 +1081,7 @@ export default function ArtistDashboard() {
                               >
                                 {campaign.payment_status === "FUNDED" && "✓ Funded"}
                                 {campaign.payment_status === "PENDING" && "Awaiting Payment"}
+                                {campaign.payment_status === "PARTIALLY_REFUNDED" && "Partially Refunded"}
                                 {campaign.payment_status === "REFUNDED" && "Refunded"}
                               </span>
                             </div>
@@ -831,7 +1111,7 @@ export default function ArtistDashboard() {
                             </div>
                           </div>
                           <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
-                            {campaign.payment_status === "PENDING" && (
+                            {campaign.payment_status === "PENDING" && !campaign.cancelled_at && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -869,6 +1149,23 @@ export default function ArtistDashboard() {
                             >
                               View Details
                             </button>
+                            <a
+                              href={`/campaigns/${campaign.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              onClick={(e) => e.stopPropagation()}
+                              style={{
+                                padding: "8px 16px",
+                                backgroundColor: "#f5f5f5",
+                                color: "#333",
+                                border: "1px solid #ccc",
+                                borderRadius: "4px",
+                                fontSize: "14px",
+                                textDecoration: "none",
+                              }}
+                            >
+                              Public Page
+                            </a>
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -933,6 +1230,11 @@ export default function ArtistDashboard() {
                                   }}>
                                     {mission.state}
                                   </span>
+                                  {mission.slots > 1 && (
+                                    <span style={{ color: "#666", fontSize: "12px" }}>
+                                      {mission.slots_taken}/{mission.slots} slots taken
+                                    </span>
+                                  )}
                                 </div>
                                 <span style={{ color: "#999", fontSize: "12px" }}>
                                   {new Date(mission.created_at).toLocaleDateString()}
@@ -964,9 +1266,9 @@ export default function ArtistDashboard() {
               </div>
             ) : (
               <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
-                {pendingReviews.map((mission) => (
+                {pendingReviews.map((assignment) => (
                   <div
-                    key={mission.id}
+                    key={assignment.id}
                     style={{
                       backgroundColor: "white",
                       borderRadius: "8px",
@@ -987,7 +1289,7 @@ export default function ArtistDashboard() {
                           marginBottom: "8px",
                         }}>
                           <span style={{ fontSize: "20px", fontWeight: "bold" }}>
-                            {formatCurrency(mission.payout_cents)}
+                            {formatCurrency(assignment.mission.payout_cents)}
                           </span>
                           <span style={{
                             padding: "4px 8px",
@@ -1001,57 +1303,87 @@ export default function ArtistDashboard() {
                           </span>
                         </div>
                         <div style={{ color: "#666", fontSize: "14px", marginBottom: "8px" }}>
-                          Campaign #{mission.campaign_id}
+                          {assignment.mission.title} · Campaign #{assignment.campaign_id}
                         </div>
-                        {mission.submission && (
+                        <CreatorProfileCard profile={creatorProfiles[assignment.creator_id]} />
+                        {assignment.submission && (
                           <div style={{ marginBottom: "12px" }}>
-                            <span style={{ color: "#666", fontSize: "14px" }}>TikTok: </span>
+                            <span style={{ color: "#666", fontSize: "14px" }}>
+                              {platformLabels[assignment.submission.platform] || assignment.submission.platform}
+                              {assignment.submission.version > 1 ? ` (revision ${assignment.submission.version - 1}): ` : ": "}
+                            </span>
                             <a
-                              href={mission.submission.tiktok_url}
+                              href={assignment.submission.video_url}
                               target="_blank"
                               rel="noopener noreferrer"
                               style={{ color: "#0070f3", fontSize: "14px" }}
                             >
-                              {mission.submission.tiktok_url}
+                              {assignment.submission.video_url}
                             </a>
+                            {assignment.submission.duplicate_of_submission_id && (
+                              <div style={{ color: "#b71c1c", fontSize: "13px", marginTop: "4px" }}>
+                                ⚠ This video was already submitted for another mission and rejected there.
+                              </div>
+                            )}
                           </div>
                         )}
                         <div style={{ color: "#999", fontSize: "12px" }}>
-                          Submitted {new Date(mission.updated_at).toLocaleDateString()}
+                          Submitted {new Date(assignment.updated_at).toLocaleDateString()}
                         </div>
                       </div>
                       <div style={{ display: "flex", gap: "8px" }}>
                         <button
-                          onClick={() => handleVerify(mission.id)}
-                          disabled={actionLoading === mission.id}
+                          onClick={() => handleVerify(assignment.id)}
+                          disabled={actionLoading === assignment.id}
+                          style={{
+                            padding: "10px 20px",
+                            backgroundColor: actionLoading === assignment.id ? "#ccc" : "#28a745",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "4px",
+                            cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
+                            fontSize: "14px",
+                            fontWeight: "bold",
+                          }}
+                        >
+                          {actionLoading === assignment.id ? "..." : "Verify"}
+                        </button>
+                        <button
+                          onClick={() => handleRequestChanges(assignment.id)}
+                          disabled={actionLoading === assignment.id || assignment.revision_count >= assignment.mission.max_revisions}
+                          title="Send back to the creator with feedback"
                           style={{
                             padding: "10px 20px",
-                            backgroundColor: actionLoading === mission.id ? "#ccc" : "#28a745",
+                            backgroundColor:
+                              actionLoading === assignment.id || assignment.revision_count >= assignment.mission.max_revisions ? "#ccc" : "#ff9800",
                             color: "white",
                             border: "none",
                             borderRadius: "4px",
-                            cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
+                            cursor:
+                              actionLoading === assignment.id || assignment.revision_count >= assignment.mission.max_revisions
+                                ? "not-allowed"
+                                : "pointer",
                             fontSize: "14px",
                             fontWeight: "bold",
                           }}
                         >
-                          {actionLoading === mission.id ? "..." : "Verify"}
+                          {actionLoading === assignment.id ? "..." : `Request Changes (${assignment.revision_count}/${assignment.mission.max_revisions})`}
                         </button>
                         <button
-                          onClick={() => handleReject(mission.id)}
-                          disabled={actionLoading === mission.id}
+                          onClick={() => openRejectModal(assignment.id)}
+                          disabled={actionLoading === assignment.id}
                           style={{
                             padding: "10px 20px",
-                            backgroundColor: actionLoading === mission.id ? "#ccc" : "#dc3545",
+                            backgroundColor: actionLoading === assignment.id ? "#ccc" : "#dc3545",
                             color: "white",
                             border: "none",
                             borderRadius: "4px",
-                            cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
+                            cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
                             fontSize: "14px",
                             fontWeight: "bold",
                           }}
                         >
-                          {actionLoading === mission.id ? "..." : "Reject"}
+                          {actionLoading === assignment.id ? "..." : "Reject"}
                         </button>
                       </div>
                     </div>
@@ -1076,9 +1408,9 @@ export default function ArtistDashboard() {
               </div>
             ) : (
               <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
-                {pendingPayouts.map((mission) => (
+                {pendingPayouts.map((assignment) => (
                   <div
-                    key={mission.id}
+                    key={assignment.id}
                     style={{
                       backgroundColor: "white",
                       borderRadius: "8px",
@@ -1099,41 +1431,48 @@ export default function ArtistDashboard() {
                           marginBottom: "8px",
                         }}>
                           <span style={{ fontSize: "24px", fontWeight: "bold", color: "#2e7d32" }}>
-                            {formatCurrency(mission.payout_cents)}
+                            {formatCurrency(assignment.mission.payout_cents)}
                           </span>
                           <span style={{
                             padding: "4px 8px",
                             borderRadius: "4px",
                             fontSize: "12px",
                             fontWeight: "bold",
-                            backgroundColor: statusColors.VERIFIED.bg,
-                            color: statusColors.VERIFIED.text,
+                            backgroundColor: statusColors[assignment.state]?.bg || "#eee",
+                            color: statusColors[assignment.state]?.text || "#333",
                           }}>
-                            VERIFIED
+                            {assignment.state}
                           </span>
                         </div>
                         <div style={{ color: "#666", fontSize: "14px", marginBottom: "4px" }}>
-                          Campaign #{mission.campaign_id}
+                          {assignment.mission.title} · Campaign #{assignment.campaign_id}
                         </div>
+                        {assignment.state === "PAYOUT_FAILED" && (
+                          <div style={{ color: "#b71c1c", fontSize: "14px", marginBottom: "4px" }}>
+                            Payout failed: {assignment.payout_failure_reason || "Unknown reason"}
+                          </div>
+                        )}
                         <div style={{ color: "#999", fontSize: "12px" }}>
-                          Verified {new Date(mission.updated_at).toLocaleDateString()}
+                          Updated {new Date(assignment.updated_at).toLocaleDateString()}
                         </div>
                       </div>
                       <button
-                        onClick={() => handlePayout(mission.id)}
-                        disabled={actionLoading === mission.id}
+                        onClick={() => handlePayout(assignment.id)}
+                        disabled={actionLoading === assignment.id}
                         style={{
                           padding: "12px 24px",
-                          backgroundColor: actionLoading === mission.id ? "#ccc" : "#1b5e20",
+                          backgroundColor: actionLoading === assignment.id ? "#ccc" : "#1b5e20",
                           color: "white",
                           border: "none",
                           borderRadius: "4px",
-                          cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
+                          cursor: actionLoading === assignment.id ? "not-allowed" : "pointer",
                           fontSize: "14px",
                           fontWeight: "bold",
                         }}
                       >
-                        {actionLoading === mission.id ? "Processing..." : "Pay Creator"}
+                        {actionLoading === assignment.id
+                          ? "Processing..."
+                          : assignment.state === "PAYOUT_FAILED" ? "Retry Payout" : "Pay Creator"}
                       </button>
                     </div>
                   </div>
@@ -1142,6 +1481,231 @@ export default function ArtistDashboard() {
             )}
           </div>
         )}
+
+        {activeTab === "profile" && (
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+          }}>
+            <p style={{ color: "#666", marginTop: 0, marginBottom: "16px" }}>
+              Shown to creators on your public campaign pages.
+            </p>
+
+            {profileError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {profileError}
+              </div>
+            )}
+
+            {profileSaved && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#e8f5e9",
+                color: "#2e7d32",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                Profile saved.
+              </div>
+            )}
+
+            <form onSubmit={handleSaveProfile}>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileDisplayName"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Artist Name
+                </label>
+                <input
+                  id="profileDisplayName"
+                  type="text"
+                  value={profileDisplayName}
+                  onChange={(e) => setProfileDisplayName(e.target.value)}
+                  maxLength={100}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileGenre"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Genre
+                </label>
+                <input
+                  id="profileGenre"
+                  type="text"
+                  value={profileGenre}
+                  onChange={(e) => setProfileGenre(e.target.value)}
+                  placeholder="e.g. Indie pop"
+                  maxLength={100}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileBio"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Bio
+                </label>
+                <textarea
+                  id="profileBio"
+                  value={profileBio}
+                  onChange={(e) => setProfileBio(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileAvatarUrl"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Avatar URL
+                </label>
+                <input
+                  id="profileAvatarUrl"
+                  type="url"
+                  value={profileAvatarUrl}
+                  onChange={(e) => setProfileAvatarUrl(e.target.value)}
+                  placeholder="https://..."
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileLinks"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Links (one per line)
+                </label>
+                <textarea
+                  id="profileLinks"
+                  value={profileLinks}
+                  onChange={(e) => setProfileLinks(e.target.value)}
+                  placeholder="https://open.spotify.com/artist/..."
+                  rows={3}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileTrackTitle"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Track / Sound to Use
+                </label>
+                <input
+                  id="profileTrackTitle"
+                  type="text"
+                  value={profileTrackTitle}
+                  onChange={(e) => setProfileTrackTitle(e.target.value)}
+                  placeholder="Song title"
+                  maxLength={200}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileTrackUrl"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Track / Sound URL
+                </label>
+                <input
+                  id="profileTrackUrl"
+                  type="url"
+                  value={profileTrackUrl}
+                  onChange={(e) => setProfileTrackUrl(e.target.value)}
+                  placeholder="Link to the sound on TikTok, Spotify..."
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", justifyContent: "flex-end" }}>
+                <button
+                  type="submit"
+                  disabled={profileLoading || !profileDisplayName.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: profileLoading || !profileDisplayName.trim() ? "#ccc" : "#0070f3",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: profileLoading || !profileDisplayName.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {profileLoading ? "Saving..." : "Save Profile"}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
       </div>
 
       {/* Create Campaign Modal */}
@@ -1457,6 +2021,129 @@ export default function ArtistDashboard() {
         </div>
       )}
 
+      {/* Reject Modal */}
+      {rejectAssignmentId && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 8px", fontSize: "20px" }}>Reject Submission</h2>
+            <p style={{ margin: "0 0 16px", color: "#666", fontSize: "14px" }}>
+              The creator sees your reason and notes, and can dispute the rejection within 72 hours.
+            </p>
+
+            {rejectError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {rejectError}
+              </div>
+            )}
+
+            <form onSubmit={handleReject}>
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Reason
+                </label>
+                <select
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                >
+                  {Object.entries(rejectionReasonLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}>
+                  Notes for the creator
+                </label>
+                <textarea
+                  value={rejectNotes}
+                  onChange={(e) => setRejectNotes(e.target.value)}
+                  maxLength={2000}
+                  rows={4}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setRejectAssignmentId(null)}
+                  disabled={actionLoading === rejectAssignmentId}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#f5f5f5",
+                    color: "#333",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    cursor: actionLoading === rejectAssignmentId ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={actionLoading === rejectAssignmentId || !rejectNotes.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: actionLoading === rejectAssignmentId || !rejectNotes.trim() ? "#ccc" : "#dc3545",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: actionLoading === rejectAssignmentId || !rejectNotes.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {actionLoading === rejectAssignmentId ? "Rejecting..." : "Reject"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Stripe Checkout Modal */}
       {checkoutCampaign && clientSecret && (
         <div style={{
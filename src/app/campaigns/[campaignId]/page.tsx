@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+
+interface Campaign {
+  id: number;
+  artist_id: number;
+  title: string;
+  description: string | null;
+  currency: string;
+  payment_status: "PENDING" | "FUNDED" | "PARTIALLY_REFUNDED" | "REFUNDED";
+  cancelled_at: string | null;
+}
+
+interface Mission {
+  id: string;
+  title: string;
+  brief: string | null;
+  state: string;
+  payout_cents: number;
+  slots: number;
+  slots_taken: number;
+  accept_by: string | null;
+  submit_window_hours: number | null;
+  platforms: string[];
+  bonus_tiers: BonusTier[];
+}
+
+interface BonusTier {
+  id: string;
+  views_threshold: number;
+  bonus_cents: number;
+}
+
+interface ArtistProfile {
+  display_name: string;
+  genre: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  links: string[];
+  track_title: string | null;
+  track_url: string | null;
+}
+
+const platformLabels: Record<string, string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM_REELS: "Instagram Reels",
+  YOUTUBE_SHORTS: "YouTube Shorts",
+  X: "X",
+};
+
+// Public landing page for a campaign that artists can share with creators. No sign-in needed.
+export default function PublicCampaignPage() {
+  const params = useParams();
+  const campaignId = params.campaignId as string;
+
+  const [loading, setLoading] = useState(true);
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [artist, setArtist] = useState<ArtistProfile | null>(null);
+
+  useEffect(() => {
+    const fetchCampaign = async () => {
+      try {
+        const campaignRes = await fetch(`/api/campaigns/${campaignId}`);
+        if (!campaignRes.ok) {
+          return;
+        }
+        const campaignData: Campaign = await campaignRes.json();
+        setCampaign(campaignData);
+
+        const missionsRes = await fetch(`/api/campaigns/${campaignId}/missions`);
+        if (missionsRes.ok) {
+          const data = await missionsRes.json();
+          setMissions(Array.isArray(data) ? data : data.data || []);
+        }
+
+        const artistRes = await fetch(`/api/artists/${campaignData.artist_id}`);
+        if (artistRes.ok) {
+          setArtist(await artistRes.json());
+        }
+      } catch (err) {
+        console.error("Failed to load campaign:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCampaign();
+  }, [campaignId]);
+
+  const formatCurrency = (cents: number, currency: string) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(cents / 100);
+  };
+
+  const formatBonusTiers = (tiers: BonusTier[], currency: string) => {
+    const compact = new Intl.NumberFormat("en-US", { notation: "compact" });
+    return tiers
+      .map((tier) => `+${formatCurrency(tier.bonus_cents, currency)} at ${compact.format(tier.views_threshold)} views`)
+      .join(" · ");
+  };
+
+  if (loading) {
+    return (
+      <div style={{
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        fontSize: "18px",
+      }}>
+        Loading...
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div style={{
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        fontSize: "24px",
+      }}>
+        Campaign not found
+      </div>
+    );
+  }
+
+  // Only missions a creator can still take or apply to
+  const openMissions = missions.filter(
+    (m) => (m.state === "OPEN" || m.state === "APPLICATIONS_OPEN") && m.slots_taken < m.slots
+  );
+  const isLive = !campaign.cancelled_at && campaign.payment_status === "FUNDED";
+
+  return (
+    <div style={{
+      minHeight: "100vh",
+      backgroundColor: "#f5f5f5",
+      padding: "20px",
+    }}>
+      <div style={{ maxWidth: "800px", margin: "0 auto" }}>
+        {/* Artist */}
+        <div style={{
+          display: "flex",
+          gap: "20px",
+          alignItems: "center",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          marginBottom: "20px",
+          boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        }}>
+          <div style={{
+            width: "80px",
+            height: "80px",
+            flexShrink: 0,
+            borderRadius: "50%",
+            backgroundColor: "#ddd",
+            backgroundImage: artist?.avatar_url ? `url(${JSON.stringify(artist.avatar_url)})` : undefined,
+            backgroundSize: "cover",
+            backgroundPosition: "center",
+          }} />
+          <div>
+            <div style={{ fontSize: "24px", fontWeight: "bold" }}>
+              {artist?.display_name || "Artist"}
+            </div>
+            {artist?.genre && (
+              <div style={{ color: "#666", fontSize: "14px", marginTop: "4px" }}>{artist.genre}</div>
+            )}
+            {artist?.bio && (
+              <div style={{ color: "#333", fontSize: "14px", marginTop: "8px" }}>{artist.bio}</div>
+            )}
+            {artist && artist.links.length > 0 && (
+              <div style={{ display: "flex", flexWrap: "wrap", gap: "12px", marginTop: "8px" }}>
+                {artist.links.map((link) => (
+                  <a
+                    key={link}
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: "#0070f3", fontSize: "14px" }}
+                  >
+                    {link.replace(/^https?:\/\/(www\.)?/, "")}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Campaign */}
+        <div style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "24px",
+          marginBottom: "20px",
+          boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+        }}>
+          <h1 style={{ margin: "0 0 12px", fontSize: "28px" }}>{campaign.title}</h1>
+          {campaign.description && (
+            <p style={{ color: "#333", fontSize: "16px", margin: "0 0 12px", whiteSpace: "pre-wrap" }}>
+              {campaign.description}
+            </p>
+          )}
+          {artist?.track_title && (
+            <div style={{
+              padding: "12px",
+              backgroundColor: "#f8f9fa",
+              borderRadius: "6px",
+              fontSize: "14px",
+            }}>
+              <strong>Sound to use:</strong>{" "}
+              {artist.track_url ? (
+                <a
+                  href={artist.track_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: "#0070f3" }}
+                >
+                  {artist.track_title}
+                </a>
+              ) : (
+                artist.track_title
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Missions */}
+        <h2 style={{ fontSize: "20px", margin: "0 0 12px" }}>Open Missions</h2>
+        {!isLive || openMissions.length === 0 ? (
+          <div style={{
+            textAlign: "center",
+            padding: "40px",
+            color: "#666",
+            backgroundColor: "white",
+            borderRadius: "8px",
+          }}>
+            {campaign.cancelled_at ? "This campaign has ended." : "No open missions right now. Check back soon!"}
+          </div>
+        ) : (
+          <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+            {openMissions.map((mission) => (
+              <div
+                key={mission.id}
+                style={{
+                  backgroundColor: "white",
+                  borderRadius: "8px",
+                  padding: "20px",
+                  boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+                }}
+              >
+                <div style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "flex-start",
+                  gap: "16px",
+                }}>
+                  <div>
+                    <div style={{ fontSize: "18px", fontWeight: "bold", marginBottom: "8px" }}>
+                      {mission.title}
+                    </div>
+                    {mission.brief && (
+                      <div style={{ color: "#555", fontSize: "14px", marginBottom: "8px", whiteSpace: "pre-wrap" }}>
+                        {mission.brief}
+                      </div>
+                    )}
+                    <div style={{ color: "#555", fontSize: "13px", marginBottom: "8px" }}>
+                      Post on {mission.platforms.map((platform) => platformLabels[platform] || platform).join(", ")}
+                    </div>
+                    {mission.bonus_tiers.length > 0 && (
+                      <div style={{ color: "#2e7d32", fontSize: "13px", marginBottom: "8px" }}>
+                        Bonuses: {formatBonusTiers(mission.bonus_tiers, campaign.currency)}
+                      </div>
+                    )}
+                    <div style={{ color: "#999", fontSize: "12px" }}>
+                      {mission.slots - mission.slots_taken} of {mission.slots} slots left
+                      {mission.accept_by && ` · Open until ${new Date(mission.accept_by).toLocaleDateString()}`}
+                      {mission.submit_window_hours !== null && ` · ${mission.submit_window_hours}h to post once accepted`}
+                      {mission.state === "APPLICATIONS_OPEN" && " · Apply with a pitch"}
+                    </div>
+                  </div>
+                  <div style={{ fontSize: "24px", fontWeight: "bold", color: "#2e7d32", whiteSpace: "nowrap" }}>
+                    {formatCurrency(mission.payout_cents, campaign.currency)}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ textAlign: "center", marginTop: "24px" }}>
+          <a
+            href="/creator"
+            style={{
+              display: "inline-block",
+              padding: "12px 24px",
+              backgroundColor: "#0070f3",
+              color: "white",
+              borderRadius: "4px",
+              fontSize: "16px",
+              fontWeight: "bold",
+              textDecoration: "none",
+            }}
+          >
+            Take a mission as a creator
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,28 +4,145 @@ import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase/client";
 import type { Session } from "@supabase/supabase-js";
+import CreatorProfileCard, { type CreatorProfile } from "@/components/CreatorProfileCard";
 
 interface Mission {
   id: string;
   campaign_id: number;
-  creator_id: string | null;
   title: string;
   brief: string | null;
   state: string;
   payout_cents: number;
+  slots: number;
+  slots_taken: number;
+  max_revisions: number;
+  accept_by: string | null;
+  submit_window_hours: number | null;
+  platforms: string[];
+  bonus_tiers: BonusTier[];
   created_at: string;
   updated_at: string;
 }
 
-type TabType = "available" | "my-missions";
+interface BonusTier {
+  id: string;
+  views_threshold: number;
+  bonus_cents: number;
+}
+
+interface Assignment {
+  id: string;
+  mission_id: string;
+  campaign_id: number;
+  creator_id: string;
+  state: string;
+  submit_by: string | null;
+  revision_count: number;
+  revision_feedback: string | null;
+  payout_failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  mission: Mission;
+}
+
+// Rejection details and disputes, loaded for rejected or disputed assignments
+interface RejectionDetail {
+  submission: {
+    rejection_reason: string | null;
+    reviewer_notes: string | null;
+  } | null;
+  disputes: {
+    id: string;
+    reason: string;
+    status: "OPEN" | "UPHELD" | "OVERTURNED";
+    resolution_note: string | null;
+  }[];
+  dispute_deadline: string | null;
+}
+
+interface MissionEvent {
+  id: string;
+  assignment_id: string | null;
+  actor: "ARTIST" | "CREATOR" | "ADMIN" | "SYSTEM";
+  from_state: string;
+  to_state: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface Application {
+  id: string;
+  mission_id: string;
+  pitch: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  decision_note: string | null;
+  decided_at: string | null;
+  created_at: string;
+  mission: Mission;
+}
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+type TabType = "available" | "my-missions" | "applications" | "profile";
+
+type SocialPlatform = CreatorProfile["socials"][number]["platform"];
+
+const socialPlatforms: { platform: SocialPlatform; label: string }[] = [
+  { platform: "TIKTOK", label: "TikTok" },
+  { platform: "INSTAGRAM", label: "Instagram" },
+  { platform: "YOUTUBE", label: "YouTube" },
+];
 
 const statusColors: Record<string, { bg: string; text: string }> = {
   OPEN: { bg: "#e3f2fd", text: "#1565c0" },
+  APPLICATIONS_OPEN: { bg: "#e0f7fa", text: "#00838f" },
   ACCEPTED: { bg: "#fff3e0", text: "#ef6c00" },
   SUBMITTED: { bg: "#f3e5f5", text: "#7b1fa2" },
+  CHANGES_REQUESTED: { bg: "#fff3e0", text: "#e65100" },
   VERIFIED: { bg: "#e8f5e9", text: "#2e7d32" },
   PAID: { bg: "#e8f5e9", text: "#1b5e20" },
   REJECTED: { bg: "#ffebee", text: "#c62828" },
+  CANCELLED: { bg: "#eeeeee", text: "#616161" },
+  PAYOUT_FAILED: { bg: "#fff8e1", text: "#b71c1c" },
+  EXPIRED: { bg: "#eeeeee", text: "#9e9e9e" },
+  DISPUTED: { bg: "#fce4ec", text: "#ad1457" },
+};
+
+const eventActorLabels: Record<string, string> = {
+  ARTIST: "by the artist",
+  CREATOR: "by you",
+  ADMIN: "by the platform",
+  SYSTEM: "automatically",
+};
+
+const rejectionReasonLabels: Record<string, string> = {
+  NOT_POSTED: "Video not posted",
+  BRIEF_NOT_FOLLOWED: "Brief not followed",
+  WRONG_SOUND: "Wrong sound",
+  LOW_QUALITY: "Low quality",
+  INAPPROPRIATE: "Inappropriate content",
+  DUPLICATE: "Duplicate video",
+  OTHER: "Other",
+};
+
+const platformLabels: Record<string, string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM_REELS: "Instagram Reels",
+  YOUTUBE_SHORTS: "YouTube Shorts",
+  X: "X",
+};
+
+const applicationStatusColors: Record<Application["status"], { bg: string; text: string }> = {
+  PENDING: { bg: "#e0f7fa", text: "#00838f" },
+  APPROVED: { bg: "#e8f5e9", text: "#2e7d32" },
+  REJECTED: { bg: "#eeeeee", text: "#616161" },
 };
 
 type UserRole = "ARTIST" | "CREATOR";
@@ -38,16 +155,46 @@ export default function CreatorDashboard() {
   const [userRoles, setUserRoles] = useState<UserRole[]>([]);
   const [activeTab, setActiveTab] = useState<TabType>("available");
   const [availableMissions, setAvailableMissions] = useState<Mission[]>([]);
-  const [myMissions, setMyMissions] = useState<Mission[]>([]);
+  const [myMissions, setMyMissions] = useState<Assignment[]>([]);
+  const [rejectionDetails, setRejectionDetails] = useState<Record<string, RejectionDetail>>({});
+  const [historyAssignmentId, setHistoryAssignmentId] = useState<string | null>(null);
+  const [assignmentEvents, setAssignmentEvents] = useState<MissionEvent[]>([]);
+  const [myApplications, setMyApplications] = useState<Application[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
   // Submit modal state
-  const [submitModal, setSubmitModal] = useState<Mission | null>(null);
-  const [tiktokUrl, setTiktokUrl] = useState("");
+  const [submitModal, setSubmitModal] = useState<Assignment | null>(null);
+  const [videoUrl, setVideoUrl] = useState("");
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitLoading, setSubmitLoading] = useState(false);
 
+  // Dispute modal state
+  const [disputeModal, setDisputeModal] = useState<Assignment | null>(null);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [disputeError, setDisputeError] = useState<string | null>(null);
+  const [disputeLoading, setDisputeLoading] = useState(false);
+
+  // Apply modal state
+  const [applyModal, setApplyModal] = useState<Mission | null>(null);
+  const [pitch, setPitch] = useState("");
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const [applyLoading, setApplyLoading] = useState(false);
+
+  // Profile form state
+  const [profile, setProfile] = useState<CreatorProfile | null>(null);
+  const [profileDisplayName, setProfileDisplayName] = useState("");
+  const [profileBio, setProfileBio] = useState("");
+  const [profileAvatarUrl, setProfileAvatarUrl] = useState("");
+  const [profileSocials, setProfileSocials] = useState<Record<SocialPlatform, { handle: string; followerCount: string }>>({
+    TIKTOK: { handle: "", followerCount: "" },
+    INSTAGRAM: { handle: "", followerCount: "" },
+    YOUTUBE: { handle: "", followerCount: "" },
+  });
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileLoading, setProfileLoading] = useState(false);
+
   // Stripe Connect state
   const [stripeConnected, setStripeConnected] = useState(false);
   const [stripeOnboardingComplete, setStripeOnboardingComplete] = useState(false);
@@ -121,9 +268,88 @@ export default function CreatorDashboard() {
     if (session) {
       fetchMissions();
       fetchConnectStatus();
+      fetchProfile();
     }
   }, [session]);
 
+  const applyProfile = (data: CreatorProfile) => {
+    setProfile(data);
+    setProfileDisplayName(data.display_name);
+    setProfileBio(data.bio || "");
+    setProfileAvatarUrl(data.avatar_url || "");
+    setProfileSocials((current) => {
+      const next = { ...current };
+      for (const { platform } of socialPlatforms) {
+        const social = data.socials.find((s) => s.platform === platform);
+        next[platform] = {
+          handle: social?.handle || "",
+          followerCount: social?.follower_count != null ? String(social.follower_count) : "",
+        };
+      }
+      return next;
+    });
+  };
+
+  const fetchProfile = async () => {
+    if (!session) return;
+
+    try {
+      const res = await fetch(`/api/creators/${session.user.id}`);
+      if (res.ok) {
+        applyProfile(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch profile:", err);
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+
+    setProfileLoading(true);
+    setProfileError(null);
+
+    try {
+      const socials = [];
+      for (const { platform, label } of socialPlatforms) {
+        const { handle, followerCount } = profileSocials[platform];
+        if (!handle.trim()) continue;
+
+        const count = followerCount.trim() ? parseInt(followerCount, 10) : null;
+        if (count !== null && (isNaN(count) || count < 0)) {
+          throw new Error(`${label} follower count must be a whole number`);
+        }
+        socials.push({ platform, handle: handle.trim(), followerCount: count });
+      }
+
+      const res = await fetch(`/api/creators/${session.user.id}`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          displayName: profileDisplayName,
+          bio: profileBio.trim() || null,
+          avatarUrl: profileAvatarUrl.trim() || null,
+          socials,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save profile");
+      }
+
+      applyProfile(data);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setProfileLoading(false);
+    }
+  };
+
   const fetchConnectStatus = async () => {
     if (!session) return;
 
@@ -178,28 +404,12 @@ export default function CreatorDashboard() {
     try {
       setError(null);
 
-      // Fetch available (OPEN) missions
-      const availableRes = await fetch("/api/missions?state=OPEN");
-      if (availableRes.ok) {
-        const data = await availableRes.json();
-        setAvailableMissions(Array.isArray(data) ? data : data.data || []);
-      }
-
-      // Fetch my missions (all states except OPEN)
-      const states = ["ACCEPTED", "SUBMITTED", "VERIFIED", "PAID", "REJECTED"];
-      const myMissionsList: Mission[] = [];
-
-      for (const state of states) {
-        const res = await fetch(`/api/missions?state=${state}`);
-        if (res.ok) {
-          const data = await res.json();
-          const missions = Array.isArray(data) ? data : data.data || [];
-          // Filter to only include missions belonging to this creator
-          const filtered = missions.filter(
-            (m: Mission) => m.creator_id === session.user.id
-          );
-          myMissionsList.push(...filtered);
-        }
+      // Fetch my assignments (every mission I have accepted)
+      const myRes = await fetch(`/api/assignments?creator_id=${session.user.id}`);
+      const myMissionsList: Assignment[] = [];
+      if (myRes.ok) {
+        const data = await myRes.json();
+        myMissionsList.push(...(Array.isArray(data) ? data : data.data || []));
       }
 
       // Sort by updated_at descending
@@ -207,6 +417,56 @@ export default function CreatorDashboard() {
         new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
       );
       setMyMissions(myMissionsList);
+
+      // Why rejected missions were rejected, and whether they can still be disputed
+      const details: Record<string, RejectionDetail> = {};
+      await Promise.all(
+        myMissionsList
+          .filter((a) => a.state === "REJECTED" || a.state === "DISPUTED")
+          .map(async (a) => {
+            const detailRes = await fetch(`/api/assignments/${a.id}`);
+            if (detailRes.ok) {
+              details[a.id] = await detailRes.json();
+            }
+          })
+      );
+      setRejectionDetails(details);
+
+      // Fetch my applications to missions where the artist picks creators
+      const applicationsRes = await fetch("/api/applications", {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      let applicationsList: Application[] = [];
+      if (applicationsRes.ok) {
+        applicationsList = await applicationsRes.json();
+        setMyApplications(applicationsList);
+      }
+
+      // Fetch available missions (OPEN or taking applications) that still have a free
+      // slot and I haven't taken or applied to yet
+      const missions: Mission[] = [];
+      for (const state of ["OPEN", "APPLICATIONS_OPEN"]) {
+        const availableRes = await fetch(`/api/missions?state=${state}`);
+        if (availableRes.ok) {
+          const data = await availableRes.json();
+          missions.push(...(Array.isArray(data) ? data : data.data || []));
+        }
+      }
+      const taken = new Set([
+        ...myMissionsList.map((a) => a.mission_id),
+        ...applicationsList.map((a) => a.mission_id),
+      ]);
+      setAvailableMissions(
+        missions.filter((m) => m.slots_taken < m.slots && !taken.has(m.id))
+      );
+
+      // Unread notifications, e.g. decisions on my applications
+      const notificationsRes = await fetch("/api/notifications?unread=true", {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (notificationsRes.ok) {
+        setNotifications(await notificationsRes.json());
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch missions");
     }
@@ -242,6 +502,78 @@ export default function CreatorDashboard() {
     }
   };
 
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !applyModal) return;
+
+    setApplyLoading(true);
+    setApplyError(null);
+
+    try {
+      const res = await fetch(`/api/missions/${applyModal.id}/applications`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ pitch }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to apply");
+      }
+
+      // Close modal and refresh
+      setApplyModal(null);
+      setPitch("");
+      await fetchMissions();
+      setActiveTab("applications");
+    } catch (err) {
+      setApplyError(err instanceof Error ? err.message : "Failed to apply");
+    } finally {
+      setApplyLoading(false);
+    }
+  };
+
+  const handleToggleHistory = async (assignment: Assignment) => {
+    if (historyAssignmentId === assignment.id) {
+      setHistoryAssignmentId(null);
+      return;
+    }
+
+    if (!session) return;
+
+    try {
+      const res = await fetch(`/api/missions/${assignment.mission_id}/events?assignment_id=${assignment.id}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to load mission history");
+      }
+      setAssignmentEvents(await res.json());
+      setHistoryAssignmentId(assignment.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load mission history");
+    }
+  };
+
+  const handleDismissNotification = async (notificationId: string) => {
+    if (!session) return;
+
+    try {
+      await fetch(`/api/notifications/${notificationId}/read`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+      setNotifications((current) => current.filter((n) => n.id !== notificationId));
+    } catch (err) {
+      console.error("Failed to dismiss notification:", err);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session || !submitModal) return;
@@ -250,13 +582,13 @@ export default function CreatorDashboard() {
     setSubmitError(null);
 
     try {
-      const res = await fetch(`/api/missions/${submitModal.id}/submit`, {
+      const res = await fetch(`/api/assignments/${submitModal.id}/submit`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ tiktokUrl }),
+        body: JSON.stringify({ videoUrl }),
       });
 
       if (!res.ok) {
@@ -266,7 +598,7 @@ export default function CreatorDashboard() {
 
       // Close modal and refresh
       setSubmitModal(null);
-      setTiktokUrl("");
+      setVideoUrl("");
       await fetchMissions();
     } catch (err) {
       setSubmitError(err instanceof Error ? err.message : "Failed to submit");
@@ -275,6 +607,38 @@ export default function CreatorDashboard() {
     }
   };
 
+  const handleDispute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !disputeModal) return;
+
+    setDisputeLoading(true);
+    setDisputeError(null);
+
+    try {
+      const res = await fetch(`/api/assignments/${disputeModal.id}/dispute`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: disputeReason }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to dispute rejection");
+      }
+
+      setDisputeModal(null);
+      setDisputeReason("");
+      await fetchMissions();
+    } catch (err) {
+      setDisputeError(err instanceof Error ? err.message : "Failed to dispute");
+    } finally {
+      setDisputeLoading(false);
+    }
+  };
+
   const formatPayout = (cents: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -282,6 +646,13 @@ export default function CreatorDashboard() {
     }).format(cents / 100);
   };
 
+  const formatBonusTiers = (tiers: BonusTier[]) => {
+    const compact = new Intl.NumberFormat("en-US", { notation: "compact" });
+    return tiers
+      .map((tier) => `+${formatPayout(tier.bonus_cents)} at ${compact.format(tier.views_threshold)} views`)
+      .join(" · ");
+  };
+
   if (loading) {
     return (
       <div style={{
@@ -489,7 +860,7 @@ export default function CreatorDashboard() {
           textAlign: "center",
         }}>
           <div style={{ fontSize: "28px", fontWeight: "bold", color: "#1b5e20" }}>
-            {formatPayout(myMissions.filter(m => m.state === "PAID").reduce((sum, m) => sum + m.payout_cents, 0))}
+            {formatPayout(myMissions.filter(m => m.state === "PAID").reduce((sum, m) => sum + m.mission.payout_cents, 0))}
           </div>
           <div style={{ fontSize: "14px", color: "#2e7d32", marginTop: "4px" }}>
             Total Earned
@@ -502,7 +873,7 @@ export default function CreatorDashboard() {
           textAlign: "center",
         }}>
           <div style={{ fontSize: "28px", fontWeight: "bold", color: "#ef6c00" }}>
-            {formatPayout(myMissions.filter(m => m.state === "VERIFIED").reduce((sum, m) => sum + m.payout_cents, 0))}
+            {formatPayout(myMissions.filter(m => m.state === "VERIFIED").reduce((sum, m) => sum + m.mission.payout_cents, 0))}
           </div>
           <div style={{ fontSize: "14px", color: "#f57c00", marginTop: "4px" }}>
             Pending Payout
@@ -515,7 +886,7 @@ export default function CreatorDashboard() {
           textAlign: "center",
         }}>
           <div style={{ fontSize: "28px", fontWeight: "bold", color: "#1565c0" }}>
-            {formatPayout(myMissions.filter(m => m.state === "ACCEPTED" || m.state === "SUBMITTED").reduce((sum, m) => sum + m.payout_cents, 0))}
+            {formatPayout(myMissions.filter(m => m.state === "ACCEPTED" || m.state === "SUBMITTED").reduce((sum, m) => sum + m.mission.payout_cents, 0))}
           </div>
           <div style={{ fontSize: "14px", color: "#1976d2", marginTop: "4px" }}>
             In Progress
@@ -523,6 +894,46 @@ export default function CreatorDashboard() {
         </div>
       </div>
 
+      {/* Notifications */}
+      {notifications.length > 0 && (
+        <div style={{ maxWidth: "900px", margin: "0 auto 16px", display: "flex", flexDirection: "column", gap: "8px" }}>
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              style={{
+                padding: "12px 16px",
+                backgroundColor: notification.type === "APPLICATION_REJECTED" ? "#fafafa" : "#e8f5e9",
+                border: "1px solid #ddd",
+                borderRadius: "4px",
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "flex-start",
+                gap: "12px",
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: "bold", fontSize: "14px" }}>{notification.title}</div>
+                {notification.body && (
+                  <div style={{ color: "#555", fontSize: "14px", marginTop: "4px" }}>{notification.body}</div>
+                )}
+              </div>
+              <button
+                onClick={() => handleDismissNotification(notification.id)}
+                style={{
+                  background: "none",
+                  border: "none",
+                  color: "#666",
+                  cursor: "pointer",
+                  fontSize: "14px",
+                }}
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div style={{
@@ -579,6 +990,36 @@ export default function CreatorDashboard() {
           >
             My Missions ({myMissions.length})
           </button>
+          <button
+            onClick={() => setActiveTab("applications")}
+            style={{
+              padding: "12px 24px",
+              fontSize: "16px",
+              backgroundColor: activeTab === "applications" ? "#0070f3" : "transparent",
+              color: activeTab === "applications" ? "white" : "#333",
+              border: "none",
+              borderRadius: "4px 4px 0 0",
+              cursor: "pointer",
+              fontWeight: activeTab === "applications" ? "bold" : "normal",
+            }}
+          >
+            Applications ({myApplications.filter((a) => a.status === "PENDING").length})
+          </button>
+          <button
+            onClick={() => setActiveTab("profile")}
+            style={{
+              padding: "12px 24px",
+              fontSize: "16px",
+              backgroundColor: activeTab === "profile" ? "#0070f3" : "transparent",
+              color: activeTab === "profile" ? "white" : "#333",
+              border: "none",
+              borderRadius: "4px 4px 0 0",
+              cursor: "pointer",
+              fontWeight: activeTab === "profile" ? "bold" : "normal",
+            }}
+          >
+            Profile
+          </button>
         </div>
       </div>
 
@@ -657,27 +1098,70 @@ export default function CreatorDashboard() {
                               : mission.brief}
                           </div>
                         )}
+                        {(mission.accept_by || mission.submit_window_hours) && (
+                          <div style={{ color: "#ef6c00", fontSize: "13px", marginBottom: "8px" }}>
+                            {mission.accept_by && `Accept by ${new Date(mission.accept_by).toLocaleString()}`}
+                            {mission.accept_by && mission.submit_window_hours && " · "}
+                            {mission.submit_window_hours && `${mission.submit_window_hours}h to submit once accepted`}
+                          </div>
+                        )}
+                        <div style={{ color: "#555", fontSize: "13px", marginBottom: "8px" }}>
+                          Post on {mission.platforms.map((platform) => platformLabels[platform] || platform).join(", ")}
+                        </div>
+                        {mission.bonus_tiers.length > 0 && (
+                          <div style={{ color: "#2e7d32", fontSize: "13px", marginBottom: "8px" }}>
+                            Bonuses: {formatBonusTiers(mission.bonus_tiers)}
+                          </div>
+                        )}
+                        {mission.slots > 1 && (
+                          <div style={{ color: "#555", fontSize: "13px", marginBottom: "8px" }}>
+                            {mission.slots - mission.slots_taken} of {mission.slots} slots left
+                          </div>
+                        )}
                         <div style={{ color: "#999", fontSize: "12px" }}>
                           Posted {new Date(mission.created_at).toLocaleDateString()}
                         </div>
                       </div>
-                      <button
-                        onClick={() => handleAccept(mission.id)}
-                        disabled={actionLoading === mission.id}
-                        style={{
-                          padding: "10px 20px",
-                          backgroundColor: actionLoading === mission.id ? "#ccc" : "#0070f3",
-                          color: "white",
-                          border: "none",
-                          borderRadius: "4px",
-                          cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
-                          fontSize: "14px",
-                          fontWeight: "bold",
-                          alignSelf: "flex-start",
-                        }}
-                      >
-                        {actionLoading === mission.id ? "Accepting..." : "Accept Mission"}
-                      </button>
+                      {mission.state === "APPLICATIONS_OPEN" ? (
+                        <button
+                          onClick={() => {
+                            setApplyModal(mission);
+                            setPitch("");
+                            setApplyError(null);
+                          }}
+                          style={{
+                            padding: "10px 20px",
+                            backgroundColor: "#00838f",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "4px",
+                            cursor: "pointer",
+                            fontSize: "14px",
+                            fontWeight: "bold",
+                            alignSelf: "flex-start",
+                          }}
+                        >
+                          Apply
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleAccept(mission.id)}
+                          disabled={actionLoading === mission.id}
+                          style={{
+                            padding: "10px 20px",
+                            backgroundColor: actionLoading === mission.id ? "#ccc" : "#0070f3",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "4px",
+                            cursor: actionLoading === mission.id ? "not-allowed" : "pointer",
+                            fontSize: "14px",
+                            fontWeight: "bold",
+                            alignSelf: "flex-start",
+                          }}
+                        >
+                          {actionLoading === mission.id ? "Accepting..." : "Accept Mission"}
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -712,9 +1196,9 @@ export default function CreatorDashboard() {
               </div>
             ) : (
               <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
-                {myMissions.map((mission) => (
+                {myMissions.map((assignment) => (
                   <div
-                    key={mission.id}
+                    key={assignment.id}
                     style={{
                       backgroundColor: "white",
                       borderRadius: "8px",
@@ -733,7 +1217,7 @@ export default function CreatorDashboard() {
                           fontWeight: "bold",
                           marginBottom: "8px",
                         }}>
-                          {mission.title}
+                          {assignment.mission.title}
                         </div>
                         <div style={{
                           display: "flex",
@@ -744,32 +1228,110 @@ export default function CreatorDashboard() {
                           <span style={{
                             fontSize: "20px",
                             fontWeight: "bold",
-                            color: mission.state === "PAID" ? "#1b5e20" : "#333",
+                            color: assignment.state === "PAID" ? "#1b5e20" : "#333",
                           }}>
-                            {formatPayout(mission.payout_cents)}
+                            {formatPayout(assignment.mission.payout_cents)}
                           </span>
                           <span style={{
                             padding: "4px 8px",
                             borderRadius: "4px",
                             fontSize: "12px",
                             fontWeight: "bold",
-                            backgroundColor: statusColors[mission.state]?.bg || "#eee",
-                            color: statusColors[mission.state]?.text || "#333",
+                            backgroundColor: statusColors[assignment.state]?.bg || "#eee",
+                            color: statusColors[assignment.state]?.text || "#333",
                           }}>
-                            {mission.state}
-                            {mission.state === "PAID" && " ✓"}
+                            {assignment.state}
+                            {assignment.state === "PAID" && " ✓"}
                           </span>
                         </div>
+                        {assignment.state === "CHANGES_REQUESTED" && assignment.revision_feedback && (
+                          <div style={{
+                            padding: "12px",
+                            backgroundColor: "#fff3e0",
+                            color: "#e65100",
+                            borderRadius: "4px",
+                            fontSize: "14px",
+                            marginBottom: "8px",
+                          }}>
+                            <strong>Changes requested:</strong> {assignment.revision_feedback}
+                          </div>
+                        )}
+                        {(assignment.state === "REJECTED" || assignment.state === "DISPUTED") &&
+                          rejectionDetails[assignment.id]?.submission?.rejection_reason && (
+                          <div style={{
+                            padding: "12px",
+                            backgroundColor: "#ffebee",
+                            color: "#c62828",
+                            borderRadius: "4px",
+                            fontSize: "14px",
+                            marginBottom: "8px",
+                          }}>
+                            <strong>
+                              Rejected:{" "}
+                              {rejectionReasonLabels[rejectionDetails[assignment.id].submission!.rejection_reason!] ||
+                                rejectionDetails[assignment.id].submission!.rejection_reason}
+                            </strong>
+                            {rejectionDetails[assignment.id].submission!.reviewer_notes && (
+                              <> – {rejectionDetails[assignment.id].submission!.reviewer_notes}</>
+                            )}
+                          </div>
+                        )}
+                        {rejectionDetails[assignment.id]?.disputes.map((dispute) => (
+                          <div key={dispute.id} style={{ color: "#ad1457", fontSize: "13px", marginBottom: "8px" }}>
+                            Your dispute: {dispute.reason}
+                            {dispute.status !== "OPEN" && (
+                              <div style={{ color: "#555" }}>
+                                {dispute.status === "OVERTURNED" ? "Rejection overturned" : "Rejection upheld"}: {dispute.resolution_note}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        {assignment.state === "ACCEPTED" && assignment.submit_by && (
+                          <div style={{ color: "#ef6c00", fontSize: "13px", marginBottom: "8px" }}>
+                            Submit by {new Date(assignment.submit_by).toLocaleString()}
+                          </div>
+                        )}
                         <div style={{ color: "#999", fontSize: "12px" }}>
-                          Updated {new Date(mission.updated_at).toLocaleDateString()}
+                          Updated {new Date(assignment.updated_at).toLocaleDateString()}
+                          {" · "}
+                          <button
+                            onClick={() => handleToggleHistory(assignment)}
+                            style={{
+                              color: "#0070f3",
+                              background: "none",
+                              border: "none",
+                              padding: 0,
+                              cursor: "pointer",
+                              fontSize: "12px",
+                            }}
+                          >
+                            {historyAssignmentId === assignment.id ? "Hide history" : "Show history"}
+                          </button>
                         </div>
+                        {historyAssignmentId === assignment.id && (
+                          <div style={{ marginTop: "8px", padding: "8px", backgroundColor: "#fafafa", borderRadius: "4px" }}>
+                            {assignmentEvents.length === 0 ? (
+                              <div style={{ fontSize: "13px", color: "#999" }}>No state changes recorded yet.</div>
+                            ) : (
+                              assignmentEvents.map((event) => (
+                                <div key={event.id} style={{ fontSize: "13px", color: "#555", marginBottom: "4px" }}>
+                                  <span style={{ color: "#999" }}>{new Date(event.created_at).toLocaleString()}</span>
+                                  {" · "}
+                                  {!event.assignment_id && "Mission "}
+                                  {event.from_state} → <strong>{event.to_state}</strong> {eventActorLabels[event.actor]}
+                                  {event.reason && <span style={{ color: "#777" }}> – {event.reason}</span>}
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )}
                       </div>
                       <div>
-                        {mission.state === "ACCEPTED" && (
+                        {(assignment.state === "ACCEPTED" || assignment.state === "CHANGES_REQUESTED") && (
                           <button
                             onClick={() => {
-                              setSubmitModal(mission);
-                              setTiktokUrl("");
+                              setSubmitModal(assignment);
+                              setVideoUrl("");
                               setSubmitError(null);
                             }}
                             style={{
@@ -783,10 +1345,10 @@ export default function CreatorDashboard() {
                               fontWeight: "bold",
                             }}
                           >
-                            Submit Work
+                            {assignment.state === "CHANGES_REQUESTED" ? "Resubmit" : "Submit Work"}
                           </button>
                         )}
-                        {mission.state === "SUBMITTED" && (
+                        {assignment.state === "SUBMITTED" && (
                           <span style={{
                             padding: "10px 20px",
                             backgroundColor: "#f3e5f5",
@@ -797,7 +1359,7 @@ export default function CreatorDashboard() {
                             Awaiting Review
                           </span>
                         )}
-                        {mission.state === "VERIFIED" && (
+                        {assignment.state === "VERIFIED" && (
                           <span style={{
                             padding: "10px 20px",
                             backgroundColor: "#e8f5e9",
@@ -808,7 +1370,7 @@ export default function CreatorDashboard() {
                             Payment Pending
                           </span>
                         )}
-                        {mission.state === "PAID" && (
+                        {assignment.state === "PAID" && (
                           <span style={{
                             padding: "10px 20px",
                             backgroundColor: "#e8f5e9",
@@ -820,18 +1382,130 @@ export default function CreatorDashboard() {
                             Paid ✓
                           </span>
                         )}
-                        {mission.state === "REJECTED" && (
-                          <span style={{
-                            padding: "10px 20px",
-                            backgroundColor: "#ffebee",
-                            color: "#c62828",
-                            borderRadius: "4px",
-                            fontSize: "14px",
-                          }}>
-                            Rejected
-                          </span>
-                        )}
-                      </div>
+                        {assignment.state === "PAYOUT_FAILED" && (
+                          <span
+                            title={assignment.payout_failure_reason || undefined}
+                            style={{
+                              padding: "10px 20px",
+                              backgroundColor: "#fff8e1",
+                              color: "#b71c1c",
+                              borderRadius: "4px",
+                              fontSize: "14px",
+                            }}
+                          >
+                            Payment Failed – check your Stripe account; the artist will retry
+                          </span>
+                        )}
+                        {assignment.state === "REJECTED" && (
+                          rejectionDetails[assignment.id]?.dispute_deadline &&
+                          new Date(rejectionDetails[assignment.id].dispute_deadline!) > new Date() ? (
+                            <button
+                              onClick={() => {
+                                setDisputeModal(assignment);
+                                setDisputeReason("");
+                                setDisputeError(null);
+                              }}
+                              title={`You can dispute until ${new Date(rejectionDetails[assignment.id].dispute_deadline!).toLocaleString()}`}
+                              style={{
+                                padding: "10px 20px",
+                                backgroundColor: "#ad1457",
+                                color: "white",
+                                border: "none",
+                                borderRadius: "4px",
+                                cursor: "pointer",
+                                fontSize: "14px",
+                                fontWeight: "bold",
+                              }}
+                            >
+                              Dispute Rejection
+                            </button>
+                          ) : (
+                            <span style={{
+                              padding: "10px 20px",
+                              backgroundColor: "#ffebee",
+                              color: "#c62828",
+                              borderRadius: "4px",
+                              fontSize: "14px",
+                            }}>
+                              Rejected
+                            </span>
+                          )
+                        )}
+                        {assignment.state === "DISPUTED" && (
+                          <span style={{
+                            padding: "10px 20px",
+                            backgroundColor: "#fce4ec",
+                            color: "#ad1457",
+                            borderRadius: "4px",
+                            fontSize: "14px",
+                          }}>
+                            Disputed – awaiting review
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === "applications" && (
+          <div>
+            {myApplications.length === 0 ? (
+              <div style={{
+                textAlign: "center",
+                padding: "40px",
+                color: "#666",
+                backgroundColor: "white",
+                borderRadius: "8px",
+              }}>
+                You haven&apos;t applied to any missions yet.
+              </div>
+            ) : (
+              <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
+                {myApplications.map((application) => (
+                  <div
+                    key={application.id}
+                    style={{
+                      backgroundColor: "white",
+                      borderRadius: "8px",
+                      padding: "20px",
+                      boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+                    }}
+                  >
+                    <div style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "12px",
+                      marginBottom: "8px",
+                    }}>
+                      <span style={{ fontSize: "18px", fontWeight: "bold" }}>
+                        {application.mission.title}
+                      </span>
+                      <span style={{
+                        padding: "4px 8px",
+                        borderRadius: "4px",
+                        fontSize: "12px",
+                        fontWeight: "bold",
+                        backgroundColor: applicationStatusColors[application.status].bg,
+                        color: applicationStatusColors[application.status].text,
+                      }}>
+                        {application.status}
+                      </span>
+                    </div>
+                    <div style={{ color: "#555", fontSize: "14px", marginBottom: "8px", whiteSpace: "pre-wrap" }}>
+                      {application.pitch}
+                    </div>
+                    {application.decision_note && (
+                      <div style={{ color: "#666", fontSize: "14px", marginBottom: "8px" }}>
+                        <strong>Artist&apos;s note:</strong> {application.decision_note}
+                      </div>
+                    )}
+                    <div style={{ color: "#999", fontSize: "12px" }}>
+                      Applied {new Date(application.created_at).toLocaleDateString()}
+                      {application.decided_at && ` · Decided ${new Date(application.decided_at).toLocaleDateString()}`}
                     </div>
                   </div>
                 ))}
@@ -839,8 +1513,285 @@ export default function CreatorDashboard() {
             )}
           </div>
         )}
+
+        {activeTab === "profile" && (
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+          }}>
+            <p style={{ color: "#666", marginTop: 0, marginBottom: "16px" }}>
+              Artists see this next to your submissions.
+            </p>
+
+            {profile && <CreatorProfileCard profile={profile} />}
+
+            {profileError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {profileError}
+              </div>
+            )}
+
+            <form onSubmit={handleSaveProfile}>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileDisplayName"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Display Name
+                </label>
+                <input
+                  id="profileDisplayName"
+                  type="text"
+                  value={profileDisplayName}
+                  onChange={(e) => setProfileDisplayName(e.target.value)}
+                  maxLength={100}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileBio"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Bio
+                </label>
+                <textarea
+                  id="profileBio"
+                  value={profileBio}
+                  onChange={(e) => setProfileBio(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="profileAvatarUrl"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Avatar URL
+                </label>
+                <input
+                  id="profileAvatarUrl"
+                  type="url"
+                  value={profileAvatarUrl}
+                  onChange={(e) => setProfileAvatarUrl(e.target.value)}
+                  placeholder="https://..."
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                  }}
+                />
+              </div>
+
+              <div style={{ marginBottom: "8px", fontWeight: "bold" }}>Social Accounts</div>
+              {socialPlatforms.map(({ platform, label }) => (
+                <div key={platform} style={{ display: "flex", gap: "12px", alignItems: "center", marginBottom: "12px" }}>
+                  <span style={{ width: "90px", color: "#333" }}>{label}</span>
+                  <input
+                    type="text"
+                    aria-label={`${label} handle`}
+                    value={profileSocials[platform].handle}
+                    onChange={(e) =>
+                      setProfileSocials((current) => ({
+                        ...current,
+                        [platform]: { ...current[platform], handle: e.target.value },
+                      }))
+                    }
+                    placeholder="@handle"
+                    style={{
+                      flex: 2,
+                      padding: "12px",
+                      fontSize: "16px",
+                      border: "1px solid #ccc",
+                      borderRadius: "4px",
+                    }}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    aria-label={`${label} followers`}
+                    value={profileSocials[platform].followerCount}
+                    onChange={(e) =>
+                      setProfileSocials((current) => ({
+                        ...current,
+                        [platform]: { ...current[platform], followerCount: e.target.value },
+                      }))
+                    }
+                    placeholder="Followers"
+                    style={{
+                      flex: 1,
+                      padding: "12px",
+                      fontSize: "16px",
+                      border: "1px solid #ccc",
+                      borderRadius: "4px",
+                    }}
+                  />
+                </div>
+              ))}
+
+              <div style={{ display: "flex", justifyContent: "flex-end", marginTop: "16px" }}>
+                <button
+                  type="submit"
+                  disabled={profileLoading || !profileDisplayName.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: profileLoading || !profileDisplayName.trim() ? "#ccc" : "#0070f3",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: profileLoading || !profileDisplayName.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {profileLoading ? "Saving..." : "Save Profile"}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
       </div>
 
+      {/* Apply Modal */}
+      {applyModal && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 16px", fontSize: "20px" }}>
+              Apply to {applyModal.title}
+            </h2>
+            <p style={{ color: "#666", marginBottom: "16px" }}>
+              The artist picks who gets a slot. Tell them why you&apos;re a good fit.
+            </p>
+
+            {applyError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {applyError}
+              </div>
+            )}
+
+            <form onSubmit={handleApply}>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="pitch"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Your Pitch
+                </label>
+                <textarea
+                  id="pitch"
+                  value={pitch}
+                  onChange={(e) => setPitch(e.target.value)}
+                  placeholder="Your audience, your idea for the video, past work..."
+                  rows={5}
+                  maxLength={2000}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setApplyModal(null)}
+                  disabled={applyLoading}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#f5f5f5",
+                    color: "#333",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    cursor: applyLoading ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={applyLoading || !pitch.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: applyLoading || !pitch.trim() ? "#ccc" : "#00838f",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: applyLoading || !pitch.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {applyLoading ? "Applying..." : "Send Application"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Submit Modal */}
       {submitModal && (
         <div style={{
@@ -867,10 +1818,11 @@ export default function CreatorDashboard() {
               Submit Mission
             </h2>
             <p style={{ color: "#666", marginBottom: "16px" }}>
-              Submit your TikTok video URL for Campaign #{submitModal.campaign_id}
+              Submit your video URL for Campaign #{submitModal.campaign_id}. Accepted platforms:{" "}
+              {submitModal.mission.platforms.map((platform) => platformLabels[platform] || platform).join(", ")}
             </p>
             <p style={{ color: "#2e7d32", fontWeight: "bold", marginBottom: "20px" }}>
-              Payout: {formatPayout(submitModal.payout_cents)}
+              Payout: {formatPayout(submitModal.mission.payout_cents)}
             </p>
 
             {submitError && (
@@ -888,16 +1840,16 @@ export default function CreatorDashboard() {
             <form onSubmit={handleSubmit}>
               <div style={{ marginBottom: "16px" }}>
                 <label
-                  htmlFor="tiktokUrl"
+                  htmlFor="videoUrl"
                   style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
                 >
-                  TikTok Video URL
+                  Video URL
                 </label>
                 <input
-                  id="tiktokUrl"
+                  id="videoUrl"
                   type="url"
-                  value={tiktokUrl}
-                  onChange={(e) => setTiktokUrl(e.target.value)}
+                  value={videoUrl}
+                  onChange={(e) => setVideoUrl(e.target.value)}
                   placeholder="https://www.tiktok.com/@username/video/..."
                   required
                   style={{
@@ -930,14 +1882,14 @@ export default function CreatorDashboard() {
                 </button>
                 <button
                   type="submit"
-                  disabled={submitLoading || !tiktokUrl}
+                  disabled={submitLoading || !videoUrl}
                   style={{
                     padding: "12px 24px",
-                    backgroundColor: submitLoading || !tiktokUrl ? "#ccc" : "#7b1fa2",
+                    backgroundColor: submitLoading || !videoUrl ? "#ccc" : "#7b1fa2",
                     color: "white",
                     border: "none",
                     borderRadius: "4px",
-                    cursor: submitLoading || !tiktokUrl ? "not-allowed" : "pointer",
+                    cursor: submitLoading || !videoUrl ? "not-allowed" : "pointer",
                     fontSize: "14px",
                     fontWeight: "bold",
                   }}
@@ -949,6 +1901,114 @@ export default function CreatorDashboard() {
           </div>
         </div>
       )}
+
+      {/* Dispute Modal */}
+      {disputeModal && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: "rgba(0,0,0,0.5)",
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          zIndex: 1000,
+        }}>
+          <div style={{
+            backgroundColor: "white",
+            borderRadius: "8px",
+            padding: "24px",
+            width: "100%",
+            maxWidth: "500px",
+            margin: "20px",
+          }}>
+            <h2 style={{ margin: "0 0 16px", fontSize: "20px" }}>
+              Dispute Rejection
+            </h2>
+            <p style={{ color: "#666", marginBottom: "20px" }}>
+              Explain why &quot;{disputeModal.mission.title}&quot; should not have been rejected. The platform
+              reviews the dispute and either upholds the rejection or has you paid.
+            </p>
+
+            {disputeError && (
+              <div style={{
+                padding: "12px",
+                backgroundColor: "#ffebee",
+                color: "#c62828",
+                borderRadius: "4px",
+                marginBottom: "16px",
+              }}>
+                {disputeError}
+              </div>
+            )}
+
+            <form onSubmit={handleDispute}>
+              <div style={{ marginBottom: "16px" }}>
+                <label
+                  htmlFor="disputeReason"
+                  style={{ display: "block", marginBottom: "8px", fontWeight: "bold" }}
+                >
+                  Why the rejection is wrong
+                </label>
+                <textarea
+                  id="disputeReason"
+                  value={disputeReason}
+                  onChange={(e) => setDisputeReason(e.target.value)}
+                  maxLength={2000}
+                  rows={5}
+                  required
+                  style={{
+                    width: "100%",
+                    padding: "12px",
+                    fontSize: "16px",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    boxSizing: "border-box",
+                    resize: "vertical",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: "12px", justifyContent: "flex-end" }}>
+                <button
+                  type="button"
+                  onClick={() => setDisputeModal(null)}
+                  disabled={disputeLoading}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: "#f5f5f5",
+                    color: "#333",
+                    border: "1px solid #ccc",
+                    borderRadius: "4px",
+                    cursor: disputeLoading ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={disputeLoading || !disputeReason.trim()}
+                  style={{
+                    padding: "12px 24px",
+                    backgroundColor: disputeLoading || !disputeReason.trim() ? "#ccc" : "#ad1457",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: disputeLoading || !disputeReason.trim() ? "not-allowed" : "pointer",
+                    fontSize: "14px",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {disputeLoading ? "Sending..." : "Open Dispute"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
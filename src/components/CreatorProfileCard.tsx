@@ -0,0 +1,90 @@
+"use client";
+
+export interface CreatorProfile {
+  creator_id: string;
+  display_name: string;
+  bio: string | null;
+  avatar_url: string | null;
+  socials: {
+    platform: "TIKTOK" | "INSTAGRAM" | "YOUTUBE";
+    handle: string;
+    follower_count: number | null;
+    follower_count_source: "MANUAL" | "IMPORTED" | null;
+  }[];
+  total_followers: number;
+}
+
+interface CreatorProfileCardProps {
+  profile: CreatorProfile | null | undefined;
+}
+
+const socialPlatformLabels: Record<CreatorProfile["socials"][number]["platform"], string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM: "Instagram",
+  YOUTUBE: "YouTube",
+};
+
+const formatFollowers = (count: number) => {
+  return new Intl.NumberFormat("en-US", { notation: "compact" }).format(count);
+};
+
+export default function CreatorProfileCard({ profile }: CreatorProfileCardProps) {
+  if (!profile) {
+    return (
+      <div style={{ color: "#999", fontSize: "13px", marginBottom: "12px" }}>
+        Creator has not set up a profile yet.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      display: "flex",
+      gap: "12px",
+      alignItems: "flex-start",
+      padding: "12px",
+      marginBottom: "12px",
+      backgroundColor: "#f8f9fa",
+      borderRadius: "6px",
+    }}>
+      <div style={{
+        width: "40px",
+        height: "40px",
+        flexShrink: 0,
+        borderRadius: "50%",
+        backgroundColor: "#ddd",
+        backgroundImage: profile.avatar_url ? `url(${JSON.stringify(profile.avatar_url)})` : undefined,
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+      }} />
+      <div>
+        <div style={{ fontWeight: "bold", fontSize: "14px" }}>
+          {profile.display_name}
+          <span style={{ color: "#666", fontWeight: "normal", marginLeft: "8px" }}>
+            {formatFollowers(profile.total_followers)} followers
+          </span>
+        </div>
+        {profile.bio && (
+          <div style={{ color: "#666", fontSize: "13px", marginTop: "4px" }}>
+            {profile.bio}
+          </div>
+        )}
+        {profile.socials.length > 0 && (
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "12px", marginTop: "4px", fontSize: "13px" }}>
+            {profile.socials.map((social) => (
+              <span key={social.platform} style={{ color: "#333" }}>
+                {socialPlatformLabels[social.platform]} @{social.handle}
+                {social.follower_count !== null && (
+                  <span style={{ color: "#999" }}>
+                    {" "}· {formatFollowers(social.follower_count)}
+                    {social.follower_count_source === "MANUAL" ? " (self-reported)" : ""}
+                  </span>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import type { DbExecutor } from "@/lib/db";
+import { canTransition, MissionState } from "@/lib/state/mission";
+import { transitionMission } from "@/lib/state/transitions";
+import { recordAdminAction } from "@/lib/admin/audit";
+import {
+  getAssignmentContext,
+  isAcceptingCreators,
+  releaseAssignmentReservation,
+  type MissionAssignment,
+} from "@/lib/missions/assignments";
+import { recordReviewDecision } from "@/lib/missions/submissions";
+
+// States an admin can move an assignment to. Payments go through retryPayout and
+// disputes through resolveDispute, so a forced transition never moves money itself.
+export const FORCEABLE_STATES = [MissionState.VERIFIED, MissionState.REJECTED, MissionState.EXPIRED] as const;
+export type ForceableState = (typeof FORCEABLE_STATES)[number];
+
+export type ForceTransitionResult =
+  | { status: "transitioned"; assignment: MissionAssignment; from: MissionState }
+  | { status: "not_found" }
+  | { status: "conflict"; error: string };
+
+/**
+ * Move an assignment to `to` without waiting for the artist, creator or jobs, e.g. when
+ * a review is stuck. Only transitions the state machine allows, with the same side effects
+ * as the regular path: a verdict on the pending submission (decision source ADMIN), and
+ * the reserved payout released on rejection or expiry (unless the slot reopens).
+ */
+export async function forceTransition(
+  db: DbExecutor,
+  params: { assignmentId: string; to: ForceableState; reason: string; adminUserId: number }
+): Promise<ForceTransitionResult> {
+  return db.transaction(async (tx) => {
+    const context = await getAssignmentContext(tx, params.assignmentId);
+    if (!context) {
+      return { status: "not_found" } as const;
+    }
+    const { assignment, mission, campaign } = context;
+
+    const from = assignment.state as MissionState;
+    if (from === MissionState.DISPUTED) {
+      return { status: "conflict", error: "Assignment is disputed; resolve the dispute instead" } as const;
+    }
+    if (!canTransition(from, params.to)) {
+      return { status: "conflict", error: `Cannot move an assignment from ${from} to ${params.to}` } as const;
+    }
+
+    const transition = await transitionMission(tx, {
+      assignmentId: assignment.id,
+      from,
+      to: params.to,
+      actor: { type: "ADMIN", userId: params.adminUserId },
+      reason: params.reason,
+      metadata: { forced: true },
+    });
+
+    if (transition.status === "conflict") {
+      return { status: "conflict", error: transition.error } as const;
+    }
+
+    if (params.to === MissionState.VERIFIED || params.to === MissionState.REJECTED) {
+      await recordReviewDecision(tx, {
+        assignmentId: assignment.id,
+        decision: params.to,
+        reviewerId: params.adminUserId,
+        source: "ADMIN",
+        rejectionReason: params.to === MissionState.REJECTED ? "OTHER" : null,
+        notes: params.reason,
+      });
+    }
+
+    // An expired assignment on a mission still taking creators gives its slot back instead
+    const releases =
+      params.to === MissionState.REJECTED || (params.to === MissionState.EXPIRED && !isAcceptingCreators(mission));
+    if (releases) {
+      await releaseAssignmentReservation(tx, {
+        assignment,
+        mission,
+        currency: campaign.currency,
+        reason: params.to === MissionState.REJECTED ? "rejected by admin" : "expired by admin",
+      });
+    }
+
+    await recordAdminAction(tx, {
+      adminUserId: params.adminUserId,
+      action: "FORCE_TRANSITION",
+      targetType: "assignment",
+      targetId: assignment.id,
+      reason: params.reason,
+      metadata: { from, to: params.to, mission_id: mission.id },
+    });
+
+    return { status: "transitioned", assignment: transition.assignment, from } as const;
+  });
+}
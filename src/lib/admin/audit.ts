@@ -0,0 +1,56 @@
+import { and, desc, eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { admin_actions } from "@/lib/db/schema";
+
+export type AdminAction = typeof admin_actions.$inferSelect;
+export type AdminActionType = AdminAction["action"];
+export type AdminTargetType = "user" | "assignment" | "payout" | "dispute" | "stripe_event";
+
+/**
+ * Append an admin action to the audit log. Call inside the transaction that makes the
+ * change when there is one, so the change is never committed without its audit entry.
+ */
+export async function recordAdminAction(
+  db: DbExecutor,
+  params: {
+    adminUserId: number;
+    action: AdminActionType;
+    targetType: AdminTargetType;
+    targetId: string | number;
+    reason?: string | null;
+    metadata?: Record<string, unknown> | null;
+  }
+): Promise<AdminAction> {
+  const [action] = await db
+    .insert(admin_actions)
+    .values({
+      admin_user_id: params.adminUserId,
+      action: params.action,
+      target_type: params.targetType,
+      target_id: String(params.targetId),
+      reason: params.reason ?? null,
+      metadata: params.metadata ?? null,
+    })
+    .returning();
+
+  return action;
+}
+
+/**
+ * The 100 most recent admin actions, optionally only those on one target
+ */
+export async function getAdminActions(
+  db: DbExecutor,
+  target?: { type: AdminTargetType; id: string | number }
+): Promise<AdminAction[]> {
+  return db
+    .select()
+    .from(admin_actions)
+    .where(
+      target
+        ? and(eq(admin_actions.target_type, target.type), eq(admin_actions.target_id, String(target.id)))
+        : undefined
+    )
+    .orderBy(desc(admin_actions.created_at))
+    .limit(100);
+}
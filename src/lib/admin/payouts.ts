@@ -0,0 +1,76 @@
+import { eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { payouts } from "@/lib/db/schema";
+import { recordAdminAction } from "@/lib/admin/audit";
+import { getAssignmentContext } from "@/lib/missions/assignments";
+import { payVerifiedAssignment, type PayAssignmentResult, type Payout } from "@/lib/payments/payouts";
+
+export type RetryPayoutResult =
+  | { status: "retried"; payment: PayAssignmentResult }
+  | { status: "not_found" }
+  | { status: "conflict"; error: string };
+
+const RETRYABLE_PAYOUT_STATUSES: Payout["status"][] = ["FAILED", "REVERSED"];
+
+/**
+ * Pay an assignment again after its payout failed or was reversed, as the artist's payout
+ * endpoint would (a new attempt with its own idempotency key). The attempt is audited
+ * whatever its outcome; Stripe errors are reported as a skipped payment, not thrown.
+ */
+export async function retryPayout(
+  db: DbExecutor,
+  params: { payoutId: string; adminUserId: number; reason?: string | null }
+): Promise<RetryPayoutResult> {
+  const [payout] = await db
+    .select()
+    .from(payouts)
+    .where(eq(payouts.id, params.payoutId))
+    .limit(1);
+
+  if (!payout) {
+    return { status: "not_found" };
+  }
+  if (payout.bonus_tier_id) {
+    return { status: "conflict", error: "Bonus payouts are retried by the bonus job" };
+  }
+  if (!RETRYABLE_PAYOUT_STATUSES.includes(payout.status)) {
+    return { status: "conflict", error: `Only failed or reversed payouts can be retried. Current status: ${payout.status}` };
+  }
+
+  const context = await getAssignmentContext(db, payout.assignment_id);
+  if (!context) {
+    return { status: "not_found" };
+  }
+
+  const { assignment, mission, campaign } = context;
+  if (assignment.state !== "VERIFIED" && assignment.state !== "PAYOUT_FAILED") {
+    return { status: "conflict", error: `Assignment is not VERIFIED or PAYOUT_FAILED. Current state: ${assignment.state}` };
+  }
+
+  let payment: PayAssignmentResult;
+  try {
+    payment = await payVerifiedAssignment(db, {
+      assignment,
+      mission,
+      campaign,
+      actor: { type: "ADMIN", userId: params.adminUserId },
+    });
+  } catch (error) {
+    console.error(`Failed to retry payout ${payout.id}:`, error);
+    payment = { status: "skipped", reason: error instanceof Error ? error.message : "Transfer failed" };
+  }
+
+  await recordAdminAction(db, {
+    adminUserId: params.adminUserId,
+    action: "RETRY_PAYOUT",
+    targetType: "payout",
+    targetId: payout.id,
+    reason: params.reason,
+    metadata:
+      payment.status === "paid"
+        ? { outcome: "paid", assignment_id: assignment.id, new_payout_id: payment.payout.id }
+        : { outcome: "skipped", assignment_id: assignment.id, error: payment.reason },
+  });
+
+  return { status: "retried", payment };
+}
@@ -0,0 +1,100 @@
+import { eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { recordAdminAction } from "@/lib/admin/audit";
+
+export type AppUser = typeof users.$inferSelect;
+
+export type SuspensionResult =
+  | { status: "updated"; user: AppUser }
+  | { status: "not_found" }
+  | { status: "conflict"; error: string };
+
+/**
+ * Suspend a user: requireRole refuses them from then on, whatever their roles.
+ * Work already in progress (assignments, payouts) is left as it is.
+ */
+export async function suspendUser(
+  db: DbExecutor,
+  params: { userId: number; adminUserId: number; reason: string }
+): Promise<SuspensionResult> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select()
+      .from(users)
+      .where(eq(users.id, params.userId))
+      .for("update");
+
+    if (!user) {
+      return { status: "not_found" } as const;
+    }
+    if (user.id === params.adminUserId) {
+      return { status: "conflict", error: "You cannot suspend your own account" } as const;
+    }
+    if (user.suspended_at) {
+      return { status: "conflict", error: "User is already suspended" } as const;
+    }
+
+    const [updated] = await tx
+      .update(users)
+      .set({
+        suspended_at: new Date(),
+        suspension_reason: params.reason,
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    await recordAdminAction(tx, {
+      adminUserId: params.adminUserId,
+      action: "SUSPEND_USER",
+      targetType: "user",
+      targetId: user.id,
+      reason: params.reason,
+    });
+
+    return { status: "updated", user: updated } as const;
+  });
+}
+
+/**
+ * Lift a user's suspension
+ */
+export async function reinstateUser(
+  db: DbExecutor,
+  params: { userId: number; adminUserId: number; reason?: string | null }
+): Promise<SuspensionResult> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select()
+      .from(users)
+      .where(eq(users.id, params.userId))
+      .for("update");
+
+    if (!user) {
+      return { status: "not_found" } as const;
+    }
+    if (!user.suspended_at) {
+      return { status: "conflict", error: "User is not suspended" } as const;
+    }
+
+    const [updated] = await tx
+      .update(users)
+      .set({
+        suspended_at: null,
+        suspension_reason: null,
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    await recordAdminAction(tx, {
+      adminUserId: params.adminUserId,
+      action: "REINSTATE_USER",
+      targetType: "user",
+      targetId: user.id,
+      reason: params.reason,
+      metadata: { suspended_at: user.suspended_at, suspension_reason: user.suspension_reason },
+    });
+
+    return { status: "updated", user: updated } as const;
+  });
+}
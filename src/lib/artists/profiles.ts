@@ -0,0 +1,61 @@
+import { eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { artist_profiles } from "@/lib/db/schema";
+
+export type ArtistProfile = typeof artist_profiles.$inferSelect;
+
+export interface ArtistProfileInput {
+  displayName: string;
+  genre?: string | null;
+  bio?: string | null;
+  avatarUrl?: string | null;
+  links: string[];
+  trackTitle?: string | null;
+  trackUrl?: string | null;
+}
+
+/**
+ * Load an artist's profile by their app user ID (the campaigns' artist_id), or null if not set up
+ */
+export async function getArtistProfile(
+  db: DbExecutor,
+  artistId: number
+): Promise<ArtistProfile | null> {
+  const [profile] = await db
+    .select()
+    .from(artist_profiles)
+    .where(eq(artist_profiles.user_id, artistId))
+    .limit(1);
+
+  return profile || null;
+}
+
+/**
+ * Create or replace an artist's profile
+ */
+export async function saveArtistProfile(
+  db: DbExecutor,
+  artistId: number,
+  input: ArtistProfileInput
+): Promise<ArtistProfile> {
+  const values = {
+    display_name: input.displayName,
+    genre: input.genre ?? null,
+    bio: input.bio ?? null,
+    avatar_url: input.avatarUrl ?? null,
+    links: input.links,
+    track_title: input.trackTitle ?? null,
+    track_url: input.trackUrl ?? null,
+  };
+
+  const [profile] = await db
+    .insert(artist_profiles)
+    .values({ user_id: artistId, ...values })
+    .onConflictDoUpdate({
+      target: artist_profiles.user_id,
+      set: { ...values, updated_at: new Date() },
+    })
+    .returning();
+
+  return profile;
+}
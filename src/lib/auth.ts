@@ -1,5 +1,6 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextRequest } from "next/server";
+import { ForbiddenError, UnauthorizedError } from "@/lib/http/errors";
 
 /**
  * Get Supabase auth user ID from request headers
@@ -49,7 +50,13 @@ export async function getAuthUserId(request: NextRequest | Request): Promise<str
   }
 }
 
-export type UserRole = "ARTIST" | "CREATOR";
+export type UserRole = "ARTIST" | "CREATOR" | "ADMIN";
+
+// Signed-in user with their app account, as returned by requireRole
+export interface AuthenticatedUser {
+  authUserId: string;
+  appUser: { id: number; roles: UserRole[] };
+}
 
 /**
  * Get app user record from public.users table by auth_user_id
@@ -58,7 +65,7 @@ export type UserRole = "ARTIST" | "CREATOR";
 export async function getAppUser(
   authUserId: string,
   requiredRole?: UserRole
-): Promise<{ id: number; roles: UserRole[] } | null> {
+): Promise<{ id: number; roles: UserRole[]; suspended_at: Date | null } | null> {
   const { getDb } = await import("@/lib/db");
   const { users } = await import("@/lib/db/schema");
   const { eq } = await import("drizzle-orm");
@@ -87,7 +94,7 @@ export async function getAppUser(
     return null;
   }
 
-  return { id: user.id, roles };
+  return { id: user.id, roles, suspended_at: user.suspended_at };
 }
 
 /**
@@ -96,25 +103,55 @@ export async function getAppUser(
 export async function requireAuth(request: NextRequest | Request): Promise<string> {
   const userId = await getAuthUserId(request);
   if (!userId) {
-    throw new Error("UNAUTHORIZED");
+    throw new UnauthorizedError();
   }
   return userId;
 }
 
 /**
- * Require specific role and return app user or throw 403
+ * Require a signed-in user with an app account, whatever their roles, or throw 401/403.
+ * Suspended users are refused.
+ */
+export async function requireUser(request: NextRequest | Request): Promise<AuthenticatedUser> {
+  const authUserId = await requireAuth(request);
+  const appUser = await getAppUser(authUserId);
+
+  if (!appUser) {
+    throw new ForbiddenError();
+  }
+
+  if (appUser.suspended_at) {
+    throw new ForbiddenError("Forbidden: Your account is suspended");
+  }
+
+  return { authUserId, appUser: { id: appUser.id, roles: appUser.roles } };
+}
+
+/**
+ * Require specific role and return app user or throw 403. Suspended users are refused whatever their role.
  */
 export async function requireRole(
   request: NextRequest | Request,
   requiredRole: UserRole
-): Promise<{ authUserId: string; appUser: { id: number; roles: UserRole[] } }> {
-  const authUserId = await requireAuth(request);
-  const appUser = await getAppUser(authUserId, requiredRole);
+): Promise<AuthenticatedUser> {
+  const user = await requireUser(request);
 
-  if (!appUser || !appUser.roles.includes(requiredRole)) {
-    throw new Error("FORBIDDEN");
+  if (!user.appUser.roles.includes(requiredRole)) {
+    throw new ForbiddenError();
   }
 
-  return { authUserId, appUser };
+  return user;
 }
 
+
+/**
+ * Require the shared secret sent by the job scheduler (Authorization: Bearer <CRON_SECRET>) or throw 401
+ */
+export function requireCronSecret(request: NextRequest | Request): void {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    throw new UnauthorizedError();
+  }
+}
@@ -0,0 +1,179 @@
+import { and, eq, notInArray, asc } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { creator_profiles, creator_social_accounts, users } from "@/lib/db/schema";
+
+export type CreatorProfile = typeof creator_profiles.$inferSelect;
+export type CreatorSocialAccount = typeof creator_social_accounts.$inferSelect;
+export type SocialPlatform = CreatorSocialAccount["platform"];
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = ["TIKTOK", "INSTAGRAM", "YOUTUBE"];
+
+// Profile as returned by the API, keyed by the creator's Supabase auth ID like mission assignments
+export interface CreatorProfileView {
+  creator_id: string;
+  display_name: string;
+  bio: string | null;
+  avatar_url: string | null;
+  socials: {
+    platform: SocialPlatform;
+    handle: string;
+    follower_count: number | null;
+    follower_count_source: CreatorSocialAccount["follower_count_source"];
+    follower_count_updated_at: Date | null;
+  }[];
+  total_followers: number;
+  updated_at: Date;
+}
+
+export interface CreatorProfileInput {
+  displayName: string;
+  bio?: string | null;
+  avatarUrl?: string | null;
+  socials: { platform: SocialPlatform; handle: string; followerCount?: number | null }[];
+}
+
+/**
+ * Handles are stored without the leading @ so they compare and link consistently
+ */
+export function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@+/, "");
+}
+
+/**
+ * Load a creator's profile with linked social accounts, or null if they have not set one up
+ */
+export async function getCreatorProfile(
+  db: DbExecutor,
+  creatorId: string
+): Promise<CreatorProfileView | null> {
+  const [row] = await db
+    .select({ profile: creator_profiles, auth_user_id: users.auth_user_id })
+    .from(creator_profiles)
+    .innerJoin(users, eq(users.id, creator_profiles.user_id))
+    .where(eq(users.auth_user_id, creatorId))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const socials = await db
+    .select()
+    .from(creator_social_accounts)
+    .where(eq(creator_social_accounts.user_id, row.profile.user_id))
+    .orderBy(asc(creator_social_accounts.platform));
+
+  return {
+    creator_id: creatorId,
+    display_name: row.profile.display_name,
+    bio: row.profile.bio,
+    avatar_url: row.profile.avatar_url,
+    socials: socials.map((social) => ({
+      platform: social.platform,
+      handle: social.handle,
+      follower_count: social.follower_count,
+      follower_count_source: social.follower_count_source,
+      follower_count_updated_at: social.follower_count_updated_at,
+    })),
+    total_followers: socials.reduce((sum, social) => sum + (social.follower_count ?? 0), 0),
+    updated_at: row.profile.updated_at,
+  };
+}
+
+/**
+ * Create or replace a creator's profile. Social accounts not in the input are unlinked;
+ * follower counts given here are recorded as entered by the creator.
+ */
+export async function saveCreatorProfile(
+  db: DbExecutor,
+  userId: number,
+  input: CreatorProfileInput
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const now = new Date();
+
+    await tx
+      .insert(creator_profiles)
+      .values({
+        user_id: userId,
+        display_name: input.displayName,
+        bio: input.bio ?? null,
+        avatar_url: input.avatarUrl ?? null,
+      })
+      .onConflictDoUpdate({
+        target: creator_profiles.user_id,
+        set: {
+          display_name: input.displayName,
+          bio: input.bio ?? null,
+          avatar_url: input.avatarUrl ?? null,
+          updated_at: now,
+        },
+      });
+
+    const platforms = input.socials.map((social) => social.platform);
+    await tx
+      .delete(creator_social_accounts)
+      .where(
+        platforms.length > 0
+          ? and(
+              eq(creator_social_accounts.user_id, userId),
+              notInArray(creator_social_accounts.platform, platforms)
+            )
+          : eq(creator_social_accounts.user_id, userId)
+      );
+
+    for (const social of input.socials) {
+      const followerCount = social.followerCount ?? null;
+      const counts = {
+        follower_count: followerCount,
+        follower_count_source: followerCount === null ? null : ("MANUAL" as const),
+        follower_count_updated_at: followerCount === null ? null : now,
+      };
+
+      await tx
+        .insert(creator_social_accounts)
+        .values({
+          user_id: userId,
+          platform: social.platform,
+          handle: normalizeHandle(social.handle),
+          ...counts,
+        })
+        .onConflictDoUpdate({
+          target: [creator_social_accounts.user_id, creator_social_accounts.platform],
+          set: {
+            handle: normalizeHandle(social.handle),
+            ...counts,
+            updated_at: now,
+          },
+        });
+    }
+  });
+}
+
+/**
+ * Store a follower count pulled from the platform for an already linked account.
+ * Returns false if the creator has not linked that platform.
+ */
+export async function recordImportedFollowerCount(
+  db: DbExecutor,
+  params: { userId: number; platform: SocialPlatform; followerCount: number }
+): Promise<boolean> {
+  const now = new Date();
+  const updated = await db
+    .update(creator_social_accounts)
+    .set({
+      follower_count: params.followerCount,
+      follower_count_source: "IMPORTED",
+      follower_count_updated_at: now,
+      updated_at: now,
+    })
+    .where(
+      and(
+        eq(creator_social_accounts.user_id, params.userId),
+        eq(creator_social_accounts.platform, params.platform)
+      )
+    )
+    .returning({ id: creator_social_accounts.id });
+
+  return updated.length > 0;
+}
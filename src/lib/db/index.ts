@@ -33,3 +33,10 @@ export function getDb() {
   return dbInstance;
 }
 
+
+export type Database = ReturnType<typeof getDb>;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Either the root connection or an open transaction; helpers that write
+// related rows accept this so callers can compose them atomically
+export type DbExecutor = Database | Transaction;
@@ -1,24 +1,146 @@
-import { pgEnum, pgTable, serial, timestamp, varchar, integer, bigint, uuid, text } from "drizzle-orm/pg-core";
+import { pgEnum, pgTable, serial, timestamp, varchar, integer, bigint, boolean, uuid, text, index, uniqueIndex, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
-export const userRoleEnum = pgEnum("user_role", ["ARTIST", "CREATOR"]);
+export const userRoleEnum = pgEnum("user_role", ["ARTIST", "CREATOR", "ADMIN"]);
 
 // Valid roles for the roles array
-export type UserRole = "ARTIST" | "CREATOR";
-export const VALID_ROLES: UserRole[] = ["ARTIST", "CREATOR"];
+export type UserRole = "ARTIST" | "CREATOR" | "ADMIN";
+export const VALID_ROLES: UserRole[] = ["ARTIST", "CREATOR", "ADMIN"];
+
+// Roles users can give themselves at sign-up; ADMIN is only granted directly in the database
+export const SELF_ASSIGNABLE_ROLES: UserRole[] = ["ARTIST", "CREATOR"];
 
 export const paymentStatusEnum = pgEnum("payment_status", [
   "PENDING",
   "FUNDED",
+  "PARTIALLY_REFUNDED",
   "REFUNDED",
 ]);
 
+export const fundingTypeEnum = pgEnum("funding_type", [
+  "INITIAL", // Created with the campaign for its original budget
+  "TOP_UP", // Added later; increases budget_cents once paid
+]);
+
 export const missionStateEnum = pgEnum("mission_state", [
   "OPEN",
+  "APPLICATIONS_OPEN", // Creators apply with a pitch and the artist picks who gets a slot
   "ACCEPTED",
   "SUBMITTED",
+  "CHANGES_REQUESTED", // Artist asked for a revision; creator resubmits
   "VERIFIED",
   "PAID",
   "REJECTED",
+  "CANCELLED",
+  "PAYOUT_FAILED", // Transfer failed or was reversed; payout can be retried
+  "EXPIRED", // Deadline passed before the mission was completed; reservation released
+  "DISPUTED", // Creator contested the rejection; an admin verifies it or upholds the rejection
+]);
+
+// Artist's decision on a single submission attempt
+export const submissionDecisionEnum = pgEnum("submission_decision", [
+  "VERIFIED",
+  "REJECTED",
+  "CHANGES_REQUESTED",
+]);
+
+// Who made a submission decision
+export const decisionSourceEnum = pgEnum("decision_source", [
+  "ARTIST",
+  "AUTO_RULES", // Passed the campaign's verification rules
+  "REVIEW_SLA", // Not reviewed before the campaign's review deadline
+  "ADMIN", // Rejection overturned on dispute, or review forced from the back office
+]);
+
+// Why the artist rejected a submission
+export const rejectionReasonEnum = pgEnum("rejection_reason", [
+  "NOT_POSTED", // Video missing, private or deleted
+  "BRIEF_NOT_FOLLOWED",
+  "WRONG_SOUND",
+  "LOW_QUALITY",
+  "INAPPROPRIATE",
+  "DUPLICATE",
+  "OTHER",
+]);
+
+export const disputeStatusEnum = pgEnum("dispute_status", [
+  "OPEN",
+  "UPHELD", // Rejection stands
+  "OVERTURNED", // Submission verified and paid
+]);
+
+export const eventActorEnum = pgEnum("event_actor", [
+  "ARTIST",
+  "CREATOR",
+  "ADMIN",
+  "SYSTEM", // Scheduled jobs and Stripe webhooks
+]);
+
+export const adminActionTypeEnum = pgEnum("admin_action_type", [
+  "SUSPEND_USER",
+  "REINSTATE_USER",
+  "FORCE_TRANSITION", // Assignment moved to another state on the admin's say-so
+  "RETRY_PAYOUT",
+  "RESOLVE_DISPUTE",
+  "REPLAY_STRIPE_EVENT",
+]);
+
+export const applicationStatusEnum = pgEnum("application_status", [
+  "PENDING",
+  "APPROVED", // Creator was given a slot (see assignment_id)
+  "REJECTED",
+]);
+
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "APPLICATION_APPROVED",
+  "APPLICATION_REJECTED",
+  "REVIEW_DEADLINE_APPROACHING",
+  "SUBMISSION_AUTO_APPROVED",
+  "DISPUTE_OPENED",
+  "DISPUTE_RESOLVED",
+  "REVIEW_OVERDUE",
+]);
+
+export const socialPlatformEnum = pgEnum("social_platform", ["TIKTOK", "INSTAGRAM", "YOUTUBE"]);
+
+// Where a submitted video is posted
+export const videoPlatformEnum = pgEnum("video_platform", ["TIKTOK", "INSTAGRAM_REELS", "YOUTUBE_SHORTS", "X"]);
+
+export const followerCountSourceEnum = pgEnum("follower_count_source", [
+  "MANUAL", // Entered by the creator
+  "IMPORTED", // Pulled from the platform
+]);
+
+// Ledger accounts tracked per campaign. Entries are signed: positive = debit, negative = credit
+export const ledgerAccountEnum = pgEnum("ledger_account", [
+  "ARTIST_FUNDING", // Counterparty for money paid in by (or refunded to) the artist
+  "CAMPAIGN_AVAILABLE", // Funded but not yet committed to a mission
+  "CAMPAIGN_RESERVED", // Committed to missions that have not been paid yet
+  "CREATOR_PAYOUTS", // Transferred to creators
+]);
+
+export const ledgerTransactionTypeEnum = pgEnum("ledger_transaction_type", [
+  "FUNDING",
+  "RESERVATION",
+  "RELEASE",
+  "PAYOUT",
+  "REVERSAL",
+  "REFUND",
+]);
+
+export const payoutStatusEnum = pgEnum("payout_status", [
+  "PENDING", // Recorded, not yet sent to Stripe
+  "SUBMITTED", // Sent to Stripe, outcome not yet known
+  "SUCCEEDED",
+  "FAILED",
+  "REVERSED",
+]);
+
+export const stripeEventStatusEnum = pgEnum("stripe_event_status", [
+  "PENDING",
+  "PROCESSING",
+  "PROCESSED",
+  "FAILED", // Retried while next_attempt_at is set; gave up once it is null
 ]);
 
 export const users = pgTable("users", {
@@ -28,9 +150,52 @@ export const users = pgTable("users", {
   roles: text("roles").array().notNull().default([]), // Array of roles: ["ARTIST"], ["CREATOR"], or ["ARTIST", "CREATOR"]
   stripe_account_id: varchar("stripe_account_id"), // Stripe Connect account ID for creators
   stripe_onboarding_complete: timestamp("stripe_onboarding_complete"), // When onboarding was completed
+  suspended_at: timestamp("suspended_at"), // Set by an admin; suspended users cannot use role-protected endpoints
+  suspension_reason: text("suspension_reason"),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Public profile of a creator, shown to artists reviewing their work
+export const creator_profiles = pgTable("creator_profiles", {
+  user_id: integer("user_id").primaryKey().references(() => users.id),
+  display_name: varchar("display_name").notNull(),
+  bio: text("bio"),
+  avatar_url: text("avatar_url"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Social accounts linked to a creator profile, at most one per platform
+export const creator_social_accounts = pgTable(
+  "creator_social_accounts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    user_id: integer("user_id").references(() => creator_profiles.user_id).notNull(),
+    platform: socialPlatformEnum("platform").notNull(),
+    handle: varchar("handle").notNull(), // Without the leading @
+    follower_count: integer("follower_count"),
+    follower_count_source: followerCountSourceEnum("follower_count_source"),
+    follower_count_updated_at: timestamp("follower_count_updated_at"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("creator_social_accounts_user_platform_idx").on(table.user_id, table.platform)]
+);
+
+// Public profile of an artist, shown on their campaign pages
+export const artist_profiles = pgTable("artist_profiles", {
+  user_id: integer("user_id").primaryKey().references(() => users.id),
+  display_name: varchar("display_name").notNull(),
+  genre: varchar("genre"),
+  bio: text("bio"),
+  avatar_url: text("avatar_url"),
+  links: text("links").array().notNull().default([]), // Website, streaming and social profile URLs
+  track_title: varchar("track_title"), // Track or sound creators should use in their videos
+  track_url: text("track_url"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const campaigns = pgTable("campaigns", {
   id: serial("id").primaryKey(),
   artist_id: integer("artist_id").references(() => users.id).notNull(),
@@ -40,25 +205,285 @@ export const campaigns = pgTable("campaigns", {
   currency: varchar("currency").notNull(),
   payment_intent_id: varchar("payment_intent_id"),
   payment_status: paymentStatusEnum("payment_status").notNull().default("PENDING"),
+  cancelled_at: timestamp("cancelled_at"), // Set when the artist cancels; no new missions after this
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per PaymentIntent paying into a campaign (initial funding and top-ups)
+export const campaign_fundings = pgTable("campaign_fundings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+  payment_intent_id: varchar("payment_intent_id").notNull().unique(),
+  type: fundingTypeEnum("type").notNull(),
+  amount_cents: bigint("amount_cents", { mode: "number" }).notNull(),
+  currency: varchar("currency").notNull(),
+  status: paymentStatusEnum("status").notNull().default("PENDING"),
+  refunded_cents: bigint("refunded_cents", { mode: "number" }).notNull().default(0),
+  funded_at: timestamp("funded_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Checks a campaign's submissions must pass to be verified without the artist; each rule is off when unset
+export const campaign_verification_rules = pgTable("campaign_verification_rules", {
+  campaign_id: integer("campaign_id").primaryKey().references(() => campaigns.id),
+  enabled: boolean("enabled").notNull().default(false),
+  require_public: boolean("require_public").notNull().default(false),
+  sound_id: varchar("sound_id"), // Platform sound the video must use
+  required_hashtags: text("required_hashtags").array().notNull().default([]), // Lowercase, without "#"
+  require_posted_after_acceptance: boolean("require_posted_after_acceptance").notNull().default(false),
+  min_views: bigint("min_views", { mode: "number" }),
+  min_views_window_hours: integer("min_views_window_hours"), // Hours after posting to reach min_views; no limit when null
+  // Submissions not reviewed this many hours after submitting are approved; applies whether or not enabled is set
+  review_sla_hours: integer("review_sla_hours"),
+  auto_pay_after_review_sla: boolean("auto_pay_after_review_sla").notNull().default(false),
   created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const missions = pgTable("missions", {
   id: uuid("id").primaryKey().defaultRandom(),
   campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
-  creator_id: varchar("creator_id"),
   title: varchar("title").notNull(),
   brief: text("brief"),
-  state: missionStateEnum("state").notNull().default("OPEN"),
-  payout_cents: integer("payout_cents").notNull(),
+  state: missionStateEnum("state").notNull().default("OPEN"), // OPEN or APPLICATIONS_OPEN while taking creators, then CANCELLED or EXPIRED
+  payout_cents: integer("payout_cents").notNull(), // Per slot
+  slots: integer("slots").notNull().default(1), // Number of creators who can take the mission
+  accept_by: timestamp("accept_by"), // Slots still unfilled by then expire
+  submit_window_hours: integer("submit_window_hours"), // Time a creator gets to submit after accepting
+  max_revisions: integer("max_revisions").notNull().default(2), // Revision rounds the artist may request
+  platforms: videoPlatformEnum("platforms").array().notNull().default(["TIKTOK"]), // Where creators may post the video
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const mission_submissions = pgTable("mission_submissions", {
+// Extra payout once a creator's verified video crosses a view count; each tier is paid once per assignment
+export const mission_bonus_tiers = pgTable(
+  "mission_bonus_tiers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+    views_threshold: bigint("views_threshold", { mode: "number" }).notNull(),
+    bonus_cents: integer("bonus_cents").notNull(),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("mission_bonus_tiers_mission_views_idx").on(table.mission_id, table.views_threshold)]
+);
+
+// One creator's take on a mission; each assignment runs through MissionState on its own
+export const mission_assignments = pgTable(
+  "mission_assignments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+    campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+    creator_id: varchar("creator_id").notNull(), // Supabase auth user ID
+    state: missionStateEnum("state").notNull().default("ACCEPTED"),
+    submit_by: timestamp("submit_by"), // Set on acceptance from the mission's submit_window_hours
+    revision_count: integer("revision_count").notNull().default(0),
+    revision_feedback: text("revision_feedback"), // Latest change request from the artist
+    payout_failure_reason: text("payout_failure_reason"), // Set while the assignment is PAYOUT_FAILED
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("mission_assignments_mission_creator_idx").on(table.mission_id, table.creator_id),
+    index("mission_assignments_creator_idx").on(table.creator_id),
+  ]
+);
+
+// A creator's pitch for a mission in APPLICATIONS_OPEN; approving it creates their assignment
+export const mission_applications = pgTable(
+  "mission_applications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+    campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+    creator_id: varchar("creator_id").notNull(), // Supabase auth user ID
+    pitch: text("pitch").notNull(),
+    status: applicationStatusEnum("status").notNull().default("PENDING"),
+    decision_note: text("decision_note"), // Shown to the creator with the decision
+    decided_by: integer("decided_by").references(() => users.id), // Null when decided automatically, e.g. the mission closed
+    decided_at: timestamp("decided_at"),
+    assignment_id: uuid("assignment_id").references(() => mission_assignments.id),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("mission_applications_mission_creator_idx").on(table.mission_id, table.creator_id),
+    index("mission_applications_creator_idx").on(table.creator_id),
+  ]
+);
+
+// In-app messages for a user, e.g. the outcome of a mission application
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    recipient_id: varchar("recipient_id").notNull(), // Supabase auth user ID
+    type: notificationTypeEnum("type").notNull(),
+    title: varchar("title").notNull(),
+    body: text("body"),
+    mission_id: uuid("mission_id").references(() => missions.id),
+    read_at: timestamp("read_at"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("notifications_recipient_idx").on(table.recipient_id, table.created_at)]
+);
+
+// Every submission attempt for an assignment, numbered by version; never overwritten
+export const mission_submissions = pgTable(
+  "mission_submissions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+    assignment_id: uuid("assignment_id").references(() => mission_assignments.id).notNull(),
+    version: integer("version").notNull().default(1),
+    platform: videoPlatformEnum("platform").notNull(),
+    video_url: text("video_url").notNull(), // Canonical URL rebuilt from the platform and video ID
+    video_id: varchar("video_id"), // Platform's own ID for the video; null on TikTok submissions made before it was parsed
+    // Earlier, rejected submission of the same video on another assignment, flagged for the artist
+    duplicate_of_submission_id: uuid("duplicate_of_submission_id").references((): AnyPgColumn => mission_submissions.id),
+    decision: submissionDecisionEnum("decision"), // Null until the artist reviews it
+    reviewer_notes: text("reviewer_notes"),
+    reviewed_by: integer("reviewed_by").references(() => users.id), // Null when decided automatically
+    decision_source: decisionSourceEnum("decision_source"), // Set with decision
+    rejection_reason: rejectionReasonEnum("rejection_reason"), // Set when the artist rejects; kept if overturned
+    auto_verification: jsonb("auto_verification"), // Latest evaluation against the campaign's verification rules
+    review_warning_sent_at: timestamp("review_warning_sent_at"), // Artist warned the review deadline is close
+    review_overdue_notified_at: timestamp("review_overdue_notified_at"), // Artist told a flagged submission is past its review deadline
+    reviewed_at: timestamp("reviewed_at"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("mission_submissions_assignment_version_idx").on(table.assignment_id, table.version),
+    index("mission_submissions_platform_video_idx").on(table.platform, table.video_id),
+  ]
+);
+
+// A creator contesting the rejection of one submission; at most one per submission
+export const assignment_disputes = pgTable("assignment_disputes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  assignment_id: uuid("assignment_id").references(() => mission_assignments.id).notNull(),
+  submission_id: uuid("submission_id").references(() => mission_submissions.id).notNull().unique(),
+  creator_id: varchar("creator_id").notNull(), // Supabase auth user ID
+  reason: text("reason").notNull(),
+  status: disputeStatusEnum("status").notNull().default("OPEN"),
+  resolution_note: text("resolution_note"),
+  resolved_at: timestamp("resolved_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Append-only history of mission and assignment state changes, written in the same
+// transaction as the change itself. assignment_id is null for mission-level changes.
+export const mission_events = pgTable(
+  "mission_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+    assignment_id: uuid("assignment_id").references(() => mission_assignments.id),
+    actor: eventActorEnum("actor").notNull(),
+    actor_user_id: integer("actor_user_id").references(() => users.id), // Null for SYSTEM changes
+    from_state: missionStateEnum("from_state").notNull(),
+    to_state: missionStateEnum("to_state").notNull(),
+    reason: text("reason"),
+    metadata: jsonb("metadata"), // E.g. transfer and payout IDs
+    // Wall-clock time of the insert, not now(): events written in one transaction must keep their order
+    created_at: timestamp("created_at").default(sql`clock_timestamp()`).notNull(),
+  },
+  (table) => [index("mission_events_mission_created_idx").on(table.mission_id, table.created_at)]
+);
+
+// Point-in-time performance snapshots of a submitted video, one row per collection run
+export const submission_metrics = pgTable(
+  "submission_metrics",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    submission_id: uuid("submission_id").references(() => mission_submissions.id).notNull(),
+    provider: varchar("provider").notNull(), // MetricsProvider that reported the numbers
+    views: bigint("views", { mode: "number" }).notNull(),
+    likes: bigint("likes", { mode: "number" }).notNull(),
+    shares: bigint("shares", { mode: "number" }).notNull(),
+    comments: bigint("comments", { mode: "number" }).notNull(),
+    collected_at: timestamp("collected_at").defaultNow().notNull(),
+  },
+  (table) => [index("submission_metrics_submission_collected_idx").on(table.submission_id, table.collected_at)]
+);
+
+export const ledger_transactions = pgTable("ledger_transactions", {
   id: uuid("id").primaryKey().defaultRandom(),
-  mission_id: uuid("mission_id").references(() => missions.id).notNull().unique(),
-  tiktok_url: text("tiktok_url").notNull(),
+  campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+  mission_id: uuid("mission_id").references(() => missions.id),
+  type: ledgerTransactionTypeEnum("type").notNull(),
+  idempotency_key: varchar("idempotency_key").notNull().unique(), // Prevents double-posting on webhook retries
+  stripe_object_id: varchar("stripe_object_id"), // PaymentIntent, Transfer or Charge the money movement belongs to
+  amount_cents: bigint("amount_cents", { mode: "number" }).notNull(),
+  currency: varchar("currency").notNull(),
+  description: text("description"),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const ledger_entries = pgTable(
+  "ledger_entries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    transaction_id: uuid("transaction_id").references(() => ledger_transactions.id).notNull(),
+    campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+    account: ledgerAccountEnum("account").notNull(),
+    amount_cents: bigint("amount_cents", { mode: "number" }).notNull(), // Signed: positive = debit, negative = credit
+    currency: varchar("currency").notNull(),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("ledger_entries_campaign_account_idx").on(table.campaign_id, table.account)]
+);
+
+export const payouts = pgTable("payouts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  mission_id: uuid("mission_id").references(() => missions.id).notNull(),
+  assignment_id: uuid("assignment_id").references(() => mission_assignments.id).notNull(),
+  campaign_id: integer("campaign_id").references(() => campaigns.id).notNull(),
+  creator_user_id: integer("creator_user_id").references(() => users.id).notNull(),
+  destination_account_id: varchar("destination_account_id").notNull(), // Creator's Stripe Connect account
+  amount_cents: integer("amount_cents").notNull(),
+  currency: varchar("currency").notNull(),
+  attempt: integer("attempt").notNull(), // 1 for the first payout attempt of a mission, 2 for the first retry, ...
+  bonus_tier_id: uuid("bonus_tier_id").references(() => mission_bonus_tiers.id), // Set on view bonus payouts; null for the base payout
+  idempotency_key: varchar("idempotency_key").notNull().unique(), // Sent to Stripe so a replayed request never pays twice
+  status: payoutStatusEnum("status").notNull().default("PENDING"),
+  stripe_transfer_id: varchar("stripe_transfer_id"),
+  failure_reason: text("failure_reason"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const stripe_events = pgTable(
+  "stripe_events",
+  {
+    id: varchar("id").primaryKey(), // Stripe event ID (evt_...), so each event is stored once
+    type: varchar("type").notNull(),
+    payload: jsonb("payload").notNull(), // Full verified event as received
+    status: stripeEventStatusEnum("status").notNull().default("PENDING"),
+    attempts: integer("attempts").notNull().default(0),
+    last_error: text("last_error"),
+    next_attempt_at: timestamp("next_attempt_at"),
+    processed_at: timestamp("processed_at"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("stripe_events_status_next_attempt_idx").on(table.status, table.next_attempt_at)]
+);
+
+// Audit log of everything done from the back office, one row per admin action
+export const admin_actions = pgTable(
+  "admin_actions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    admin_user_id: integer("admin_user_id").references(() => users.id).notNull(),
+    action: adminActionTypeEnum("action").notNull(),
+    target_type: varchar("target_type").notNull(), // "user", "assignment", "payout", "dispute" or "stripe_event"
+    target_id: varchar("target_id").notNull(),
+    reason: text("reason"),
+    metadata: jsonb("metadata"), // E.g. the states of a forced transition or a retry's outcome
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("admin_actions_target_idx").on(table.target_type, table.target_id)]
+);
@@ -0,0 +1,44 @@
+/**
+ * Error a route handler can throw to end the request with a specific status.
+ * withErrorHandling turns it into `{ error: message, ...details }`.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly details: Record<string, unknown>;
+
+  constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message = "Bad request", details?: Record<string, unknown>) {
+    super(400, message, details);
+  }
+}
+
+// Missing or invalid credentials
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Unauthorized", details?: Record<string, unknown>) {
+    super(401, message, details);
+  }
+}
+
+// Authenticated, but lacking the role or not owning the resource
+export class ForbiddenError extends HttpError {
+  constructor(message = "Forbidden", details?: Record<string, unknown>) {
+    super(403, message, details);
+  }
+}
+
+// The resource changed under the request (e.g. another request moved its state first)
+export class ConflictError extends HttpError {
+  constructor(message = "Conflict", details?: Record<string, unknown>) {
+    super(409, message, details);
+  }
+}
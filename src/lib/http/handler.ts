@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { HttpError } from "@/lib/http/errors";
+
+type RouteHandler<P> = (request: Request, context: { params: P }) => Promise<Response>;
+
+/**
+ * Response for the errors handlers throw on purpose: HttpErrors (auth, ownership, invalid
+ * state transitions) with their status and zod validation errors as 400.
+ * Null for anything else.
+ */
+export function expectedErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof HttpError) {
+    return NextResponse.json(
+      { error: error.message, ...error.details },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Validation error", details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Wrap a route handler so it can throw instead of building error responses itself.
+ * Unexpected errors are logged as "Error <action>:" and answered with a plain 500.
+ */
+export function withErrorHandling<P = Record<string, never>>(
+  action: string,
+  handler: RouteHandler<P>
+): RouteHandler<P> {
+  return async (request, context) => {
+    try {
+      return await handler(request, context);
+    } catch (error) {
+      const response = expectedErrorResponse(error);
+      if (response) {
+        return response;
+      }
+
+      console.error(`Error ${action}:`, error);
+      return NextResponse.json(
+        { error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  };
+}
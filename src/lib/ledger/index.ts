@@ -0,0 +1,446 @@
+import { and, eq, sql, desc } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import {
+  ledger_entries,
+  ledger_transactions,
+  ledgerAccountEnum,
+  ledgerTransactionTypeEnum,
+} from "@/lib/db/schema";
+
+export type LedgerAccount = (typeof ledgerAccountEnum.enumValues)[number];
+export type LedgerTransactionType = (typeof ledgerTransactionTypeEnum.enumValues)[number];
+export type LedgerTransaction = typeof ledger_transactions.$inferSelect;
+export type LedgerEntry = typeof ledger_entries.$inferSelect;
+
+export interface LedgerEntryInput {
+  account: LedgerAccount;
+  amountCents: number; // Signed: positive = debit, negative = credit
+}
+
+export interface PostTransactionParams {
+  campaignId: number;
+  missionId?: string | null;
+  type: LedgerTransactionType;
+  idempotencyKey: string;
+  stripeObjectId?: string | null;
+  currency: string;
+  description?: string;
+  entries: LedgerEntryInput[];
+}
+
+export interface CampaignBalances {
+  funded_cents: number; // Net amount paid in by the artist (funding minus refunds)
+  available_cents: number;
+  reserved_cents: number;
+  paid_cents: number;
+}
+
+export interface CampaignBudget extends CampaignBalances {
+  budget_cents: number;
+  committed_cents: number; // Reserved for open missions plus already paid out
+  remaining_budget_cents: number;
+}
+
+/**
+ * Post a balanced double-entry transaction.
+ * Returns the transaction, or null if one with the same idempotency key was already posted.
+ */
+export async function postTransaction(
+  db: DbExecutor,
+  params: PostTransactionParams
+): Promise<LedgerTransaction | null> {
+  if (params.entries.length < 2) {
+    throw new Error("Ledger transaction must have at least two entries");
+  }
+
+  if (params.entries.some((entry) => !Number.isInteger(entry.amountCents))) {
+    throw new Error("Ledger entry amounts must be integer cents");
+  }
+
+  const total = params.entries.reduce((sum, entry) => sum + entry.amountCents, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger transaction ${params.idempotencyKey}: entries sum to ${total}`);
+  }
+
+  // Size of the money movement, i.e. the sum of the debit side
+  const amountCents = params.entries
+    .filter((entry) => entry.amountCents > 0)
+    .reduce((sum, entry) => sum + entry.amountCents, 0);
+
+  return db.transaction(async (tx) => {
+    const [transaction] = await tx
+      .insert(ledger_transactions)
+      .values({
+        campaign_id: params.campaignId,
+        mission_id: params.missionId || null,
+        type: params.type,
+        idempotency_key: params.idempotencyKey,
+        stripe_object_id: params.stripeObjectId || null,
+        amount_cents: amountCents,
+        currency: params.currency,
+        description: params.description || null,
+      })
+      .onConflictDoNothing({ target: ledger_transactions.idempotency_key })
+      .returning();
+
+    if (!transaction) {
+      return null;
+    }
+
+    await tx.insert(ledger_entries).values(
+      params.entries.map((entry) => ({
+        transaction_id: transaction.id,
+        campaign_id: params.campaignId,
+        account: entry.account,
+        amount_cents: entry.amountCents,
+        currency: params.currency,
+      }))
+    );
+
+    return transaction;
+  });
+}
+
+/**
+ * Credit a campaign with a succeeded PaymentIntent
+ */
+export async function recordFunding(
+  db: DbExecutor,
+  params: { campaignId: number; paymentIntentId: string; amountCents: number; currency: string }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    type: "FUNDING",
+    idempotencyKey: `funding:${params.paymentIntentId}`,
+    stripeObjectId: params.paymentIntentId,
+    currency: params.currency,
+    description: `Campaign funded by PaymentIntent ${params.paymentIntentId}`,
+    entries: [
+      { account: "CAMPAIGN_AVAILABLE", amountCents: params.amountCents },
+      { account: "ARTIST_FUNDING", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Move a mission's payout (for all of its slots) from the campaign's available balance into reserve
+ */
+export async function reserveMissionPayout(
+  db: DbExecutor,
+  params: { campaignId: number; missionId: string; amountCents: number; currency: string }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "RESERVATION",
+    idempotencyKey: `reservation:${params.missionId}`,
+    currency: params.currency,
+    description: `Reserved payout for mission ${params.missionId}`,
+    entries: [
+      { account: "CAMPAIGN_RESERVED", amountCents: params.amountCents },
+      { account: "CAMPAIGN_AVAILABLE", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Return reserved payout to the campaign's available balance: the unfilled slots of a
+ * mission, or one assignment's share when `assignmentId` is given. Each is released once.
+ */
+export async function releaseMissionReservation(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    missionId: string;
+    assignmentId?: string;
+    amountCents: number;
+    currency: string;
+    reason: string;
+  }
+): Promise<LedgerTransaction | null> {
+  const subject = params.assignmentId
+    ? `assignment ${params.assignmentId} of mission ${params.missionId}`
+    : `mission ${params.missionId}`;
+
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "RELEASE",
+    idempotencyKey: `release:${params.assignmentId ?? params.missionId}`,
+    currency: params.currency,
+    description: `Released payout reservation for ${subject} (${params.reason})`,
+    entries: [
+      { account: "CAMPAIGN_AVAILABLE", amountCents: params.amountCents },
+      { account: "CAMPAIGN_RESERVED", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Reserve one assignment's payout again after it was released, when its rejection is
+ * overturned on dispute. Each assignment is reinstated once.
+ */
+export async function reinstateAssignmentReservation(
+  db: DbExecutor,
+  params: { campaignId: number; missionId: string; assignmentId: string; amountCents: number; currency: string }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "RESERVATION",
+    idempotencyKey: `reinstate:${params.assignmentId}`,
+    currency: params.currency,
+    description: `Reserved payout again for assignment ${params.assignmentId} of mission ${params.missionId} (rejection overturned)`,
+    entries: [
+      { account: "CAMPAIGN_RESERVED", amountCents: params.amountCents },
+      { account: "CAMPAIGN_AVAILABLE", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Move a view bonus earned by an assignment from the campaign's available balance into reserve,
+ * ahead of paying it. Each bonus tier is reserved once per assignment.
+ */
+export async function reserveBonusPayout(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    missionId: string;
+    assignmentId: string;
+    bonusTierId: string;
+    amountCents: number;
+    currency: string;
+  }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "RESERVATION",
+    idempotencyKey: `bonus-reservation:${params.assignmentId}:${params.bonusTierId}`,
+    currency: params.currency,
+    description: `Reserved view bonus (tier ${params.bonusTierId}) for assignment ${params.assignmentId} of mission ${params.missionId}`,
+    entries: [
+      { account: "CAMPAIGN_RESERVED", amountCents: params.amountCents },
+      { account: "CAMPAIGN_AVAILABLE", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Return a view bonus reservation to the campaign's available balance when the bonus is given
+ * up on (its transfers kept failing, or the campaign can no longer pay). Each bonus tier is
+ * released once per assignment.
+ */
+export async function releaseBonusReservation(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    missionId: string;
+    assignmentId: string;
+    bonusTierId: string;
+    amountCents: number;
+    currency: string;
+    reason: string;
+  }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "RELEASE",
+    idempotencyKey: `bonus-release:${params.assignmentId}:${params.bonusTierId}`,
+    currency: params.currency,
+    description: `Released view bonus reservation (tier ${params.bonusTierId}) for assignment ${params.assignmentId} of mission ${params.missionId} (${params.reason})`,
+    entries: [
+      { account: "CAMPAIGN_AVAILABLE", amountCents: params.amountCents },
+      { account: "CAMPAIGN_RESERVED", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Record a transfer to a creator, consuming the mission's reservation (or the bonus reservation)
+ */
+export async function recordPayout(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    missionId: string;
+    transferId: string;
+    amountCents: number;
+    currency: string;
+    bonusTierId?: string | null;
+  }
+): Promise<LedgerTransaction | null> {
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "PAYOUT",
+    idempotencyKey: `payout:${params.transferId}`,
+    stripeObjectId: params.transferId,
+    currency: params.currency,
+    description: params.bonusTierId
+      ? `Paid view bonus (tier ${params.bonusTierId}) on mission ${params.missionId} via transfer ${params.transferId}`
+      : `Paid mission ${params.missionId} via transfer ${params.transferId}`,
+    entries: [
+      { account: "CREATOR_PAYOUTS", amountCents: params.amountCents },
+      { account: "CAMPAIGN_RESERVED", amountCents: -params.amountCents },
+    ],
+  });
+}
+
+/**
+ * Record a (possibly partial) transfer reversal. Stripe reports the cumulative
+ * amount reversed, so only the part not yet posted is moved back into reserve.
+ */
+export async function recordTransferReversal(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    missionId: string | null;
+    transferId: string;
+    totalReversedCents: number;
+    currency: string;
+  }
+): Promise<LedgerTransaction | null> {
+  const alreadyReversed = await sumPostedForStripeObject(db, "REVERSAL", params.transferId);
+  const amountCents = params.totalReversedCents - alreadyReversed;
+
+  if (amountCents <= 0) {
+    return null;
+  }
+
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    missionId: params.missionId,
+    type: "REVERSAL",
+    idempotencyKey: `reversal:${params.transferId}:${params.totalReversedCents}`,
+    stripeObjectId: params.transferId,
+    currency: params.currency,
+    description: `Transfer ${params.transferId} reversed`,
+    entries: [
+      { account: "CAMPAIGN_RESERVED", amountCents },
+      { account: "CREATOR_PAYOUTS", amountCents: -amountCents },
+    ],
+  });
+}
+
+/**
+ * Record a (possibly partial) refund of a campaign charge. Stripe reports the
+ * cumulative amount refunded, so only the part not yet posted is recorded.
+ */
+export async function recordRefund(
+  db: DbExecutor,
+  params: { campaignId: number; chargeId: string; totalRefundedCents: number; currency: string }
+): Promise<LedgerTransaction | null> {
+  const alreadyRefunded = await sumPostedForStripeObject(db, "REFUND", params.chargeId);
+  const amountCents = params.totalRefundedCents - alreadyRefunded;
+
+  if (amountCents <= 0) {
+    return null;
+  }
+
+  return postTransaction(db, {
+    campaignId: params.campaignId,
+    type: "REFUND",
+    idempotencyKey: `refund:${params.chargeId}:${params.totalRefundedCents}`,
+    stripeObjectId: params.chargeId,
+    currency: params.currency,
+    description: `Charge ${params.chargeId} refunded`,
+    entries: [
+      { account: "ARTIST_FUNDING", amountCents },
+      { account: "CAMPAIGN_AVAILABLE", amountCents: -amountCents },
+    ],
+  });
+}
+
+/**
+ * Compute a campaign's balances from its ledger entries
+ */
+export async function getCampaignBalances(
+  db: DbExecutor,
+  campaignId: number
+): Promise<CampaignBalances> {
+  const rows = await db
+    .select({
+      account: ledger_entries.account,
+      total: sql<string>`coalesce(sum(${ledger_entries.amount_cents}), 0)`,
+    })
+    .from(ledger_entries)
+    .where(eq(ledger_entries.campaign_id, campaignId))
+    .groupBy(ledger_entries.account);
+
+  const totals: Partial<Record<LedgerAccount, number>> = {};
+  for (const row of rows) {
+    totals[row.account] = Number(row.total);
+  }
+
+  return {
+    funded_cents: -(totals.ARTIST_FUNDING || 0),
+    available_cents: totals.CAMPAIGN_AVAILABLE || 0,
+    reserved_cents: totals.CAMPAIGN_RESERVED || 0,
+    paid_cents: totals.CREATOR_PAYOUTS || 0,
+  };
+}
+
+/**
+ * Compare a campaign's budget against what is already reserved or paid out
+ */
+export async function getCampaignBudget(
+  db: DbExecutor,
+  campaign: { id: number; budget_cents: number }
+): Promise<CampaignBudget> {
+  const balances = await getCampaignBalances(db, campaign.id);
+  const committedCents = balances.reserved_cents + balances.paid_cents;
+
+  return {
+    ...balances,
+    budget_cents: campaign.budget_cents,
+    committed_cents: committedCents,
+    remaining_budget_cents: campaign.budget_cents - committedCents,
+  };
+}
+
+/**
+ * List a campaign's ledger transactions (newest first) with their entries
+ */
+export async function getCampaignLedger(
+  db: DbExecutor,
+  campaignId: number
+): Promise<(LedgerTransaction & { entries: LedgerEntry[] })[]> {
+  const transactions = await db
+    .select()
+    .from(ledger_transactions)
+    .where(eq(ledger_transactions.campaign_id, campaignId))
+    .orderBy(desc(ledger_transactions.created_at));
+
+  const entries = await db
+    .select()
+    .from(ledger_entries)
+    .where(eq(ledger_entries.campaign_id, campaignId));
+
+  return transactions.map((transaction) => ({
+    ...transaction,
+    entries: entries.filter((entry) => entry.transaction_id === transaction.id),
+  }));
+}
+
+async function sumPostedForStripeObject(
+  db: DbExecutor,
+  type: LedgerTransactionType,
+  stripeObjectId: string
+): Promise<number> {
+  const [row] = await db
+    .select({
+      total: sql<string>`coalesce(sum(${ledger_transactions.amount_cents}), 0)`,
+    })
+    .from(ledger_transactions)
+    .where(
+      and(
+        eq(ledger_transactions.type, type),
+        eq(ledger_transactions.stripe_object_id, stripeObjectId)
+      )
+    );
+
+  return Number(row?.total || 0);
+}
@@ -0,0 +1,107 @@
+import { and, asc, eq, inArray, isNotNull, isNull, or } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { mission_assignments, mission_submissions, submission_metrics } from "@/lib/db/schema";
+import type { MetricsProvider } from "@/lib/metrics/providers";
+
+export type SubmissionMetric = typeof submission_metrics.$inferSelect;
+
+export interface CollectMetricsSummary {
+  checked: number;
+  recorded: number;
+  missing: number;
+  failed: number;
+}
+
+// Assignments whose video is live and worth tracking: under review, and after approval
+const TRACKED_ASSIGNMENT_STATES: (typeof mission_assignments.$inferSelect)["state"][] = [
+  "SUBMITTED",
+  "VERIFIED",
+  "PAID",
+  "PAYOUT_FAILED",
+];
+
+/**
+ * Scheduled job: snapshot the metrics of every tracked video. For an assignment this is
+ * the submission awaiting review or the one the artist verified, not superseded attempts.
+ */
+export async function collectSubmissionMetrics(
+  db: DbExecutor,
+  provider: MetricsProvider
+): Promise<CollectMetricsSummary> {
+  const tracked = await db
+    .select({ submission: mission_submissions })
+    .from(mission_submissions)
+    .innerJoin(mission_assignments, eq(mission_assignments.id, mission_submissions.assignment_id))
+    .where(
+      and(
+        inArray(mission_assignments.state, TRACKED_ASSIGNMENT_STATES),
+        isNotNull(mission_submissions.video_id),
+        or(isNull(mission_submissions.decision), eq(mission_submissions.decision, "VERIFIED"))
+      )
+    );
+
+  const summary: CollectMetricsSummary = {
+    checked: tracked.length,
+    recorded: 0,
+    missing: 0,
+    failed: 0,
+  };
+
+  for (const { submission } of tracked) {
+    if (!provider.supports(submission.platform)) {
+      summary.missing++;
+      continue;
+    }
+
+    try {
+      const metrics = await provider.fetchMetrics({
+        platform: submission.platform,
+        videoId: submission.video_id!,
+        url: submission.video_url,
+      });
+
+      if (!metrics) {
+        summary.missing++;
+        continue;
+      }
+
+      await db.insert(submission_metrics).values({
+        submission_id: submission.id,
+        provider: provider.name,
+        ...metrics,
+      });
+      summary.recorded++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`Failed to collect metrics for submission ${submission.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Metric snapshots for the given submissions, oldest first, grouped by submission
+ */
+export async function getSubmissionMetrics(
+  db: DbExecutor,
+  submissionIds: string[]
+): Promise<Map<string, SubmissionMetric[]>> {
+  const bySubmission = new Map<string, SubmissionMetric[]>();
+  if (submissionIds.length === 0) {
+    return bySubmission;
+  }
+
+  const rows = await db
+    .select()
+    .from(submission_metrics)
+    .where(inArray(submission_metrics.submission_id, submissionIds))
+    .orderBy(asc(submission_metrics.collected_at));
+
+  for (const row of rows) {
+    const series = bySubmission.get(row.submission_id) ?? [];
+    series.push(row);
+    bySubmission.set(row.submission_id, series);
+  }
+  return bySubmission;
+}
@@ -0,0 +1,139 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { VideoPlatform } from "@/lib/missions/video-urls";
+
+export interface VideoRef {
+  platform: VideoPlatform;
+  videoId: string;
+  url: string;
+}
+
+export interface VideoMetrics {
+  views: number;
+  likes: number;
+  shares: number;
+  comments: number;
+}
+
+export interface VideoDetails {
+  isPublic: boolean;
+  soundId: string | null; // Platform ID of the sound or track the video uses
+  caption: string;
+  postedAt: Date | null;
+}
+
+/**
+ * Source of performance numbers and post details for posted videos. Real platform adapters
+ * implement this next to the fixture provider and are picked in getMetricsProvider().
+ */
+export interface MetricsProvider {
+  name: string;
+  supports(platform: VideoPlatform): boolean;
+  // Null when the provider has no numbers for the video (deleted, private, unknown)
+  fetchMetrics(video: VideoRef): Promise<VideoMetrics | null>;
+  // Null when the provider cannot see the video at all
+  fetchDetails(video: VideoRef): Promise<VideoDetails | null>;
+}
+
+interface FixtureEntry extends Partial<VideoMetrics> {
+  public?: boolean;
+  sound_id?: string;
+  caption?: string;
+  posted_at?: string;
+}
+
+const DEFAULT_FIXTURE_PATH = "fixtures/video-metrics.json";
+
+/**
+ * Local provider reading numbers from a JSON file keyed by "<PLATFORM>:<videoId>",
+ * for development and demos without platform API access. The file is re-read on
+ * every call so edits show up in the next collection run.
+ */
+export function createFixtureMetricsProvider(filePath: string): MetricsProvider {
+  return {
+    name: "fixture",
+
+    supports() {
+      return true;
+    },
+
+    async fetchMetrics(video) {
+      const entry = await readFixtureEntry(filePath, video);
+      if (!entry) {
+        return null;
+      }
+
+      return {
+        views: entry.views ?? 0,
+        likes: entry.likes ?? 0,
+        shares: entry.shares ?? 0,
+        comments: entry.comments ?? 0,
+      };
+    },
+
+    async fetchDetails(video) {
+      const entry = await readFixtureEntry(filePath, video);
+      if (!entry) {
+        return null;
+      }
+
+      return {
+        isPublic: entry.public ?? true,
+        soundId: entry.sound_id ?? null,
+        caption: entry.caption ?? "",
+        postedAt: entry.posted_at ? new Date(entry.posted_at) : null,
+      };
+    },
+  };
+}
+
+async function readFixtureEntry(filePath: string, video: VideoRef): Promise<FixtureEntry | null> {
+  let fixtures: Record<string, FixtureEntry>;
+  try {
+    fixtures = JSON.parse(await readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  return fixtures[`${video.platform}:${video.videoId}`] ?? null;
+}
+
+// METRICS_PROVIDER is missing or names a provider that may not run here
+export class MetricsProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Provider configured by METRICS_PROVIDER (only "fixture" for now). There is no default:
+ * fixture numbers must never reach auto-verification or bonuses in production, so the
+ * fixture provider is refused when NODE_ENV is "production".
+ * The fixture file defaults to fixtures/video-metrics.json; override with METRICS_FIXTURE_PATH.
+ */
+export function getMetricsProvider(): MetricsProvider {
+  const provider = process.env.METRICS_PROVIDER;
+  if (!provider) {
+    throw new MetricsProviderConfigError("METRICS_PROVIDER environment variable is not set");
+  }
+
+  switch (provider) {
+    case "fixture":
+      if (process.env.NODE_ENV === "production") {
+        throw new MetricsProviderConfigError(
+          "METRICS_PROVIDER=fixture is for development only and cannot be used in production"
+        );
+      }
+      return createFixtureMetricsProvider(
+        path.resolve(process.cwd(), process.env.METRICS_FIXTURE_PATH || DEFAULT_FIXTURE_PATH)
+      );
+    default:
+      throw new MetricsProviderConfigError(`Unknown METRICS_PROVIDER: ${provider}`);
+  }
+}
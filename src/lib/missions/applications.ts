@@ -0,0 +1,174 @@
+import { and, eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaigns, mission_applications, missions, mission_assignments } from "@/lib/db/schema";
+import { notify } from "@/lib/notifications";
+
+export type MissionApplication = typeof mission_applications.$inferSelect;
+type Mission = typeof missions.$inferSelect;
+type MissionAssignment = typeof mission_assignments.$inferSelect;
+type Campaign = typeof campaigns.$inferSelect;
+
+/**
+ * Load an application together with its mission and campaign
+ */
+export async function getApplicationContext(
+  db: DbExecutor,
+  applicationId: string
+): Promise<{ application: MissionApplication; mission: Mission; campaign: Campaign } | null> {
+  const [row] = await db
+    .select({ application: mission_applications, mission: missions, campaign: campaigns })
+    .from(mission_applications)
+    .innerJoin(missions, eq(missions.id, mission_applications.mission_id))
+    .innerJoin(campaigns, eq(campaigns.id, mission_applications.campaign_id))
+    .where(eq(mission_applications.id, applicationId))
+    .limit(1);
+
+  return row || null;
+}
+
+/**
+ * Record a creator's application to a mission. Returns null if they already applied.
+ */
+export async function createApplication(
+  db: DbExecutor,
+  params: { mission: Mission; creatorId: string; pitch: string }
+): Promise<MissionApplication | null> {
+  const [application] = await db
+    .insert(mission_applications)
+    .values({
+      mission_id: params.mission.id,
+      campaign_id: params.mission.campaign_id,
+      creator_id: params.creatorId,
+      pitch: params.pitch,
+    })
+    .onConflictDoNothing({
+      target: [mission_applications.mission_id, mission_applications.creator_id],
+    })
+    .returning();
+
+  return application || null;
+}
+
+/**
+ * Mark a PENDING application approved with the assignment created for it, and tell the creator.
+ * Returns null if the application was decided in the meantime.
+ */
+export async function approveApplication(
+  db: DbExecutor,
+  params: {
+    application: MissionApplication;
+    mission: Mission;
+    assignment: MissionAssignment;
+    reviewerId: number;
+    note?: string | null;
+  }
+): Promise<MissionApplication | null> {
+  const now = new Date();
+  const [approved] = await db
+    .update(mission_applications)
+    .set({
+      status: "APPROVED",
+      assignment_id: params.assignment.id,
+      decision_note: params.note ?? null,
+      decided_by: params.reviewerId,
+      decided_at: now,
+      updated_at: now,
+    })
+    .where(
+      and(
+        eq(mission_applications.id, params.application.id),
+        eq(mission_applications.status, "PENDING")
+      )
+    )
+    .returning();
+
+  if (!approved) {
+    return null;
+  }
+
+  await notify(db, {
+    recipientId: approved.creator_id,
+    type: "APPLICATION_APPROVED",
+    title: `You're in: "${params.mission.title}"`,
+    body: params.note || "Your application was approved. The mission is now in your list.",
+    missionId: params.mission.id,
+  });
+
+  return approved;
+}
+
+/**
+ * Reject a PENDING application and tell the creator.
+ * Returns null if the application was decided in the meantime.
+ */
+export async function rejectApplication(
+  db: DbExecutor,
+  params: { application: MissionApplication; mission: Mission; reviewerId: number | null; note?: string | null }
+): Promise<MissionApplication | null> {
+  const now = new Date();
+  const [rejected] = await db
+    .update(mission_applications)
+    .set({
+      status: "REJECTED",
+      decision_note: params.note ?? null,
+      decided_by: params.reviewerId,
+      decided_at: now,
+      updated_at: now,
+    })
+    .where(
+      and(
+        eq(mission_applications.id, params.application.id),
+        eq(mission_applications.status, "PENDING")
+      )
+    )
+    .returning();
+
+  if (!rejected) {
+    return null;
+  }
+
+  await notifyRejected(db, rejected, params.mission);
+  return rejected;
+}
+
+/**
+ * Reject every application still pending on a mission, e.g. because it closed
+ */
+export async function rejectPendingApplications(
+  db: DbExecutor,
+  mission: Mission,
+  params: { note: string }
+): Promise<number> {
+  const now = new Date();
+  const rejected = await db
+    .update(mission_applications)
+    .set({
+      status: "REJECTED",
+      decision_note: params.note,
+      decided_at: now,
+      updated_at: now,
+    })
+    .where(
+      and(
+        eq(mission_applications.mission_id, mission.id),
+        eq(mission_applications.status, "PENDING")
+      )
+    )
+    .returning();
+
+  for (const application of rejected) {
+    await notifyRejected(db, application, mission);
+  }
+
+  return rejected.length;
+}
+
+async function notifyRejected(db: DbExecutor, application: MissionApplication, mission: Mission) {
+  await notify(db, {
+    recipientId: application.creator_id,
+    type: "APPLICATION_REJECTED",
+    title: `Your application for "${mission.title}" was not selected`,
+    body: application.decision_note,
+    missionId: mission.id,
+  });
+}
@@ -0,0 +1,233 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaigns, mission_assignments, missions } from "@/lib/db/schema";
+import { releaseMissionReservation } from "@/lib/ledger";
+import { MissionState } from "@/lib/state/mission";
+import { recordTransition, type EventActor } from "@/lib/state/events";
+import { rejectPendingApplications } from "@/lib/missions/applications";
+
+export type Mission = typeof missions.$inferSelect;
+export type MissionAssignment = typeof mission_assignments.$inferSelect;
+export type Campaign = typeof campaigns.$inferSelect;
+
+export type ClaimSlotResult =
+  | { status: "claimed"; assignment: MissionAssignment }
+  | { status: "conflict"; error: string };
+
+// Mission states in which creators can still get a slot, directly or by application
+export const ACCEPTING_MISSION_STATES: Mission["state"][] = ["OPEN", "APPLICATIONS_OPEN"];
+
+// Assignment states that occupy one of the mission's slots. An EXPIRED assignment
+// gives its slot back; a REJECTED (or DISPUTED) one keeps it (its payout is released instead).
+export const SLOT_HOLDING_STATES: MissionAssignment["state"][] = [
+  "ACCEPTED",
+  "SUBMITTED",
+  "CHANGES_REQUESTED",
+  "VERIFIED",
+  "PAID",
+  "PAYOUT_FAILED",
+  "REJECTED",
+  "DISPUTED",
+];
+
+// Assignments a creator is still working on or waiting for review of
+export const IN_FLIGHT_ASSIGNMENT_STATES: MissionAssignment["state"][] = [
+  "ACCEPTED",
+  "SUBMITTED",
+  "CHANGES_REQUESTED",
+];
+
+/**
+ * Number of slots currently taken on each of the given missions
+ */
+export async function countTakenSlots(
+  db: DbExecutor,
+  missionIds: string[]
+): Promise<Map<string, number>> {
+  const taken = new Map<string, number>();
+  if (missionIds.length === 0) {
+    return taken;
+  }
+
+  const rows = await db
+    .select({
+      mission_id: mission_assignments.mission_id,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(mission_assignments)
+    .where(
+      and(
+        inArray(mission_assignments.mission_id, missionIds),
+        inArray(mission_assignments.state, SLOT_HOLDING_STATES)
+      )
+    )
+    .groupBy(mission_assignments.mission_id);
+
+  for (const row of rows) {
+    taken.set(row.mission_id, row.count);
+  }
+  return taken;
+}
+
+/**
+ * Whether the mission still hands out slots (not whether one is free)
+ */
+export function isAcceptingCreators(mission: { state: Mission["state"] }): boolean {
+  return ACCEPTING_MISSION_STATES.includes(mission.state);
+}
+
+/**
+ * Give a creator one of the mission's slots as a new ACCEPTED assignment.
+ * Call inside a transaction holding the mission row lock, so concurrent claims
+ * cannot take more slots than the mission has.
+ */
+export async function claimSlot(
+  db: DbExecutor,
+  mission: Mission,
+  params: { creatorId: string; submitBy: Date | null; actor: EventActor; now?: Date }
+): Promise<ClaimSlotResult> {
+  const [existing] = await db
+    .select({ id: mission_assignments.id })
+    .from(mission_assignments)
+    .where(
+      and(
+        eq(mission_assignments.mission_id, mission.id),
+        eq(mission_assignments.creator_id, params.creatorId)
+      )
+    )
+    .limit(1);
+
+  if (existing) {
+    return { status: "conflict", error: "Creator already has this mission" };
+  }
+
+  const taken = (await countTakenSlots(db, [mission.id])).get(mission.id) ?? 0;
+  if (taken >= mission.slots) {
+    return { status: "conflict", error: "No slots left on this mission" };
+  }
+
+  const now = params.now ?? new Date();
+  const [assignment] = await db
+    .insert(mission_assignments)
+    .values({
+      mission_id: mission.id,
+      campaign_id: mission.campaign_id,
+      creator_id: params.creatorId,
+      state: "ACCEPTED",
+      submit_by: params.submitBy,
+      created_at: now,
+      updated_at: now,
+    })
+    .returning();
+
+  await recordTransition(db, {
+    missionId: mission.id,
+    assignmentId: assignment.id,
+    from: mission.state as MissionState,
+    to: MissionState.ACCEPTED,
+    actor: params.actor,
+  });
+
+  return { status: "claimed", assignment };
+}
+
+/**
+ * Add the number of taken slots to each mission, for listings
+ */
+export async function withSlotsTaken<T extends { id: string }>(
+  db: DbExecutor,
+  rows: T[]
+): Promise<(T & { slots_taken: number })[]> {
+  const taken = await countTakenSlots(
+    db,
+    rows.map((row) => row.id)
+  );
+  return rows.map((row) => ({ ...row, slots_taken: taken.get(row.id) ?? 0 }));
+}
+
+/**
+ * Load an assignment together with its mission and campaign
+ */
+export async function getAssignmentContext(
+  db: DbExecutor,
+  assignmentId: string
+): Promise<{ assignment: MissionAssignment; mission: Mission; campaign: Campaign } | null> {
+  const [row] = await db
+    .select({ assignment: mission_assignments, mission: missions, campaign: campaigns })
+    .from(mission_assignments)
+    .innerJoin(missions, eq(missions.id, mission_assignments.mission_id))
+    .innerJoin(campaigns, eq(campaigns.id, mission_assignments.campaign_id))
+    .where(eq(mission_assignments.id, assignmentId))
+    .limit(1);
+
+  return row || null;
+}
+
+/**
+ * Stop a mission from taking new creators (CANCELLED or EXPIRED) and release the
+ * reservation for its unfilled slots. Assignments already in progress keep their share;
+ * applications still pending are rejected. Call inside a transaction holding the mission row lock.
+ */
+export async function closeMission(
+  db: DbExecutor,
+  mission: Mission,
+  params: {
+    state: MissionState.CANCELLED | MissionState.EXPIRED;
+    currency: string;
+    reason: string;
+    actor: EventActor;
+  }
+): Promise<Mission> {
+  const [closed] = await db
+    .update(missions)
+    .set({
+      state: params.state,
+      updated_at: new Date(),
+    })
+    .where(eq(missions.id, mission.id))
+    .returning();
+
+  await recordTransition(db, {
+    missionId: mission.id,
+    from: mission.state as MissionState,
+    to: params.state,
+    actor: params.actor,
+    reason: params.reason,
+  });
+
+  await rejectPendingApplications(db, closed, {
+    note: params.state === MissionState.CANCELLED ? "The mission was cancelled." : "The mission closed.",
+  });
+
+  const taken = (await countTakenSlots(db, [mission.id])).get(mission.id) ?? 0;
+  const unfilled = mission.slots - taken;
+
+  if (unfilled > 0) {
+    await releaseMissionReservation(db, {
+      campaignId: mission.campaign_id,
+      missionId: mission.id,
+      amountCents: mission.payout_cents * unfilled,
+      currency: params.currency,
+      reason: params.reason,
+    });
+  }
+
+  return closed;
+}
+
+/**
+ * Release the payout reserved for one assignment that will not be paid
+ */
+export async function releaseAssignmentReservation(
+  db: DbExecutor,
+  params: { assignment: MissionAssignment; mission: Mission; currency: string; reason: string }
+): Promise<void> {
+  await releaseMissionReservation(db, {
+    campaignId: params.mission.campaign_id,
+    missionId: params.mission.id,
+    assignmentId: params.assignment.id,
+    amountCents: params.mission.payout_cents,
+    currency: params.currency,
+    reason: params.reason,
+  });
+}
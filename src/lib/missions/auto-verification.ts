@@ -0,0 +1,306 @@
+import { and, eq, isNull } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaign_verification_rules, mission_assignments, mission_submissions } from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import { SYSTEM_ACTOR } from "@/lib/state/events";
+import { transitionMission } from "@/lib/state/transitions";
+import { recordReviewDecision, type MissionSubmission } from "@/lib/missions/submissions";
+import { getSubmissionMetrics, type SubmissionMetric } from "@/lib/metrics";
+import type { MetricsProvider, VideoDetails } from "@/lib/metrics/providers";
+
+export type VerificationRules = typeof campaign_verification_rules.$inferSelect;
+
+export interface VerificationRulesInput {
+  enabled: boolean;
+  requirePublic: boolean;
+  soundId: string | null;
+  requiredHashtags: string[];
+  requirePostedAfterAcceptance: boolean;
+  minViews: number | null;
+  minViewsWindowHours: number | null;
+  reviewSlaHours: number | null;
+  autoPayAfterReviewSla: boolean;
+}
+
+// passed is null while a rule cannot be decided yet (no data, or views still inside their window)
+export interface RuleCheck {
+  rule: "public" | "sound" | "hashtags" | "posted_after_acceptance" | "min_views";
+  passed: boolean | null;
+  detail: string;
+}
+
+// Stored on the submission as mission_submissions.auto_verification
+export interface AutoVerificationReport {
+  outcome: "passed" | "failed" | "pending";
+  checked_at: string;
+  checks: RuleCheck[];
+}
+
+export interface AutoVerifySummary {
+  checked: number;
+  verified: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * Verification rules of a campaign, or null if the artist never set any
+ */
+export async function getVerificationRules(
+  db: DbExecutor,
+  campaignId: number
+): Promise<VerificationRules | null> {
+  const [rules] = await db
+    .select()
+    .from(campaign_verification_rules)
+    .where(eq(campaign_verification_rules.campaign_id, campaignId))
+    .limit(1);
+
+  return rules || null;
+}
+
+/**
+ * Create or replace the verification rules of a campaign
+ */
+export async function saveVerificationRules(
+  db: DbExecutor,
+  campaignId: number,
+  input: VerificationRulesInput
+): Promise<VerificationRules> {
+  const values = {
+    enabled: input.enabled,
+    require_public: input.requirePublic,
+    sound_id: input.soundId,
+    required_hashtags: input.requiredHashtags,
+    require_posted_after_acceptance: input.requirePostedAfterAcceptance,
+    min_views: input.minViews,
+    min_views_window_hours: input.minViewsWindowHours,
+    review_sla_hours: input.reviewSlaHours,
+    auto_pay_after_review_sla: input.autoPayAfterReviewSla,
+    updated_at: new Date(),
+  };
+
+  const [saved] = await db
+    .insert(campaign_verification_rules)
+    .values({ campaign_id: campaignId, ...values })
+    .onConflictDoUpdate({
+      target: campaign_verification_rules.campaign_id,
+      set: values,
+    })
+    .returning();
+
+  return saved;
+}
+
+/**
+ * Scheduled job: check every submission awaiting review on a campaign with auto-verification
+ * on. The report of which rules were checked is stored on the submission each run; when all
+ * of them pass the assignment moves to VERIFIED as if the artist had approved it. Anything
+ * else, and any submission flagged as a possible duplicate, stays in the artist's review queue.
+ */
+export async function autoVerifySubmissions(
+  db: DbExecutor,
+  provider: MetricsProvider
+): Promise<AutoVerifySummary> {
+  const pending = await db
+    .select({ assignment: mission_assignments, submission: mission_submissions, rules: campaign_verification_rules })
+    .from(mission_assignments)
+    .innerJoin(
+      campaign_verification_rules,
+      eq(campaign_verification_rules.campaign_id, mission_assignments.campaign_id)
+    )
+    .innerJoin(mission_submissions, eq(mission_submissions.assignment_id, mission_assignments.id))
+    .where(
+      and(
+        eq(mission_assignments.state, "SUBMITTED"),
+        eq(campaign_verification_rules.enabled, true),
+        isNull(mission_submissions.decision),
+        // Videos flagged as reused elsewhere always need the artist's eyes
+        isNull(mission_submissions.duplicate_of_submission_id)
+      )
+    );
+
+  const summary: AutoVerifySummary = {
+    checked: pending.length,
+    verified: 0,
+    failed: 0,
+    pending: 0,
+  };
+
+  for (const { assignment, submission, rules } of pending) {
+    try {
+      const details =
+        submission.video_id && provider.supports(submission.platform)
+          ? await provider.fetchDetails({
+              platform: submission.platform,
+              videoId: submission.video_id,
+              url: submission.video_url,
+            })
+          : null;
+      const metrics = (await getSubmissionMetrics(db, [submission.id])).get(submission.id) ?? [];
+
+      const report = evaluateRules(rules, {
+        acceptedAt: assignment.created_at,
+        submission,
+        details,
+        metrics,
+      });
+
+      if (report.outcome !== "passed") {
+        await db
+          .update(mission_submissions)
+          .set({ auto_verification: report })
+          .where(eq(mission_submissions.id, submission.id));
+
+        if (report.outcome === "failed") {
+          summary.failed++;
+        } else {
+          summary.pending++;
+        }
+        continue;
+      }
+
+      if (await verifyAutomatically(db, assignment.id, submission.id, report)) {
+        summary.verified++;
+        console.log(`Assignment ${assignment.id} auto-verified`);
+      }
+    } catch (error) {
+      console.error(`Failed to auto-verify submission ${submission.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// Guarded on the assignment still being SUBMITTED, since the artist may have reviewed it meanwhile
+async function verifyAutomatically(
+  db: DbExecutor,
+  assignmentId: string,
+  submissionId: string,
+  report: AutoVerificationReport
+): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.SUBMITTED,
+      to: MissionState.VERIFIED,
+      actor: SYSTEM_ACTOR,
+      reason: "Passed the campaign's verification rules",
+      metadata: { submission_id: submissionId },
+    });
+
+    if (transition.status === "conflict") {
+      return false;
+    }
+
+    await tx
+      .update(mission_submissions)
+      .set({ auto_verification: report })
+      .where(eq(mission_submissions.id, submissionId));
+
+    await recordReviewDecision(tx, {
+      assignmentId,
+      decision: "VERIFIED",
+      reviewerId: null,
+      source: "AUTO_RULES",
+      notes: `Auto-verified: ${report.checks.map((check) => check.detail).join("; ")}`,
+    });
+
+    return true;
+  });
+}
+
+function evaluateRules(
+  rules: VerificationRules,
+  input: {
+    acceptedAt: Date;
+    submission: MissionSubmission;
+    details: VideoDetails | null;
+    metrics: SubmissionMetric[];
+  },
+  now = new Date()
+): AutoVerificationReport {
+  const { details } = input;
+  const checks: RuleCheck[] = [];
+
+  if (rules.require_public) {
+    checks.push(
+      details
+        ? { rule: "public", passed: details.isPublic, detail: details.isPublic ? "Video is public" : "Video is not public" }
+        : { rule: "public", passed: null, detail: "Video details unavailable" }
+    );
+  }
+
+  if (rules.sound_id) {
+    if (!details) {
+      checks.push({ rule: "sound", passed: null, detail: "Video details unavailable" });
+    } else if (details.soundId === rules.sound_id) {
+      checks.push({ rule: "sound", passed: true, detail: "Uses the campaign sound" });
+    } else {
+      checks.push({ rule: "sound", passed: false, detail: "Does not use the campaign sound" });
+    }
+  }
+
+  if (rules.required_hashtags.length > 0) {
+    if (!details) {
+      checks.push({ rule: "hashtags", passed: null, detail: "Video details unavailable" });
+    } else {
+      const used = new Set(
+        Array.from(details.caption.matchAll(/#(\w+)/g), (match) => match[1].toLowerCase())
+      );
+      const missing = rules.required_hashtags.filter((tag) => !used.has(tag));
+      checks.push(
+        missing.length === 0
+          ? { rule: "hashtags", passed: true, detail: "Has the required hashtags" }
+          : { rule: "hashtags", passed: false, detail: `Missing ${missing.map((tag) => `#${tag}`).join(", ")}` }
+      );
+    }
+  }
+
+  if (rules.require_posted_after_acceptance) {
+    if (!details?.postedAt) {
+      checks.push({ rule: "posted_after_acceptance", passed: null, detail: "Posting time unavailable" });
+    } else if (details.postedAt >= input.acceptedAt) {
+      checks.push({ rule: "posted_after_acceptance", passed: true, detail: "Posted after accepting the mission" });
+    } else {
+      checks.push({ rule: "posted_after_acceptance", passed: false, detail: "Posted before accepting the mission" });
+    }
+  }
+
+  if (rules.min_views !== null) {
+    checks.push(checkMinViews(rules.min_views, rules.min_views_window_hours, input, now));
+  }
+
+  let outcome: AutoVerificationReport["outcome"] = "passed";
+  if (checks.some((check) => check.passed === false)) {
+    outcome = "failed";
+  } else if (checks.length === 0 || checks.some((check) => check.passed === null)) {
+    // A rule set with nothing switched on never verifies anything by itself
+    outcome = "pending";
+  }
+
+  return { outcome, checked_at: now.toISOString(), checks };
+}
+
+// The window starts when the video was posted, or when it was submitted if the provider does not say
+function checkMinViews(
+  minViews: number,
+  windowHours: number | null,
+  input: { submission: MissionSubmission; details: VideoDetails | null; metrics: SubmissionMetric[] },
+  now: Date
+): RuleCheck {
+  const start = input.details?.postedAt ?? input.submission.created_at;
+  const deadline = windowHours !== null ? new Date(start.getTime() + windowHours * 60 * 60 * 1000) : null;
+  const within = deadline ? ` within ${windowHours}h` : "";
+
+  const inWindow = input.metrics.filter((metric) => !deadline || metric.collected_at <= deadline);
+  const best = Math.max(0, ...inWindow.map((metric) => metric.views));
+
+  if (best >= minViews) {
+    return { rule: "min_views", passed: true, detail: `Reached ${minViews} views${within}` };
+  }
+  if (deadline && now > deadline) {
+    return { rule: "min_views", passed: false, detail: `Did not reach ${minViews} views${within} (${best})` };
+  }
+  return { rule: "min_views", passed: null, detail: `${best} of ${minViews} views so far` };
+}
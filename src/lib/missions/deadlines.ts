@@ -0,0 +1,207 @@
+import { and, eq, inArray, isNotNull, lt } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaigns, mission_assignments, missions } from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import { SYSTEM_ACTOR } from "@/lib/state/events";
+import { transitionMission } from "@/lib/state/transitions";
+import {
+  ACCEPTING_MISSION_STATES,
+  closeMission,
+  isAcceptingCreators,
+  releaseAssignmentReservation,
+} from "@/lib/missions/assignments";
+
+export interface ExpireMissionsSummary {
+  checked: number;
+  reopened: number;
+  expired: number;
+}
+
+/**
+ * Whether the acceptance deadline of a mission has passed
+ */
+export function isPastAcceptBy(mission: { accept_by: Date | null }, now = new Date()): boolean {
+  return mission.accept_by !== null && mission.accept_by.getTime() <= now.getTime();
+}
+
+/**
+ * Submission deadline for a mission accepted at `acceptedAt`, or null if it has no window
+ */
+export function computeSubmitBy(
+  mission: { submit_window_hours: number | null },
+  acceptedAt: Date
+): Date | null {
+  if (mission.submit_window_hours === null) {
+    return null;
+  }
+  return new Date(acceptedAt.getTime() + mission.submit_window_hours * 60 * 60 * 1000);
+}
+
+/**
+ * Sweeper job: resolves deadlines that have passed.
+ * - ACCEPTED assignments past submit_by expire. While the mission can still be
+ *   accepted their slot reopens for other creators; otherwise their payout is released.
+ * - OPEN (or APPLICATIONS_OPEN) missions past accept_by expire, releasing the payout of
+ *   their unfilled slots and rejecting pending applications.
+ */
+export async function expireOverdueMissions(db: DbExecutor): Promise<ExpireMissionsSummary> {
+  const now = new Date();
+
+  const overdueAssignments = await db
+    .select({ id: mission_assignments.id, mission_id: mission_assignments.mission_id })
+    .from(mission_assignments)
+    .where(
+      and(
+        eq(mission_assignments.state, "ACCEPTED"),
+        isNotNull(mission_assignments.submit_by),
+        lt(mission_assignments.submit_by, now)
+      )
+    );
+
+  const overdueMissions = await db
+    .select({ id: missions.id })
+    .from(missions)
+    .where(
+      and(
+        inArray(missions.state, ACCEPTING_MISSION_STATES),
+        isNotNull(missions.accept_by),
+        lt(missions.accept_by, now)
+      )
+    );
+
+  const summary: ExpireMissionsSummary = {
+    checked: overdueAssignments.length + overdueMissions.length,
+    reopened: 0,
+    expired: 0,
+  };
+
+  for (const { id, mission_id } of overdueAssignments) {
+    try {
+      const outcome = await resolveOverdueAssignment(db, mission_id, id, now);
+      if (outcome === "reopened") {
+        summary.reopened++;
+      } else if (outcome === "expired") {
+        summary.expired++;
+      }
+    } catch (error) {
+      console.error(`Failed to resolve overdue assignment ${id}:`, error);
+    }
+  }
+
+  for (const { id } of overdueMissions) {
+    try {
+      if (await resolveOverdueMission(db, id, now)) {
+        summary.expired++;
+      }
+    } catch (error) {
+      console.error(`Failed to resolve overdue mission ${id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// Locks the mission before the assignment (same order as accept), and re-checks
+// both since the creator may have submitted between the sweep query and now
+async function resolveOverdueAssignment(
+  db: DbExecutor,
+  missionId: string,
+  assignmentId: string,
+  now: Date
+): Promise<"reopened" | "expired" | null> {
+  return db.transaction(async (tx) => {
+    let [mission] = await tx
+      .select()
+      .from(missions)
+      .where(eq(missions.id, missionId))
+      .for("update");
+
+    const [assignment] = await tx
+      .select()
+      .from(mission_assignments)
+      .where(eq(mission_assignments.id, assignmentId))
+      .for("update");
+
+    if (!mission || !assignment) {
+      return null;
+    }
+
+    if (assignment.state !== "ACCEPTED" || !assignment.submit_by || assignment.submit_by > now) {
+      return null;
+    }
+
+    const [campaign] = await tx
+      .select({ currency: campaigns.currency })
+      .from(campaigns)
+      .where(eq(campaigns.id, mission.campaign_id))
+      .limit(1);
+
+    // Close the mission first if its own deadline has passed, so its unfilled
+    // slots are released before this assignment gives its slot up
+    if (isAcceptingCreators(mission) && isPastAcceptBy(mission, now)) {
+      mission = await closeMission(tx, mission, {
+        state: MissionState.EXPIRED,
+        currency: campaign.currency,
+        reason: "mission expired",
+        actor: SYSTEM_ACTOR,
+      });
+    }
+
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.ACCEPTED,
+      to: MissionState.EXPIRED,
+      actor: SYSTEM_ACTOR,
+      reason: "submission deadline missed",
+    });
+
+    if (transition.status === "conflict") {
+      return null;
+    }
+
+    if (isAcceptingCreators(mission)) {
+      console.log(`Assignment ${assignmentId} expired; slot on mission ${missionId} reopened`);
+      return "reopened";
+    }
+
+    await releaseAssignmentReservation(tx, {
+      assignment,
+      mission,
+      currency: campaign.currency,
+      reason: "submission deadline missed",
+    });
+
+    console.log(`Assignment ${assignmentId} expired`);
+    return "expired";
+  });
+}
+
+async function resolveOverdueMission(db: DbExecutor, missionId: string, now: Date): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [mission] = await tx
+      .select()
+      .from(missions)
+      .where(eq(missions.id, missionId))
+      .for("update");
+
+    if (!mission || !isAcceptingCreators(mission) || !isPastAcceptBy(mission, now)) {
+      return false;
+    }
+
+    const [campaign] = await tx
+      .select({ currency: campaigns.currency })
+      .from(campaigns)
+      .where(eq(campaigns.id, mission.campaign_id))
+      .limit(1);
+
+    await closeMission(tx, mission, {
+      state: MissionState.EXPIRED,
+      currency: campaign.currency,
+      reason: "mission expired",
+      actor: SYSTEM_ACTOR,
+    });
+
+    console.log(`Mission ${missionId} expired`);
+    return true;
+  });
+}
@@ -0,0 +1,308 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { assignment_disputes, mission_assignments, mission_submissions, users } from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import type { EventActor } from "@/lib/state/events";
+import { transitionMission } from "@/lib/state/transitions";
+import { recordAdminAction } from "@/lib/admin/audit";
+import { getAssignmentContext, type MissionAssignment } from "@/lib/missions/assignments";
+import { getCampaignBudget, reinstateAssignmentReservation } from "@/lib/ledger";
+import { notify } from "@/lib/notifications";
+import { payVerifiedAssignment, type PayAssignmentResult } from "@/lib/payments/payouts";
+
+export type AssignmentDispute = typeof assignment_disputes.$inferSelect;
+export type DisputeStatus = AssignmentDispute["status"];
+
+export type OpenDisputeResult =
+  | { status: "opened"; dispute: AssignmentDispute; assignment: MissionAssignment }
+  | { status: "conflict"; error: string };
+
+export type ResolveDisputeResult =
+  | {
+      status: "resolved";
+      dispute: AssignmentDispute;
+      assignment: MissionAssignment;
+      payment: PayAssignmentResult | null; // Set when the rejection was overturned
+    }
+  | { status: "not_found" }
+  | { status: "conflict"; error: string };
+
+// How long after a rejection the creator can still dispute it
+export const DISPUTE_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+/**
+ * Creator contests the rejection of their latest submission: the assignment moves to
+ * DISPUTED until an admin resolves it. Only within DISPUTE_WINDOW_MS of the rejection,
+ * and once per submission.
+ */
+export async function openDispute(
+  db: DbExecutor,
+  params: { assignmentId: string; creatorId: string; creatorUserId: number; reason: string; now?: Date }
+): Promise<OpenDisputeResult> {
+  const now = params.now ?? new Date();
+
+  return db.transaction(async (tx) => {
+    const context = await getAssignmentContext(tx, params.assignmentId);
+    if (!context) {
+      return { status: "conflict", error: "Only rejected submissions can be disputed" } as const;
+    }
+    const { mission, campaign } = context;
+
+    const [assignment] = await tx
+      .select()
+      .from(mission_assignments)
+      .where(eq(mission_assignments.id, params.assignmentId))
+      .for("update");
+
+    if (assignment.state !== "REJECTED") {
+      return { status: "conflict", error: "Only rejected submissions can be disputed" } as const;
+    }
+
+    const [rejected] = await tx
+      .select()
+      .from(mission_submissions)
+      .where(eq(mission_submissions.assignment_id, assignment.id))
+      .orderBy(desc(mission_submissions.version))
+      .limit(1);
+
+    if (!rejected || rejected.decision !== "REJECTED" || !rejected.reviewed_at) {
+      return { status: "conflict", error: "Only rejected submissions can be disputed" } as const;
+    }
+
+    if (now.getTime() - rejected.reviewed_at.getTime() > DISPUTE_WINDOW_MS) {
+      return { status: "conflict", error: "The window to dispute this rejection has closed" } as const;
+    }
+
+    const [existing] = await tx
+      .select({ id: assignment_disputes.id })
+      .from(assignment_disputes)
+      .where(eq(assignment_disputes.submission_id, rejected.id))
+      .limit(1);
+
+    if (existing) {
+      return { status: "conflict", error: "This rejection has already been disputed" } as const;
+    }
+
+    // The dispute's ID is picked up front so the DISPUTED event can point at it, and the
+    // dispute is only stored once the transition went through
+    const disputeId = randomUUID();
+    const transition = await transitionMission(tx, {
+      assignmentId: assignment.id,
+      from: MissionState.REJECTED,
+      to: MissionState.DISPUTED,
+      actor: { type: "CREATOR", userId: params.creatorUserId },
+      reason: params.reason,
+      metadata: { dispute_id: disputeId },
+    });
+
+    if (transition.status === "conflict") {
+      return { status: "conflict", error: "Only rejected submissions can be disputed" } as const;
+    }
+
+    const [dispute] = await tx
+      .insert(assignment_disputes)
+      .values({
+        id: disputeId,
+        assignment_id: assignment.id,
+        submission_id: rejected.id,
+        creator_id: params.creatorId,
+        reason: params.reason,
+        created_at: now,
+      })
+      .returning();
+
+    const [artist] = await tx
+      .select({ auth_user_id: users.auth_user_id })
+      .from(users)
+      .where(eq(users.id, campaign.artist_id))
+      .limit(1);
+
+    if (artist?.auth_user_id) {
+      await notify(tx, {
+        recipientId: artist.auth_user_id,
+        type: "DISPUTE_OPENED",
+        title: `A creator disputed your rejection on "${mission.title}"`,
+        body: params.reason,
+        missionId: mission.id,
+      });
+    }
+
+    return { status: "opened", dispute, assignment: transition.assignment } as const;
+  });
+}
+
+/**
+ * Admin decision on an open dispute. Upholding puts the assignment back to REJECTED.
+ * Overturning reserves its payout again, records the submission as VERIFIED (decision
+ * source ADMIN) and pays the creator; if the payment cannot be made the assignment is
+ * left VERIFIED for the artist to pay. The decision is recorded in the admin audit log.
+ */
+export async function resolveDispute(
+  db: DbExecutor,
+  params: { disputeId: string; outcome: "UPHOLD" | "OVERTURN"; note: string; adminUserId: number }
+): Promise<ResolveDisputeResult> {
+  const now = new Date();
+  const actor: EventActor = { type: "ADMIN", userId: params.adminUserId };
+
+  const resolved = await db.transaction(async (tx) => {
+    const [dispute] = await tx
+      .select()
+      .from(assignment_disputes)
+      .where(eq(assignment_disputes.id, params.disputeId))
+      .for("update");
+
+    if (!dispute) {
+      return { status: "not_found" } as const;
+    }
+    if (dispute.status !== "OPEN") {
+      return { status: "conflict", error: `Dispute is already ${dispute.status}` } as const;
+    }
+
+    const context = await getAssignmentContext(tx, dispute.assignment_id);
+    if (!context) {
+      return { status: "not_found" } as const;
+    }
+    const { mission, campaign } = context;
+
+    if (params.outcome === "OVERTURN") {
+      const budget = await getCampaignBudget(tx, campaign);
+      if (budget.available_cents < mission.payout_cents) {
+        return {
+          status: "conflict",
+          error: "The campaign's available balance does not cover this payout",
+        } as const;
+      }
+    }
+
+    const transition = await transitionMission(tx, {
+      assignmentId: dispute.assignment_id,
+      from: MissionState.DISPUTED,
+      to: params.outcome === "OVERTURN" ? MissionState.VERIFIED : MissionState.REJECTED,
+      actor,
+      reason: params.note,
+      metadata: { dispute_id: dispute.id },
+    });
+
+    if (transition.status === "conflict") {
+      return { status: "conflict", error: transition.error } as const;
+    }
+    const assignment = transition.assignment;
+
+    if (params.outcome === "OVERTURN") {
+      await reinstateAssignmentReservation(tx, {
+        campaignId: campaign.id,
+        missionId: mission.id,
+        assignmentId: assignment.id,
+        amountCents: mission.payout_cents,
+        currency: campaign.currency,
+      });
+
+      // The artist's rejection reason and notes stay on the submission for the record
+      await tx
+        .update(mission_submissions)
+        .set({
+          decision: "VERIFIED",
+          decision_source: "ADMIN",
+          reviewed_by: null,
+          reviewed_at: now,
+        })
+        .where(
+          and(
+            eq(mission_submissions.id, dispute.submission_id),
+            eq(mission_submissions.decision, "REJECTED")
+          )
+        );
+    }
+
+    const [updatedDispute] = await tx
+      .update(assignment_disputes)
+      .set({
+        status: params.outcome === "OVERTURN" ? "OVERTURNED" : "UPHELD",
+        resolution_note: params.note,
+        resolved_at: now,
+      })
+      .where(eq(assignment_disputes.id, dispute.id))
+      .returning();
+
+    await recordAdminAction(tx, {
+      adminUserId: params.adminUserId,
+      action: "RESOLVE_DISPUTE",
+      targetType: "dispute",
+      targetId: dispute.id,
+      reason: params.note,
+      metadata: { outcome: params.outcome, assignment_id: assignment.id },
+    });
+
+    await notify(tx, {
+      recipientId: dispute.creator_id,
+      type: "DISPUTE_RESOLVED",
+      title:
+        params.outcome === "OVERTURN"
+          ? `Your dispute on "${mission.title}" was accepted`
+          : `The rejection on "${mission.title}" was upheld`,
+      body: params.note,
+      missionId: mission.id,
+    });
+
+    return {
+      status: "resolved",
+      dispute: updatedDispute,
+      assignment,
+      mission,
+      campaign,
+    } as const;
+  });
+
+  if (resolved.status !== "resolved") {
+    return resolved;
+  }
+
+  let payment: PayAssignmentResult | null = null;
+  let assignment = resolved.assignment;
+  if (params.outcome === "OVERTURN") {
+    // The resolution stands even if the transfer fails; the payout can be retried like any other
+    try {
+      payment = await payVerifiedAssignment(db, {
+        assignment,
+        mission: resolved.mission,
+        campaign: resolved.campaign,
+        actor,
+      });
+    } catch (error) {
+      console.error(`Failed to pay assignment ${assignment.id} after overturning its rejection:`, error);
+      payment = { status: "skipped", reason: error instanceof Error ? error.message : "Transfer failed" };
+    }
+    if (payment.status === "paid" && payment.assignment) {
+      assignment = payment.assignment;
+    }
+  }
+
+  return { status: "resolved", dispute: resolved.dispute, assignment, payment };
+}
+
+/**
+ * Disputes of the given assignments, oldest first, grouped by assignment
+ */
+export async function getDisputes(
+  db: DbExecutor,
+  assignmentIds: string[]
+): Promise<Map<string, AssignmentDispute[]>> {
+  const byAssignment = new Map<string, AssignmentDispute[]>();
+  if (assignmentIds.length === 0) {
+    return byAssignment;
+  }
+
+  const rows = await db
+    .select()
+    .from(assignment_disputes)
+    .where(inArray(assignment_disputes.assignment_id, assignmentIds))
+    .orderBy(asc(assignment_disputes.created_at));
+
+  for (const row of rows) {
+    const disputes = byAssignment.get(row.assignment_id) ?? [];
+    disputes.push(row);
+    byAssignment.set(row.assignment_id, disputes);
+  }
+  return byAssignment;
+}
@@ -0,0 +1,216 @@
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import {
+  campaign_verification_rules,
+  campaigns,
+  mission_assignments,
+  mission_submissions,
+  missions,
+  users,
+} from "@/lib/db/schema";
+import { MissionState } from "@/lib/state/mission";
+import { SYSTEM_ACTOR } from "@/lib/state/events";
+import { transitionMission } from "@/lib/state/transitions";
+import { recordReviewDecision } from "@/lib/missions/submissions";
+import type { MissionAssignment } from "@/lib/missions/assignments";
+import { notify } from "@/lib/notifications";
+import { payVerifiedAssignment } from "@/lib/payments/payouts";
+
+export interface EnforceReviewSlaSummary {
+  checked: number;
+  warned: number;
+  approved: number;
+  held: number; // Past the deadline but flagged as a possible duplicate, so left to the artist
+  paid: number;
+  failed: number;
+}
+
+// How long before the review deadline the artist is warned, at most half the review window
+const REVIEW_WARNING_LEAD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a submission has to be reviewed by, for a campaign with a review SLA
+ */
+export function computeReviewDeadline(submittedAt: Date, reviewSlaHours: number): Date {
+  return new Date(submittedAt.getTime() + reviewSlaHours * 60 * 60 * 1000);
+}
+
+/**
+ * Scheduled job: holds artists to their campaign's review SLA. A submission nearing its
+ * deadline gets the artist one warning notification; one past it is verified automatically,
+ * recorded with decision source REVIEW_SLA, and paid right away if the campaign opted in.
+ * Submissions flagged as a possible duplicate are never approved this way: past the deadline
+ * the artist is notified once that they still need a review.
+ */
+export async function enforceReviewSla(db: DbExecutor): Promise<EnforceReviewSlaSummary> {
+  const now = new Date();
+
+  const waiting = await db
+    .select({
+      assignment: mission_assignments,
+      submission: mission_submissions,
+      mission: missions,
+      campaign: campaigns,
+      rules: campaign_verification_rules,
+      artistAuthId: users.auth_user_id,
+    })
+    .from(mission_assignments)
+    .innerJoin(
+      campaign_verification_rules,
+      eq(campaign_verification_rules.campaign_id, mission_assignments.campaign_id)
+    )
+    .innerJoin(mission_submissions, eq(mission_submissions.assignment_id, mission_assignments.id))
+    .innerJoin(missions, eq(missions.id, mission_assignments.mission_id))
+    .innerJoin(campaigns, eq(campaigns.id, mission_assignments.campaign_id))
+    .innerJoin(users, eq(users.id, campaigns.artist_id))
+    .where(
+      and(
+        eq(mission_assignments.state, "SUBMITTED"),
+        isNotNull(campaign_verification_rules.review_sla_hours),
+        isNull(mission_submissions.decision)
+      )
+    );
+
+  const summary: EnforceReviewSlaSummary = {
+    checked: waiting.length,
+    warned: 0,
+    approved: 0,
+    held: 0,
+    paid: 0,
+    failed: 0,
+  };
+
+  for (const { assignment, submission, mission, campaign, rules, artistAuthId } of waiting) {
+    const slaHours = rules.review_sla_hours!;
+    const deadline = computeReviewDeadline(submission.created_at, slaHours);
+    const warnAt = new Date(
+      deadline.getTime() - Math.min(REVIEW_WARNING_LEAD_MS, (slaHours * 60 * 60 * 1000) / 2)
+    );
+
+    const flagged = submission.duplicate_of_submission_id !== null;
+
+    try {
+      if (now < deadline) {
+        if (now >= warnAt && !submission.review_warning_sent_at && artistAuthId) {
+          await db.transaction(async (tx) => {
+            await tx
+              .update(mission_submissions)
+              .set({ review_warning_sent_at: now })
+              .where(eq(mission_submissions.id, submission.id));
+
+            await notify(tx, {
+              recipientId: artistAuthId,
+              type: "REVIEW_DEADLINE_APPROACHING",
+              title: `Review "${mission.title}" by ${deadline.toLocaleString("en-US", { timeZone: "UTC" })} UTC`,
+              body: flagged
+                ? "It was flagged as a possible reused video, so it will not be approved automatically."
+                : rules.auto_pay_after_review_sla
+                  ? "If you do not review it by then it will be approved and the creator paid automatically."
+                  : "If you do not review it by then it will be approved automatically.",
+              missionId: mission.id,
+            });
+          });
+          summary.warned++;
+        }
+        continue;
+      }
+
+      if (flagged) {
+        summary.held++;
+        if (!submission.review_overdue_notified_at && artistAuthId) {
+          await db.transaction(async (tx) => {
+            await tx
+              .update(mission_submissions)
+              .set({ review_overdue_notified_at: now })
+              .where(eq(mission_submissions.id, submission.id));
+
+            await notify(tx, {
+              recipientId: artistAuthId,
+              type: "REVIEW_OVERDUE",
+              title: `Submission for "${mission.title}" still needs your review`,
+              body: `It was not reviewed within ${slaHours} hours but was flagged as a possible reused video, so it was not approved automatically.`,
+              missionId: mission.id,
+            });
+          });
+        }
+        continue;
+      }
+
+      const approved = await approveAfterSla(db, assignment.id, slaHours);
+      if (!approved) {
+        continue;
+      }
+      summary.approved++;
+      console.log(`Assignment ${assignment.id} auto-approved after the ${slaHours}h review window`);
+
+      let paid = false;
+      if (rules.auto_pay_after_review_sla) {
+        // A failed transfer leaves the payout for the reconcile job or the artist to retry
+        try {
+          const payment = await payVerifiedAssignment(db, {
+            assignment: approved,
+            mission,
+            campaign,
+            actor: SYSTEM_ACTOR,
+          });
+          if (payment.status === "skipped") {
+            console.log(`Assignment ${assignment.id} not auto-paid: ${payment.reason}`);
+          }
+          paid = payment.status === "paid";
+        } catch (error) {
+          summary.failed++;
+          console.error(`Failed to auto-pay assignment ${assignment.id}:`, error);
+        }
+        if (paid) {
+          summary.paid++;
+        }
+      }
+
+      if (artistAuthId) {
+        await notify(db, {
+          recipientId: artistAuthId,
+          type: "SUBMISSION_AUTO_APPROVED",
+          title: `Submission for "${mission.title}" was approved automatically`,
+          body: `It was not reviewed within ${slaHours} hours${paid ? " and the creator has been paid" : ""}.`,
+          missionId: mission.id,
+        });
+      }
+    } catch (error) {
+      summary.failed++;
+      console.error(`Failed to enforce review SLA for assignment ${assignment.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// Guarded on the assignment still being SUBMITTED, since the artist may have reviewed it meanwhile
+async function approveAfterSla(
+  db: DbExecutor,
+  assignmentId: string,
+  slaHours: number
+): Promise<MissionAssignment | null> {
+  return db.transaction(async (tx) => {
+    const transition = await transitionMission(tx, {
+      assignmentId,
+      from: MissionState.SUBMITTED,
+      to: MissionState.VERIFIED,
+      actor: SYSTEM_ACTOR,
+      reason: `Not reviewed within ${slaHours} hours`,
+    });
+
+    if (transition.status === "conflict") {
+      return null;
+    }
+
+    await recordReviewDecision(tx, {
+      assignmentId,
+      decision: "VERIFIED",
+      reviewerId: null,
+      source: "REVIEW_SLA",
+      notes: `Auto-approved: not reviewed within ${slaHours} hours`,
+    });
+
+    return transition.assignment;
+  });
+}
@@ -0,0 +1,150 @@
+import { and, asc, desc, eq, isNull, ne, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { mission_assignments, mission_submissions } from "@/lib/db/schema";
+import type { ParsedVideoUrl } from "@/lib/missions/video-urls";
+
+export type MissionSubmission = typeof mission_submissions.$inferSelect;
+export type SubmissionDecision = NonNullable<MissionSubmission["decision"]>;
+export type DecisionSource = NonNullable<MissionSubmission["decision_source"]>;
+export type RejectionReason = NonNullable<MissionSubmission["rejection_reason"]>;
+
+export type DuplicateVideoCheck =
+  | { status: "unique" }
+  | { status: "blocked"; duplicate: MissionSubmission }
+  | { status: "flagged"; duplicate: MissionSubmission };
+
+/**
+ * Look for the same video on other assignments, so one video cannot be paid for twice.
+ * A video pending or accepted elsewhere blocks the submission; one only ever rejected
+ * elsewhere goes through, flagged for the artist. Call inside the submitting transaction:
+ * it locks the video ID so two concurrent submissions of it cannot both pass.
+ */
+export async function checkDuplicateVideo(
+  db: DbExecutor,
+  params: { assignmentId: string; video: ParsedVideoUrl }
+): Promise<DuplicateVideoCheck> {
+  await db.execute(
+    sql`select pg_advisory_xact_lock(hashtext(${`video:${params.video.platform}:${params.video.videoId}`}))`
+  );
+
+  const matches = await db
+    .select()
+    .from(mission_submissions)
+    .where(
+      and(
+        eq(mission_submissions.platform, params.video.platform),
+        eq(mission_submissions.video_id, params.video.videoId),
+        ne(mission_submissions.assignment_id, params.assignmentId)
+      )
+    )
+    .orderBy(asc(mission_submissions.created_at));
+
+  const live = matches.find((match) => match.decision !== "REJECTED");
+  if (live) {
+    return { status: "blocked", duplicate: live };
+  }
+  if (matches.length > 0) {
+    return { status: "flagged", duplicate: matches[0] };
+  }
+  return { status: "unique" };
+}
+
+/**
+ * Record a new submission attempt as the next version for the assignment.
+ * The assignment row is locked so concurrent submits cannot claim the same version.
+ */
+export async function recordSubmission(
+  db: DbExecutor,
+  params: {
+    missionId: string;
+    assignmentId: string;
+    video: ParsedVideoUrl;
+    duplicateOfSubmissionId?: string | null;
+  }
+): Promise<MissionSubmission> {
+  return db.transaction(async (tx) => {
+    await tx
+      .select({ id: mission_assignments.id })
+      .from(mission_assignments)
+      .where(eq(mission_assignments.id, params.assignmentId))
+      .for("update");
+
+    const [latest] = await tx
+      .select({ version: mission_submissions.version })
+      .from(mission_submissions)
+      .where(eq(mission_submissions.assignment_id, params.assignmentId))
+      .orderBy(desc(mission_submissions.version))
+      .limit(1);
+
+    const [submission] = await tx
+      .insert(mission_submissions)
+      .values({
+        mission_id: params.missionId,
+        assignment_id: params.assignmentId,
+        version: (latest?.version ?? 0) + 1,
+        platform: params.video.platform,
+        video_url: params.video.canonicalUrl,
+        video_id: params.video.videoId,
+        duplicate_of_submission_id: params.duplicateOfSubmissionId ?? null,
+      })
+      .returning();
+
+    return submission;
+  });
+}
+
+/**
+ * Record the artist's decision on the latest unreviewed submission of an assignment.
+ * Returns null if there is nothing awaiting review.
+ */
+export async function recordReviewDecision(
+  db: DbExecutor,
+  params: {
+    assignmentId: string;
+    decision: SubmissionDecision;
+    reviewerId: number | null; // Null for automatic decisions
+    source?: DecisionSource; // Defaults to ARTIST
+    rejectionReason?: RejectionReason | null;
+    notes?: string | null;
+  }
+): Promise<MissionSubmission | null> {
+  const [latest] = await db
+    .select()
+    .from(mission_submissions)
+    .where(and(eq(mission_submissions.assignment_id, params.assignmentId), isNull(mission_submissions.decision)))
+    .orderBy(desc(mission_submissions.version))
+    .limit(1);
+
+  if (!latest) {
+    return null;
+  }
+
+  const [reviewed] = await db
+    .update(mission_submissions)
+    .set({
+      decision: params.decision,
+      decision_source: params.source ?? "ARTIST",
+      rejection_reason: params.rejectionReason ?? null,
+      reviewer_notes: params.notes ?? null,
+      reviewed_by: params.reviewerId,
+      reviewed_at: new Date(),
+    })
+    .where(eq(mission_submissions.id, latest.id))
+    .returning();
+
+  return reviewed;
+}
+
+/**
+ * All submission attempts for an assignment, oldest first
+ */
+export async function getSubmissionTimeline(
+  db: DbExecutor,
+  assignmentId: string
+): Promise<MissionSubmission[]> {
+  return db
+    .select()
+    .from(mission_submissions)
+    .where(eq(mission_submissions.assignment_id, assignmentId))
+    .orderBy(asc(mission_submissions.version));
+}
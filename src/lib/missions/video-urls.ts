@@ -0,0 +1,101 @@
+import { videoPlatformEnum } from "@/lib/db/schema";
+
+export type VideoPlatform = (typeof videoPlatformEnum.enumValues)[number];
+
+export const VIDEO_PLATFORMS: VideoPlatform[] = [...videoPlatformEnum.enumValues];
+
+export const VIDEO_PLATFORM_LABELS: Record<VideoPlatform, string> = {
+  TIKTOK: "TikTok",
+  INSTAGRAM_REELS: "Instagram Reels",
+  YOUTUBE_SHORTS: "YouTube Shorts",
+  X: "X",
+};
+
+export interface ParsedVideoUrl {
+  platform: VideoPlatform;
+  videoId: string;
+  canonicalUrl: string;
+}
+
+export type ParseVideoUrlResult =
+  | { status: "valid"; video: ParsedVideoUrl }
+  | { status: "invalid"; error: string };
+
+const TIKTOK_HOSTS = ["tiktok.com", "www.tiktok.com", "m.tiktok.com"];
+const TIKTOK_SHORT_HOSTS = ["vm.tiktok.com", "vt.tiktok.com"];
+const INSTAGRAM_HOSTS = ["instagram.com", "www.instagram.com", "m.instagram.com"];
+const YOUTUBE_HOSTS = ["youtube.com", "www.youtube.com", "m.youtube.com"];
+const X_HOSTS = ["x.com", "www.x.com", "twitter.com", "www.twitter.com", "mobile.twitter.com", "mobile.x.com"];
+
+/**
+ * Work out which platform a video URL belongs to and extract the platform's video ID.
+ * Tracking parameters and host variants are dropped, so the same video always yields
+ * the same canonical URL.
+ */
+export function parseVideoUrl(input: string): ParseVideoUrlResult {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return { status: "invalid", error: "Not a valid URL" };
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return { status: "invalid", error: "Not a valid URL" };
+  }
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (TIKTOK_SHORT_HOSTS.includes(host)) {
+    return {
+      status: "invalid",
+      error: "TikTok short links are not supported. Open the video and copy its full link.",
+    };
+  }
+
+  if (TIKTOK_HOSTS.includes(host)) {
+    // https://www.tiktok.com/@handle/video/7234567890123456789
+    const [handle, kind, videoId] = segments;
+    if (handle?.startsWith("@") && kind === "video" && /^\d+$/.test(videoId ?? "")) {
+      return valid("TIKTOK", videoId, `https://www.tiktok.com/${handle}/video/${videoId}`);
+    }
+    return { status: "invalid", error: "Not a TikTok video link" };
+  }
+
+  if (INSTAGRAM_HOSTS.includes(host)) {
+    // https://www.instagram.com/reel/C1a2B3c4D5e/ (or /reels/)
+    const [kind, shortcode] = segments;
+    if ((kind === "reel" || kind === "reels") && /^[A-Za-z0-9_-]+$/.test(shortcode ?? "")) {
+      return valid("INSTAGRAM_REELS", shortcode, `https://www.instagram.com/reel/${shortcode}/`);
+    }
+    return { status: "invalid", error: "Not an Instagram Reel link" };
+  }
+
+  if (YOUTUBE_HOSTS.includes(host)) {
+    // https://www.youtube.com/shorts/dQw4w9WgXcQ
+    const [kind, videoId] = segments;
+    if (kind === "shorts" && /^[A-Za-z0-9_-]{11}$/.test(videoId ?? "")) {
+      return valid("YOUTUBE_SHORTS", videoId, `https://www.youtube.com/shorts/${videoId}`);
+    }
+    return { status: "invalid", error: "Not a YouTube Shorts link" };
+  }
+
+  if (X_HOSTS.includes(host)) {
+    // https://x.com/handle/status/1234567890123456789
+    const [handle, kind, postId] = segments;
+    if (handle && kind === "status" && /^\d+$/.test(postId ?? "")) {
+      return valid("X", postId, `https://x.com/${handle}/status/${postId}`);
+    }
+    return { status: "invalid", error: "Not an X post link" };
+  }
+
+  return {
+    status: "invalid",
+    error: `Unsupported platform. Submit a ${VIDEO_PLATFORMS.map((p) => VIDEO_PLATFORM_LABELS[p]).join(", ")} link.`,
+  };
+}
+
+function valid(platform: VideoPlatform, videoId: string, canonicalUrl: string): ParseVideoUrlResult {
+  return { status: "valid", video: { platform, videoId, canonicalUrl } };
+}
@@ -0,0 +1,75 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { notifications } from "@/lib/db/schema";
+
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationType = Notification["type"];
+
+/**
+ * Store an in-app notification for a user, identified by their Supabase auth ID
+ */
+export async function notify(
+  db: DbExecutor,
+  params: {
+    recipientId: string;
+    type: NotificationType;
+    title: string;
+    body?: string | null;
+    missionId?: string | null;
+  }
+): Promise<Notification> {
+  const [notification] = await db
+    .insert(notifications)
+    .values({
+      recipient_id: params.recipientId,
+      type: params.type,
+      title: params.title,
+      body: params.body ?? null,
+      mission_id: params.missionId ?? null,
+    })
+    .returning();
+
+  return notification;
+}
+
+/**
+ * A user's notifications, newest first
+ */
+export async function listNotifications(
+  db: DbExecutor,
+  recipientId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  const conditions = [eq(notifications.recipient_id, recipientId)];
+  if (options.unreadOnly) {
+    conditions.push(isNull(notifications.read_at));
+  }
+
+  return db
+    .select()
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.created_at))
+    .limit(options.limit ?? 50);
+}
+
+/**
+ * Mark one of the recipient's notifications as read. Returns null if it is not theirs.
+ */
+export async function markNotificationRead(
+  db: DbExecutor,
+  params: { notificationId: string; recipientId: string }
+): Promise<Notification | null> {
+  const [updated] = await db
+    .update(notifications)
+    .set({ read_at: new Date() })
+    .where(
+      and(
+        eq(notifications.id, params.notificationId),
+        eq(notifications.recipient_id, params.recipientId)
+      )
+    )
+    .returning();
+
+  return updated || null;
+}
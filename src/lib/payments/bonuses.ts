@@ -0,0 +1,245 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import {
+  campaigns,
+  mission_assignments,
+  mission_bonus_tiers,
+  mission_submissions,
+  payouts,
+  submission_metrics,
+  users,
+} from "@/lib/db/schema";
+import { getCampaignBudget, releaseBonusReservation, reserveBonusPayout } from "@/lib/ledger";
+import { createPayout, PAYABLE_CAMPAIGN_STATUSES, submitPayout } from "@/lib/payments/payouts";
+
+export type MissionBonusTier = typeof mission_bonus_tiers.$inferSelect;
+
+export interface AwardBonusesSummary {
+  checked: number;
+  paid: number;
+  capped: number; // Paid less than the tier's bonus, or nothing, because the budget ran out
+  failed: number;
+}
+
+// A bonus whose transfer keeps failing is left for the artist to look into after this many tries
+const MAX_BONUS_ATTEMPTS = 3;
+
+/**
+ * Bonus tiers of each of the given missions, lowest threshold first
+ */
+export async function getBonusTiers(
+  db: DbExecutor,
+  missionIds: string[]
+): Promise<Map<string, MissionBonusTier[]>> {
+  const byMission = new Map<string, MissionBonusTier[]>();
+  if (missionIds.length === 0) {
+    return byMission;
+  }
+
+  const rows = await db
+    .select()
+    .from(mission_bonus_tiers)
+    .where(inArray(mission_bonus_tiers.mission_id, missionIds))
+    .orderBy(asc(mission_bonus_tiers.views_threshold));
+
+  for (const row of rows) {
+    const tiers = byMission.get(row.mission_id) ?? [];
+    tiers.push(row);
+    byMission.set(row.mission_id, tiers);
+  }
+  return byMission;
+}
+
+/**
+ * Add the bonus tiers to each mission, for listings
+ */
+export async function withBonusTiers<T extends { id: string }>(
+  db: DbExecutor,
+  rows: T[]
+): Promise<(T & { bonus_tiers: MissionBonusTier[] })[]> {
+  const tiers = await getBonusTiers(
+    db,
+    rows.map((row) => row.id)
+  );
+  return rows.map((row) => ({ ...row, bonus_tiers: tiers.get(row.id) ?? [] }));
+}
+
+/**
+ * Scheduled job: pay the view bonuses earned since the last run. A PAID assignment earns
+ * every tier its verified video's latest view count has reached. The amount is capped by
+ * what is left of the campaign's budget, reserved in the ledger, then transferred like
+ * the base payout. Failed transfers are retried on later runs; a bonus given up on
+ * returns its reservation to the campaign.
+ */
+export async function awardViewBonuses(db: DbExecutor): Promise<AwardBonusesSummary> {
+  const candidates = await db
+    .select({ assignment: mission_assignments, tier: mission_bonus_tiers })
+    .from(mission_assignments)
+    .innerJoin(mission_bonus_tiers, eq(mission_bonus_tiers.mission_id, mission_assignments.mission_id))
+    .where(eq(mission_assignments.state, "PAID"))
+    .orderBy(asc(mission_assignments.id), asc(mission_bonus_tiers.views_threshold));
+
+  const summary: AwardBonusesSummary = {
+    checked: candidates.length,
+    paid: 0,
+    capped: 0,
+    failed: 0,
+  };
+
+  const viewsByAssignment = new Map<string, number | null>();
+
+  for (const { assignment, tier } of candidates) {
+    if (!viewsByAssignment.has(assignment.id)) {
+      viewsByAssignment.set(assignment.id, await getVerifiedVideoViews(db, assignment.id));
+    }
+    const views = viewsByAssignment.get(assignment.id);
+    if (views === null || views === undefined || views < tier.views_threshold) {
+      continue;
+    }
+
+    try {
+      const outcome = await payBonus(db, assignment, tier);
+      if (outcome === "paid") {
+        summary.paid++;
+      } else if (outcome === "capped") {
+        summary.capped++;
+      }
+    } catch (error) {
+      summary.failed++;
+      console.error(`Failed to pay bonus tier ${tier.id} for assignment ${assignment.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// Latest collected view count of the submission the artist verified
+async function getVerifiedVideoViews(db: DbExecutor, assignmentId: string): Promise<number | null> {
+  const [latest] = await db
+    .select({ views: submission_metrics.views })
+    .from(submission_metrics)
+    .innerJoin(mission_submissions, eq(mission_submissions.id, submission_metrics.submission_id))
+    .where(
+      and(
+        eq(mission_submissions.assignment_id, assignmentId),
+        eq(mission_submissions.decision, "VERIFIED")
+      )
+    )
+    .orderBy(desc(submission_metrics.collected_at))
+    .limit(1);
+
+  return latest ? latest.views : null;
+}
+
+async function payBonus(
+  db: DbExecutor,
+  assignment: typeof mission_assignments.$inferSelect,
+  tier: MissionBonusTier
+): Promise<"paid" | "capped" | null> {
+  const previous = await db
+    .select()
+    .from(payouts)
+    .where(and(eq(payouts.assignment_id, assignment.id), eq(payouts.bonus_tier_id, tier.id)));
+
+  // Paid or on its way
+  if (previous.some((payout) => payout.status !== "FAILED" && payout.status !== "REVERSED")) {
+    return null;
+  }
+
+  // Given up on after repeated failures: the reserved amount goes back to the campaign
+  if (previous.length >= MAX_BONUS_ATTEMPTS) {
+    await releaseBonusReservation(db, {
+      campaignId: assignment.campaign_id,
+      missionId: assignment.mission_id,
+      assignmentId: assignment.id,
+      bonusTierId: tier.id,
+      amountCents: previous[0].amount_cents,
+      currency: previous[0].currency,
+      reason: `${previous.length} failed transfers`,
+    });
+    return null;
+  }
+
+  const [creator] = await db
+    .select()
+    .from(users)
+    .where(eq(users.auth_user_id, assignment.creator_id))
+    .limit(1);
+
+  const destinationAccountId = creator?.stripe_account_id;
+  if (!destinationAccountId) {
+    return null;
+  }
+
+  const created = await db.transaction(async (tx) => {
+    // Lock the campaign so concurrent bonuses cannot both claim the last of the budget
+    const [campaign] = await tx
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, assignment.campaign_id))
+      .for("update");
+
+    // The campaign can no longer pay: drop the bonus and release what a failed attempt reserved
+    if (!PAYABLE_CAMPAIGN_STATUSES.includes(campaign.payment_status)) {
+      if (previous[0]) {
+        await releaseBonusReservation(tx, {
+          campaignId: campaign.id,
+          missionId: assignment.mission_id,
+          assignmentId: assignment.id,
+          bonusTierId: tier.id,
+          amountCents: previous[0].amount_cents,
+          currency: campaign.currency,
+          reason: `campaign is ${campaign.payment_status}`,
+        });
+      }
+      return null;
+    }
+
+    // A retry pays the amount reserved on the first attempt
+    let amountCents = previous[0]?.amount_cents;
+    let capped = false;
+
+    if (amountCents === undefined) {
+      const budget = await getCampaignBudget(tx, campaign);
+      amountCents = Math.max(0, Math.min(tier.bonus_cents, budget.remaining_budget_cents, budget.available_cents));
+      capped = amountCents < tier.bonus_cents;
+
+      if (amountCents === 0) {
+        return { payout: null, capped };
+      }
+
+      await reserveBonusPayout(tx, {
+        campaignId: campaign.id,
+        missionId: assignment.mission_id,
+        assignmentId: assignment.id,
+        bonusTierId: tier.id,
+        amountCents,
+        currency: campaign.currency,
+      });
+    }
+
+    const result = await createPayout(tx, {
+      assignmentId: assignment.id,
+      missionId: assignment.mission_id,
+      campaignId: campaign.id,
+      creatorUserId: creator.id,
+      destinationAccountId,
+      amountCents,
+      currency: campaign.currency,
+      bonusTierId: tier.id,
+    });
+
+    return { payout: result.status === "created" ? result.payout : null, capped };
+  });
+
+  if (!created) {
+    return null;
+  }
+  if (!created.payout) {
+    return created.capped ? "capped" : null;
+  }
+
+  await submitPayout(db, created.payout);
+  console.log(`Paid bonus tier ${tier.id} (${created.payout.amount_cents}) for assignment ${assignment.id}`);
+  return created.capped ? "capped" : "paid";
+}
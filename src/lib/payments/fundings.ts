@@ -0,0 +1,223 @@
+import Stripe from "stripe";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaign_fundings, campaigns } from "@/lib/db/schema";
+import { recordFunding, recordRefund } from "@/lib/ledger";
+
+export type CampaignFunding = typeof campaign_fundings.$inferSelect;
+export type FundingType = CampaignFunding["type"];
+
+// Fundings that still hold money that can be refunded
+const REFUNDABLE_STATUSES: CampaignFunding["status"][] = ["FUNDED", "PARTIALLY_REFUNDED"];
+
+/**
+ * Record a PENDING funding for a PaymentIntent created for a campaign
+ */
+export async function createCampaignFunding(
+  db: DbExecutor,
+  params: {
+    campaignId: number;
+    paymentIntentId: string;
+    type: FundingType;
+    amountCents: number;
+    currency: string;
+  }
+): Promise<CampaignFunding> {
+  const [funding] = await db
+    .insert(campaign_fundings)
+    .values({
+      campaign_id: params.campaignId,
+      payment_intent_id: params.paymentIntentId,
+      type: params.type,
+      amount_cents: params.amountCents,
+      currency: params.currency,
+      status: "PENDING",
+    })
+    .returning();
+
+  return funding;
+}
+
+/**
+ * Credit a succeeded PaymentIntent to its campaign: marks the funding FUNDED, posts
+ * it to the ledger and, for the initial payment, marks the campaign FUNDED. A top-up
+ * adds its amount to the campaign budget. Safe to call repeatedly (webhook, fund
+ * route and payment-intent route may all see the same payment).
+ * Returns null if the PaymentIntent does not belong to a campaign.
+ */
+export async function creditCampaignFunding(
+  db: DbExecutor,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<CampaignFunding | null> {
+  return db.transaction(async (tx) => {
+    let [funding] = await tx
+      .select()
+      .from(campaign_fundings)
+      .where(eq(campaign_fundings.payment_intent_id, paymentIntent.id))
+      .limit(1);
+
+    // PaymentIntents created before fundings were tracked only carry campaign metadata
+    if (!funding) {
+      const campaignId = paymentIntent.metadata?.campaign_id;
+      if (!campaignId) {
+        return null;
+      }
+
+      await tx
+        .insert(campaign_fundings)
+        .values({
+          campaign_id: parseInt(campaignId, 10),
+          payment_intent_id: paymentIntent.id,
+          type: "INITIAL",
+          amount_cents: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          status: "PENDING",
+        })
+        .onConflictDoNothing({ target: campaign_fundings.payment_intent_id });
+
+      [funding] = await tx
+        .select()
+        .from(campaign_fundings)
+        .where(eq(campaign_fundings.payment_intent_id, paymentIntent.id))
+        .limit(1);
+    }
+
+    // Only a PENDING funding is credited, so the budget is increased exactly once
+    const [credited] = await tx
+      .update(campaign_fundings)
+      .set({
+        status: "FUNDED",
+        amount_cents: paymentIntent.amount_received,
+        funded_at: new Date(),
+      })
+      .where(and(eq(campaign_fundings.id, funding.id), eq(campaign_fundings.status, "PENDING")))
+      .returning();
+
+    if (credited) {
+      if (credited.type === "INITIAL") {
+        await tx
+          .update(campaigns)
+          .set({ payment_status: "FUNDED" })
+          .where(and(eq(campaigns.id, credited.campaign_id), eq(campaigns.payment_status, "PENDING")));
+      } else {
+        await tx
+          .update(campaigns)
+          .set({ budget_cents: sql`${campaigns.budget_cents} + ${credited.amount_cents}` })
+          .where(eq(campaigns.id, credited.campaign_id));
+      }
+    }
+
+    await recordFunding(tx, {
+      campaignId: funding.campaign_id,
+      paymentIntentId: paymentIntent.id,
+      amountCents: paymentIntent.amount_received,
+      currency: paymentIntent.currency,
+    });
+
+    return credited || funding;
+  });
+}
+
+/**
+ * Apply a charge.refunded event to the funding it belongs to and recompute the
+ * campaign's payment_status: REFUNDED only once every paid funding is fully refunded.
+ * Returns null if the charge does not belong to a campaign funding.
+ */
+export async function applyFundingRefund(
+  db: DbExecutor,
+  charge: Stripe.Charge
+): Promise<{ funding: CampaignFunding; campaignStatus: CampaignFunding["status"] } | null> {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  return db.transaction(async (tx) => {
+    const [funding] = await tx
+      .select()
+      .from(campaign_fundings)
+      .where(eq(campaign_fundings.payment_intent_id, paymentIntentId))
+      .limit(1);
+
+    if (!funding) {
+      return null;
+    }
+
+    await recordRefund(tx, {
+      campaignId: funding.campaign_id,
+      chargeId: charge.id,
+      totalRefundedCents: charge.amount_refunded,
+      currency: charge.currency,
+    });
+
+    const [updated] = await tx
+      .update(campaign_fundings)
+      .set({
+        status: charge.refunded ? "REFUNDED" : "PARTIALLY_REFUNDED",
+        refunded_cents: charge.amount_refunded,
+      })
+      .where(eq(campaign_fundings.id, funding.id))
+      .returning();
+
+    const paid = await tx
+      .select({ status: campaign_fundings.status })
+      .from(campaign_fundings)
+      .where(
+        and(
+          eq(campaign_fundings.campaign_id, funding.campaign_id),
+          inArray(campaign_fundings.status, [...REFUNDABLE_STATUSES, "REFUNDED"])
+        )
+      );
+
+    const campaignStatus = paid.every((f) => f.status === "REFUNDED")
+      ? "REFUNDED"
+      : "PARTIALLY_REFUNDED";
+
+    await tx
+      .update(campaigns)
+      .set({ payment_status: campaignStatus })
+      .where(eq(campaigns.id, funding.campaign_id));
+
+    return { funding: updated, campaignStatus };
+  });
+}
+
+/**
+ * Split a refund amount across a campaign's paid fundings, newest first, since a
+ * Stripe refund can never exceed the PaymentIntent it is issued against
+ */
+export async function planFundingRefunds(
+  db: DbExecutor,
+  campaignId: number,
+  amountCents: number
+): Promise<{ funding: CampaignFunding; amountCents: number }[]> {
+  const fundings = await db
+    .select()
+    .from(campaign_fundings)
+    .where(
+      and(
+        eq(campaign_fundings.campaign_id, campaignId),
+        inArray(campaign_fundings.status, REFUNDABLE_STATUSES)
+      )
+    )
+    .orderBy(desc(campaign_fundings.created_at));
+
+  const plan: { funding: CampaignFunding; amountCents: number }[] = [];
+  let remaining = amountCents;
+
+  for (const funding of fundings) {
+    if (remaining <= 0) {
+      break;
+    }
+    const refundable = funding.amount_cents - funding.refunded_cents;
+    if (refundable <= 0) {
+      continue;
+    }
+    const amount = Math.min(refundable, remaining);
+    plan.push({ funding, amountCents: amount });
+    remaining -= amount;
+  }
+
+  return plan;
+}
@@ -0,0 +1,468 @@
+import Stripe from "stripe";
+import { and, eq, inArray, isNull, lt } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { campaigns, mission_assignments, missions, payouts, users } from "@/lib/db/schema";
+import { getStripe, payoutCreator } from "@/lib/payments/stripe";
+import { getCampaignBalances, recordPayout } from "@/lib/ledger";
+import { assertTransition, MissionState } from "@/lib/state/mission";
+import { SYSTEM_ACTOR, type EventActor } from "@/lib/state/events";
+import { transitionMission } from "@/lib/state/transitions";
+
+export type Payout = typeof payouts.$inferSelect;
+export type MissionAssignment = typeof mission_assignments.$inferSelect;
+
+export type PayAssignmentResult =
+  | { status: "paid"; payout: Payout; assignment: MissionAssignment | null }
+  | { status: "skipped"; reason: string };
+
+export type CreatePayoutResult =
+  | { status: "created"; payout: Payout }
+  | { status: "conflict"; error: string };
+
+export interface ReconcilePayoutsSummary {
+  checked: number;
+  succeeded: number;
+  failed: number;
+  still_pending: number;
+}
+
+// Stripe only remembers idempotency keys for 24 hours; after that a replay
+// could create a second transfer, so older payouts are matched by metadata instead
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Payouts untouched for this long are considered stuck by the recovery job
+const STUCK_PAYOUT_AFTER_MS = 10 * 60 * 1000;
+
+const IN_FLIGHT_STATUSES: Payout["status"][] = ["PENDING", "SUBMITTED"];
+
+// Assignment states a payout can be started from: first attempt, or retry after a failure/reversal
+const PAYABLE_ASSIGNMENT_STATES: MissionAssignment["state"][] = ["VERIFIED", "PAYOUT_FAILED"];
+
+/**
+ * Campaign payment statuses that still hold money for creators. A cancelled campaign is
+ * PARTIALLY_REFUNDED: only its unreserved part went back to the artist, so reserved payouts
+ * remain payable. The ledger check against funded_cents decides whether a payout fits.
+ */
+export const PAYABLE_CAMPAIGN_STATUSES: (typeof campaigns.$inferSelect)["payment_status"][] = ["FUNDED", "PARTIALLY_REFUNDED"];
+
+/**
+ * Idempotency key sent to Stripe, derived from the assignment, bonus tier (if any) and attempt number
+ */
+export function payoutIdempotencyKey(assignmentId: string, attempt: number, bonusTierId?: string | null): string {
+  return bonusTierId
+    ? `assignment-${assignmentId}-bonus-${bonusTierId}-payout-${attempt}`
+    : `assignment-${assignmentId}-payout-${attempt}`;
+}
+
+/**
+ * Lock the assignment row and record a PENDING payout for it.
+ * Refuses if the assignment is no longer payable or another payout is already in flight.
+ * With `bonusTierId` this is a view bonus instead, paid on top of an assignment already PAID;
+ * a tier that was already paid out is refused.
+ */
+export async function createPayout(
+  db: DbExecutor,
+  params: {
+    assignmentId: string;
+    missionId: string;
+    campaignId: number;
+    creatorUserId: number;
+    destinationAccountId: string;
+    amountCents: number;
+    currency: string;
+    bonusTierId?: string | null;
+  }
+): Promise<CreatePayoutResult> {
+  const bonusTierId = params.bonusTierId ?? null;
+
+  return db.transaction(async (tx) => {
+    const [assignment] = await tx
+      .select()
+      .from(mission_assignments)
+      .where(eq(mission_assignments.id, params.assignmentId))
+      .for("update");
+
+    if (bonusTierId) {
+      if (!assignment || assignment.state !== "PAID") {
+        return {
+          status: "conflict",
+          error: `Bonuses are paid after the base payout. Current state: ${assignment?.state}`,
+        };
+      }
+    } else if (!assignment || !PAYABLE_ASSIGNMENT_STATES.includes(assignment.state)) {
+      return {
+        status: "conflict",
+        error: `Assignment is not VERIFIED or PAYOUT_FAILED. Current state: ${assignment?.state}`,
+      };
+    }
+
+    // Earlier attempts of the same payout: the base payout, or this bonus tier
+    const previous = await tx
+      .select()
+      .from(payouts)
+      .where(
+        and(
+          eq(payouts.assignment_id, params.assignmentId),
+          bonusTierId ? eq(payouts.bonus_tier_id, bonusTierId) : isNull(payouts.bonus_tier_id)
+        )
+      );
+
+    if (previous.some((payout) => IN_FLIGHT_STATUSES.includes(payout.status))) {
+      return {
+        status: "conflict",
+        error: bonusTierId
+          ? "A payout for this bonus is already in progress"
+          : "A payout for this assignment is already in progress",
+      };
+    }
+
+    if (bonusTierId && previous.some((payout) => payout.status === "SUCCEEDED")) {
+      return {
+        status: "conflict",
+        error: "This bonus has already been paid",
+      };
+    }
+
+    const attempt = previous.length + 1;
+
+    const [payout] = await tx
+      .insert(payouts)
+      .values({
+        mission_id: params.missionId,
+        assignment_id: params.assignmentId,
+        campaign_id: params.campaignId,
+        creator_user_id: params.creatorUserId,
+        destination_account_id: params.destinationAccountId,
+        amount_cents: params.amountCents,
+        currency: params.currency,
+        attempt,
+        idempotency_key: payoutIdempotencyKey(params.assignmentId, attempt, bonusTierId),
+        bonus_tier_id: bonusTierId,
+        status: "PENDING",
+      })
+      .returning();
+
+    return { status: "created", payout };
+  });
+}
+
+/**
+ * Send a PENDING payout to Stripe and, once the transfer exists, mark it
+ * SUCCEEDED and the assignment PAID. Stripe errors are rethrown after the payout
+ * is marked FAILED; transient errors leave it SUBMITTED for the recovery job.
+ * Bonus payouts never change the assignment's state.
+ */
+export async function submitPayout(
+  db: DbExecutor,
+  payout: Payout,
+  actor: EventActor = SYSTEM_ACTOR
+): Promise<{ payout: Payout; assignment: MissionAssignment | null; transferId: string }> {
+  await db
+    .update(payouts)
+    .set({ status: "SUBMITTED", updated_at: new Date() })
+    .where(eq(payouts.id, payout.id));
+
+  const transferId = await sendTransfer(db, payout);
+  return completePayout(db, payout, transferId, actor);
+}
+
+/**
+ * Pay a VERIFIED assignment without the artist, after an automatic or admin decision.
+ * Runs the same checks as the artist's payout endpoint; when one fails the assignment
+ * is left VERIFIED for the artist to pay by hand. Stripe errors are thrown.
+ */
+export async function payVerifiedAssignment(
+  db: DbExecutor,
+  params: {
+    assignment: MissionAssignment;
+    mission: typeof missions.$inferSelect;
+    campaign: typeof campaigns.$inferSelect;
+    actor: EventActor;
+  }
+): Promise<PayAssignmentResult> {
+  const { assignment, mission, campaign } = params;
+
+  if (!PAYABLE_CAMPAIGN_STATUSES.includes(campaign.payment_status)) {
+    return { status: "skipped", reason: "Campaign is not funded" };
+  }
+
+  const balances = await getCampaignBalances(db, campaign.id);
+  if (balances.paid_cents + mission.payout_cents > balances.funded_cents) {
+    return { status: "skipped", reason: "Payout exceeds the campaign's funded amount" };
+  }
+
+  const [creator] = await db
+    .select()
+    .from(users)
+    .where(eq(users.auth_user_id, assignment.creator_id))
+    .limit(1);
+
+  if (!creator?.stripe_account_id) {
+    return { status: "skipped", reason: "Creator has not connected their Stripe account" };
+  }
+
+  assertTransition(assignment.state as MissionState, MissionState.PAID);
+
+  const created = await createPayout(db, {
+    assignmentId: assignment.id,
+    missionId: mission.id,
+    campaignId: campaign.id,
+    creatorUserId: creator.id,
+    destinationAccountId: creator.stripe_account_id,
+    amountCents: mission.payout_cents,
+    currency: campaign.currency,
+  });
+
+  if (created.status === "conflict") {
+    return { status: "skipped", reason: created.error };
+  }
+
+  const result = await submitPayout(db, created.payout, params.actor);
+  return { status: "paid", payout: result.payout, assignment: result.assignment };
+}
+
+/**
+ * Mark a payout SUCCEEDED, move the assignment to PAID and post the ledger entry, atomically
+ */
+export async function completePayout(
+  db: DbExecutor,
+  payout: Payout,
+  transferId: string,
+  actor: EventActor = SYSTEM_ACTOR
+): Promise<{ payout: Payout; assignment: MissionAssignment | null; transferId: string }> {
+  return db.transaction(async (tx) => {
+    const [updatedPayout] = await tx
+      .update(payouts)
+      .set({
+        status: "SUCCEEDED",
+        stripe_transfer_id: transferId,
+        failure_reason: null,
+        updated_at: new Date(),
+      })
+      .where(and(eq(payouts.id, payout.id), inArray(payouts.status, IN_FLIGHT_STATUSES)))
+      .returning();
+
+    // Conditional update: only a payable assignment can become PAID
+    let updatedAssignment: MissionAssignment | null = null;
+    if (!payout.bonus_tier_id) {
+      const transition = await transitionMission(tx, {
+        assignmentId: payout.assignment_id,
+        from: [MissionState.VERIFIED, MissionState.PAYOUT_FAILED],
+        to: MissionState.PAID,
+        actor,
+        metadata: { payout_id: payout.id, transfer_id: transferId, attempt: payout.attempt },
+        changes: { payout_failure_reason: null },
+      });
+
+      if (transition.status === "transitioned") {
+        updatedAssignment = transition.assignment;
+      } else {
+        console.warn(`Payout ${payout.id} succeeded but assignment ${payout.assignment_id} was not payable`);
+      }
+    }
+
+    await recordPayout(tx, {
+      campaignId: payout.campaign_id,
+      missionId: payout.mission_id,
+      transferId,
+      amountCents: payout.amount_cents,
+      currency: payout.currency,
+      bonusTierId: payout.bonus_tier_id,
+    });
+
+    return {
+      payout: updatedPayout || { ...payout, status: "SUCCEEDED", stripe_transfer_id: transferId },
+      assignment: updatedAssignment,
+      transferId,
+    };
+  });
+}
+
+/**
+ * Recovery job: resolve payouts left PENDING or SUBMITTED by a crash or timeout.
+ * Recent payouts are replayed with their original idempotency key (Stripe returns
+ * the existing transfer if there is one); older ones are matched by transfer metadata.
+ */
+export async function reconcileStuckPayouts(db: DbExecutor): Promise<ReconcilePayoutsSummary> {
+  const stuck = await db
+    .select()
+    .from(payouts)
+    .where(
+      and(
+        inArray(payouts.status, IN_FLIGHT_STATUSES),
+        lt(payouts.updated_at, new Date(Date.now() - STUCK_PAYOUT_AFTER_MS))
+      )
+    );
+
+  const summary: ReconcilePayoutsSummary = {
+    checked: stuck.length,
+    succeeded: 0,
+    failed: 0,
+    still_pending: 0,
+  };
+
+  for (const payout of stuck) {
+    try {
+      let transferId: string | null;
+
+      if (Date.now() - payout.created_at.getTime() < IDEMPOTENCY_KEY_TTL_MS) {
+        transferId = await sendTransfer(db, payout);
+      } else {
+        transferId = await findTransferForPayout(payout);
+        if (!transferId) {
+          await markPayoutFailed(db, payout, "No matching transfer found at Stripe");
+          summary.failed++;
+          continue;
+        }
+      }
+
+      await completePayout(db, payout, transferId);
+      summary.succeeded++;
+    } catch (error) {
+      if (isDefinitiveStripeError(error)) {
+        summary.failed++;
+      } else {
+        summary.still_pending++;
+      }
+      console.error(`Failed to reconcile payout ${payout.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+async function sendTransfer(db: DbExecutor, payout: Payout): Promise<string> {
+  try {
+    const transfer = await payoutCreator({
+      connectedAccountId: payout.destination_account_id,
+      amount: payout.amount_cents,
+      currency: payout.currency,
+      idempotencyKey: payout.idempotency_key,
+      metadata: {
+        mission_id: payout.mission_id,
+        assignment_id: payout.assignment_id,
+        campaign_id: payout.campaign_id.toString(),
+        creator_id: payout.creator_user_id.toString(),
+        payout_id: payout.id,
+        ...(payout.bonus_tier_id ? { bonus_tier_id: payout.bonus_tier_id } : {}),
+      },
+    });
+
+    return transfer.id;
+  } catch (error) {
+    if (isDefinitiveStripeError(error)) {
+      await markPayoutFailed(db, payout, (error as Error).message);
+    }
+    throw error;
+  }
+}
+
+async function findTransferForPayout(payout: Payout): Promise<string | null> {
+  const stripe = getStripe();
+
+  const transfers = stripe.transfers.list({
+    destination: payout.destination_account_id,
+    created: { gte: Math.floor(payout.created_at.getTime() / 1000) - 60 },
+    limit: 100,
+  });
+
+  for await (const transfer of transfers) {
+    if (transfer.metadata?.payout_id === payout.id) {
+      return transfer.id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Mark the payout for a reversed transfer REVERSED and move its assignment PAID -> PAYOUT_FAILED
+ * so the artist can retry. A reversed bonus is left to the bonus job to pay again.
+ * Returns the assignment if its state changed.
+ */
+export async function markPayoutReversed(
+  db: DbExecutor,
+  params: { transferId: string }
+): Promise<MissionAssignment | null> {
+  return db.transaction(async (tx) => {
+    const [payout] = await tx
+      .update(payouts)
+      .set({
+        status: "REVERSED",
+        failure_reason: `Transfer ${params.transferId} was reversed`,
+        updated_at: new Date(),
+      })
+      .where(eq(payouts.stripe_transfer_id, params.transferId))
+      .returning();
+
+    if (!payout || payout.bonus_tier_id) {
+      return null;
+    }
+
+    const transition = await transitionMission(tx, {
+      assignmentId: payout.assignment_id,
+      from: MissionState.PAID,
+      to: MissionState.PAYOUT_FAILED,
+      actor: SYSTEM_ACTOR,
+      reason: `Transfer ${params.transferId} was reversed`,
+      metadata: { payout_id: payout.id, transfer_id: params.transferId },
+      changes: { payout_failure_reason: `Transfer ${params.transferId} was reversed` },
+    });
+
+    return transition.status === "transitioned" ? transition.assignment : null;
+  });
+}
+
+async function markPayoutFailed(db: DbExecutor, payout: Payout, reason: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [failed] = await tx
+      .update(payouts)
+      .set({
+        status: "FAILED",
+        failure_reason: reason,
+        updated_at: new Date(),
+      })
+      .where(and(eq(payouts.id, payout.id), inArray(payouts.status, IN_FLIGHT_STATUSES)))
+      .returning();
+
+    if (!failed || failed.bonus_tier_id) {
+      return;
+    }
+
+    // Surface the failure on the assignment so both dashboards show it and the artist can retry
+    const transition = await transitionMission(tx, {
+      assignmentId: payout.assignment_id,
+      from: MissionState.VERIFIED,
+      to: MissionState.PAYOUT_FAILED,
+      actor: SYSTEM_ACTOR,
+      reason,
+      metadata: { payout_id: payout.id },
+      changes: { payout_failure_reason: reason },
+    });
+
+    // A failed retry is not a transition; the assignment stays PAYOUT_FAILED with the new reason.
+    // Only the reason is written, and only while the state is still PAYOUT_FAILED.
+    if (transition.status === "conflict" && transition.currentState === MissionState.PAYOUT_FAILED) {
+      await tx
+        .update(mission_assignments)
+        .set({ payout_failure_reason: reason, updated_at: new Date() })
+        .where(
+          and(
+            eq(mission_assignments.id, payout.assignment_id),
+            eq(mission_assignments.state, MissionState.PAYOUT_FAILED)
+          )
+        );
+    }
+  });
+}
+
+// Connection problems, rate limits and Stripe-side 5xx errors leave the outcome
+// unknown; everything else means Stripe rejected the transfer
+function isDefinitiveStripeError(error: unknown): boolean {
+  return (
+    error instanceof Stripe.errors.StripeError &&
+    !(error instanceof Stripe.errors.StripeConnectionError) &&
+    !(error instanceof Stripe.errors.StripeAPIError) &&
+    !(error instanceof Stripe.errors.StripeRateLimitError)
+  );
+}
@@ -44,10 +44,44 @@ export async function createCampaignPaymentIntent(
   };
 }
 
+export interface RefundCampaignPaymentParams {
+  paymentIntentId: string;
+  amount: number; // in cents
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundCampaignPaymentResult {
+  id: string;
+  status: string;
+}
+
+export async function refundCampaignPayment(
+  params: RefundCampaignPaymentParams
+): Promise<RefundCampaignPaymentResult> {
+  const stripe = getStripe();
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: params.paymentIntentId,
+      amount: params.amount,
+      metadata: params.metadata || {},
+    },
+    { idempotencyKey: params.idempotencyKey }
+  );
+
+  return {
+    id: refund.id,
+    status: refund.status || "pending",
+  };
+}
+
 export interface PayoutCreatorParams {
   connectedAccountId: string;
   amount: number; // in cents
   currency: string;
+  idempotencyKey: string; // Replaying a request with the same key returns the original transfer
+  metadata?: Record<string, string>;
 }
 
 export interface PayoutCreatorResult {
@@ -60,15 +94,18 @@ export async function payoutCreator(
 ): Promise<PayoutCreatorResult> {
   const stripe = getStripe();
 
-  const transfer = await stripe.transfers.create({
-    amount: params.amount,
-    currency: params.currency,
-    destination: params.connectedAccountId,
-  });
+  const transfer = await stripe.transfers.create(
+    {
+      amount: params.amount,
+      currency: params.currency,
+      destination: params.connectedAccountId,
+      metadata: params.metadata || {},
+    },
+    { idempotencyKey: params.idempotencyKey }
+  );
 
   return {
     id: transfer.id,
     status: "pending",
   };
 }
-
@@ -0,0 +1,92 @@
+import type { AuthenticatedUser, UserRole } from "@/lib/auth";
+import { ForbiddenError } from "@/lib/http/errors";
+
+type CampaignRef = { artist_id: number };
+type AssignmentRef = { creator_id: string }; // Supabase auth user ID of the creator
+
+/**
+ * What each action is checked against. Mission and assignment actions take the
+ * campaign or assignment they belong to, e.g. getAssignmentContext's result.
+ */
+export interface PolicyResources {
+  "campaign.manage": CampaignRef; // Fund, top up, cancel, add missions, rules, ledger, metrics
+  "mission.manage": { campaign: CampaignRef }; // Cancel, list applications
+  "application.decide": { campaign: CampaignRef };
+  "mission.review": { campaign: CampaignRef }; // Verify, reject, request changes
+  "mission.payout": { campaign: CampaignRef };
+  "mission.submit": { assignment: AssignmentRef };
+  "mission.dispute": { assignment: AssignmentRef };
+  // Read a mission's state history; assignment is the one whose events are read, null for all of them
+  "mission.events.view": { campaign: CampaignRef; assignment: AssignmentRef | null };
+  "artist.profile.update": { id: number };
+  "creator.profile.update": { creator_id: string };
+}
+
+export type PolicyAction = keyof PolicyResources;
+
+interface Rule<R> {
+  allow: (user: AuthenticatedUser, resource: R) => boolean;
+  denied: string; // Error message when the check fails
+}
+
+const hasRole = (user: AuthenticatedUser, role: UserRole) => user.appUser.roles.includes(role);
+
+const ownsCampaign = (user: AuthenticatedUser, campaign: CampaignRef) =>
+  hasRole(user, "ARTIST") && campaign.artist_id === user.appUser.id;
+
+const ownsAssignment = (user: AuthenticatedUser, assignment: AssignmentRef) =>
+  hasRole(user, "CREATOR") && assignment.creator_id === user.authUserId;
+
+const isAdmin = (user: AuthenticatedUser) => hasRole(user, "ADMIN");
+
+const CAMPAIGN_OWNER_ONLY = "Forbidden: You do not own this campaign";
+const ASSIGNED_CREATOR_ONLY = "Assignment does not belong to this creator";
+const OWN_PROFILE_ONLY = "Forbidden: You can only edit your own profile";
+const MISSION_PARTIES_ONLY = "Forbidden: Only the campaign's artist and the mission's creators can see its history";
+
+const rules: { [A in PolicyAction]: Rule<PolicyResources[A]> } = {
+  "campaign.manage": { allow: ownsCampaign, denied: CAMPAIGN_OWNER_ONLY },
+  "mission.manage": { allow: (user, { campaign }) => ownsCampaign(user, campaign), denied: CAMPAIGN_OWNER_ONLY },
+  "application.decide": { allow: (user, { campaign }) => ownsCampaign(user, campaign), denied: CAMPAIGN_OWNER_ONLY },
+  "mission.review": { allow: (user, { campaign }) => ownsCampaign(user, campaign), denied: CAMPAIGN_OWNER_ONLY },
+  "mission.payout": { allow: (user, { campaign }) => ownsCampaign(user, campaign), denied: CAMPAIGN_OWNER_ONLY },
+  "mission.submit": { allow: (user, { assignment }) => ownsAssignment(user, assignment), denied: ASSIGNED_CREATOR_ONLY },
+  "mission.dispute": { allow: (user, { assignment }) => ownsAssignment(user, assignment), denied: ASSIGNED_CREATOR_ONLY },
+  "mission.events.view": {
+    allow: (user, { campaign, assignment }) =>
+      isAdmin(user) || ownsCampaign(user, campaign) || (assignment !== null && ownsAssignment(user, assignment)),
+    denied: MISSION_PARTIES_ONLY,
+  },
+  "artist.profile.update": {
+    allow: (user, artist) => hasRole(user, "ARTIST") && artist.id === user.appUser.id,
+    denied: OWN_PROFILE_ONLY,
+  },
+  "creator.profile.update": {
+    allow: (user, profile) => hasRole(user, "CREATOR") && profile.creator_id === user.authUserId,
+    denied: OWN_PROFILE_ONLY,
+  },
+};
+
+/**
+ * Whether the user may perform the action on the resource
+ */
+export function can<A extends PolicyAction>(
+  user: AuthenticatedUser,
+  action: A,
+  resource: PolicyResources[A]
+): boolean {
+  return rules[action].allow(user, resource);
+}
+
+/**
+ * Like can, but throws a ForbiddenError (403) when the user may not
+ */
+export function authorize<A extends PolicyAction>(
+  user: AuthenticatedUser,
+  action: A,
+  resource: PolicyResources[A]
+): void {
+  if (!can(user, action, resource)) {
+    throw new ForbiddenError(rules[action].denied);
+  }
+}
@@ -0,0 +1,73 @@
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { mission_events } from "@/lib/db/schema";
+import { assertTransition, MissionState } from "@/lib/state/mission";
+
+export type MissionEvent = typeof mission_events.$inferSelect;
+
+// Who made a state change; userId is the app user (users.id) when there is one
+export interface EventActor {
+  type: MissionEvent["actor"];
+  userId?: number | null;
+}
+
+export const SYSTEM_ACTOR: EventActor = { type: "SYSTEM" };
+
+/**
+ * Validate a mission or assignment state change and append it to the mission's history.
+ * Call inside the transaction that writes the new state, so the change and its event
+ * are committed together. Throws like assertTransition if the change is not allowed.
+ */
+export async function recordTransition(
+  db: DbExecutor,
+  params: {
+    missionId: string;
+    assignmentId?: string | null; // Omitted for changes to the mission itself
+    from: MissionState;
+    to: MissionState;
+    actor: EventActor;
+    reason?: string | null;
+    metadata?: Record<string, unknown> | null;
+  }
+): Promise<MissionEvent> {
+  assertTransition(params.from, params.to);
+
+  const [event] = await db
+    .insert(mission_events)
+    .values({
+      mission_id: params.missionId,
+      assignment_id: params.assignmentId ?? null,
+      actor: params.actor.type,
+      actor_user_id: params.actor.userId ?? null,
+      from_state: params.from,
+      to_state: params.to,
+      reason: params.reason ?? null,
+      metadata: params.metadata ?? null,
+    })
+    .returning();
+
+  return event;
+}
+
+/**
+ * State history of a mission and all of its assignments, oldest first. With `assignmentId`,
+ * only that assignment's events and those of the mission itself.
+ */
+export async function getMissionEvents(
+  db: DbExecutor,
+  missionId: string,
+  assignmentId?: string | null
+): Promise<MissionEvent[]> {
+  return db
+    .select()
+    .from(mission_events)
+    .where(
+      and(
+        eq(mission_events.mission_id, missionId),
+        assignmentId
+          ? or(isNull(mission_events.assignment_id), eq(mission_events.assignment_id, assignmentId))
+          : undefined
+      )
+    )
+    .orderBy(asc(mission_events.created_at));
+}
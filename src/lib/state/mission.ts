@@ -1,23 +1,53 @@
+import { BadRequestError } from "@/lib/http/errors";
+
 export enum MissionState {
   OPEN = "OPEN",
+  APPLICATIONS_OPEN = "APPLICATIONS_OPEN",
   ACCEPTED = "ACCEPTED",
   SUBMITTED = "SUBMITTED",
+  CHANGES_REQUESTED = "CHANGES_REQUESTED",
   VERIFIED = "VERIFIED",
   PAID = "PAID",
   REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED",
+  PAYOUT_FAILED = "PAYOUT_FAILED",
+  EXPIRED = "EXPIRED",
+  DISPUTED = "DISPUTED",
 }
 
+// Missions only use OPEN (or APPLICATIONS_OPEN), CANCELLED and EXPIRED; every creator's
+// progress on a mission is tracked by a mission assignment starting at ACCEPTED
 type TransitionMap = {
   [from in MissionState]?: MissionState[];
 };
 
 const allowedTransitions: TransitionMap = {
-  [MissionState.OPEN]: [MissionState.ACCEPTED],
-  [MissionState.ACCEPTED]: [MissionState.SUBMITTED],
-  [MissionState.SUBMITTED]: [MissionState.VERIFIED, MissionState.REJECTED],
-  [MissionState.VERIFIED]: [MissionState.PAID],
-  [MissionState.PAID]: [],
-  [MissionState.REJECTED]: [],
+  [MissionState.OPEN]: [MissionState.ACCEPTED, MissionState.CANCELLED, MissionState.EXPIRED],
+  [MissionState.APPLICATIONS_OPEN]: [
+    MissionState.ACCEPTED, // Artist approved an application
+    MissionState.CANCELLED,
+    MissionState.EXPIRED,
+  ],
+  [MissionState.ACCEPTED]: [
+    MissionState.SUBMITTED,
+    MissionState.EXPIRED, // Submission deadline missed; the slot goes back to the mission
+  ],
+  [MissionState.SUBMITTED]: [
+    MissionState.VERIFIED,
+    MissionState.REJECTED,
+    MissionState.CHANGES_REQUESTED,
+  ],
+  [MissionState.CHANGES_REQUESTED]: [MissionState.SUBMITTED], // Revised work resubmitted
+  [MissionState.VERIFIED]: [MissionState.PAID, MissionState.PAYOUT_FAILED],
+  [MissionState.PAID]: [MissionState.PAYOUT_FAILED], // Transfer reversed
+  [MissionState.PAYOUT_FAILED]: [MissionState.PAID], // Payout retried
+  [MissionState.REJECTED]: [MissionState.DISPUTED], // Creator contests the rejection in time
+  [MissionState.DISPUTED]: [
+    MissionState.VERIFIED, // Admin overturned the rejection
+    MissionState.REJECTED, // Admin upheld it
+  ],
+  [MissionState.CANCELLED]: [],
+  [MissionState.EXPIRED]: [],
 };
 
 export function canTransition(from: MissionState, to: MissionState): boolean {
@@ -29,15 +59,20 @@ export function canTransition(from: MissionState, to: MissionState): boolean {
   return allowed !== undefined && allowed.includes(to);
 }
 
+// Thrown by assertTransition; reaches API clients as a 400 with the message
+export class InvalidTransitionError extends BadRequestError {
+  constructor(readonly from: MissionState, readonly to: MissionState, allowed: string) {
+    super(`Invalid transition from ${from} to ${to}. Allowed transitions from ${from}: ${allowed}`);
+  }
+}
+
 export function assertTransition(from: MissionState, to: MissionState): void {
   if (!canTransition(from, to)) {
     const allowed = allowedTransitions[from] || [];
     const allowedStr = allowed.length > 0 
       ? allowed.join(", ") 
       : "none (terminal state)";
-    throw new Error(
-      `Invalid transition from ${from} to ${to}. Allowed transitions from ${from}: ${allowedStr}`
-    );
+    throw new InvalidTransitionError(from, to, allowedStr);
   }
 }
 
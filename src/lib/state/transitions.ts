@@ -0,0 +1,90 @@
+import { and, eq } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import type { DbExecutor } from "@/lib/db";
+import { mission_assignments } from "@/lib/db/schema";
+import { assertTransition, MissionState } from "@/lib/state/mission";
+import { recordTransition, type EventActor, type MissionEvent } from "@/lib/state/events";
+
+export type TransitionConflict = {
+  status: "conflict";
+  error: string;
+  currentState: MissionState | null; // Null if the assignment does not exist
+};
+
+export type TransitionMissionResult =
+  | {
+      status: "transitioned";
+      assignment: typeof mission_assignments.$inferSelect;
+      from: MissionState;
+      event: MissionEvent;
+    }
+  | TransitionConflict;
+
+/**
+ * Move a creator's work on a mission (its assignment) from one of `from` to `to`, in a
+ * transaction: the row is locked, the update only applies while the state is still the one
+ * that was read, and the event is recorded with it. Anything the caller does in the same
+ * transaction afterwards commits or rolls back together with the change.
+ * If another request changed the state first, returns a conflict instead of overwriting it.
+ * `from` states that cannot reach `to` at all throw, like assertTransition.
+ */
+export async function transitionMission(
+  db: DbExecutor,
+  params: {
+    assignmentId: string;
+    from: MissionState | MissionState[];
+    to: MissionState;
+    actor: EventActor;
+    reason?: string | null;
+    metadata?: Record<string, unknown> | null;
+    changes?: Omit<PgUpdateSetSource<typeof mission_assignments>, "state" | "updated_at">; // Other columns to set
+  }
+): Promise<TransitionMissionResult> {
+  const allowedFrom = Array.isArray(params.from) ? params.from : [params.from];
+  for (const from of allowedFrom) {
+    assertTransition(from, params.to);
+  }
+
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ mission_id: mission_assignments.mission_id, state: mission_assignments.state })
+      .from(mission_assignments)
+      .where(eq(mission_assignments.id, params.assignmentId))
+      .for("update");
+
+    if (!current) {
+      return { status: "conflict", error: "Assignment not found", currentState: null } as const;
+    }
+
+    const from = current.state as MissionState;
+    if (!allowedFrom.includes(from)) {
+      return {
+        status: "conflict",
+        error: `Assignment is ${from}, expected ${allowedFrom.join(" or ")}`,
+        currentState: from,
+      } as const;
+    }
+
+    const [assignment] = await tx
+      .update(mission_assignments)
+      .set({
+        ...params.changes,
+        state: params.to,
+        updated_at: new Date(),
+      })
+      .where(and(eq(mission_assignments.id, params.assignmentId), eq(mission_assignments.state, from)))
+      .returning();
+
+    const event = await recordTransition(tx, {
+      missionId: current.mission_id,
+      assignmentId: params.assignmentId,
+      from,
+      to: params.to,
+      actor: params.actor,
+      reason: params.reason,
+      metadata: params.metadata,
+    });
+
+    return { status: "transitioned", assignment, from, event } as const;
+  });
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+/**
+ * Whether the value is an absolute http(s) URL. Profile URLs end up in <a href> and <img src>
+ * on public pages, so javascript:, data: and other schemes are refused.
+ */
+export function isWebUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * String schema accepting only http(s) URLs
+ */
+export const webUrl = (message: string) => z.string().refine(isWebUrl, message);
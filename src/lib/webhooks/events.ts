@@ -0,0 +1,204 @@
+import Stripe from "stripe";
+import { and, asc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { stripe_events } from "@/lib/db/schema";
+import { getStripe } from "@/lib/payments/stripe";
+import { getStripeEventHandler } from "@/lib/webhooks/handlers";
+
+export type StripeEventRecord = typeof stripe_events.$inferSelect;
+export type StripeEventStatus = StripeEventRecord["status"];
+
+export interface RetryStripeEventsSummary {
+  checked: number;
+  processed: number;
+  failed: number;
+}
+
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A PROCESSING claim older than this is assumed to belong to a crashed request
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Persist a verified event. Returns the stored row and whether it had been received before.
+ */
+export async function storeStripeEvent(
+  db: DbExecutor,
+  event: Stripe.Event
+): Promise<{ record: StripeEventRecord; duplicate: boolean }> {
+  const [inserted] = await db
+    .insert(stripe_events)
+    .values({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      status: "PENDING",
+    })
+    .onConflictDoNothing({ target: stripe_events.id })
+    .returning();
+
+  if (inserted) {
+    return { record: inserted, duplicate: false };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(stripe_events)
+    .where(eq(stripe_events.id, event.id))
+    .limit(1);
+
+  return { record: existing, duplicate: true };
+}
+
+/**
+ * Claim a stored event and run its handler. The claim is a conditional update,
+ * so concurrent deliveries or retries process an event at most once at a time;
+ * PROCESSED events are only run again when `force` is set (admin replay).
+ * Returns the updated row, or null if the event could not be claimed.
+ */
+export async function processStripeEvent(
+  db: DbExecutor,
+  eventId: string,
+  options: { force?: boolean } = {}
+): Promise<StripeEventRecord | null> {
+  const claimable: StripeEventStatus[] = options.force
+    ? ["PENDING", "FAILED", "PROCESSED"]
+    : ["PENDING", "FAILED"];
+
+  const [claimed] = await db
+    .update(stripe_events)
+    .set({
+      status: "PROCESSING",
+      attempts: sql`${stripe_events.attempts} + 1`,
+      updated_at: new Date(),
+    })
+    .where(
+      and(
+        eq(stripe_events.id, eventId),
+        or(
+          inArray(stripe_events.status, claimable),
+          and(
+            eq(stripe_events.status, "PROCESSING"),
+            lt(stripe_events.updated_at, new Date(Date.now() - STALE_PROCESSING_MS))
+          )
+        )
+      )
+    )
+    .returning();
+
+  if (!claimed) {
+    return null;
+  }
+
+  const event = claimed.payload as Stripe.Event;
+
+  try {
+    const handler = getStripeEventHandler(event.type);
+    if (handler) {
+      await handler(event, db);
+    } else {
+      console.log(`Unhandled event type: ${event.type}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to process Stripe event ${event.id} (${event.type}):`, error);
+
+    const [failed] = await db
+      .update(stripe_events)
+      .set({
+        status: "FAILED",
+        last_error: message,
+        next_attempt_at: getNextAttemptAt(claimed.attempts),
+        updated_at: new Date(),
+      })
+      .where(eq(stripe_events.id, eventId))
+      .returning();
+
+    return failed;
+  }
+
+  const [processed] = await db
+    .update(stripe_events)
+    .set({
+      status: "PROCESSED",
+      last_error: null,
+      next_attempt_at: null,
+      processed_at: new Date(),
+      updated_at: new Date(),
+    })
+    .where(eq(stripe_events.id, eventId))
+    .returning();
+
+  return processed;
+}
+
+/**
+ * Scheduled job: process events whose retry is due, plus events that were
+ * stored but never finished processing (e.g. the request crashed)
+ */
+export async function retryDueStripeEvents(
+  db: DbExecutor,
+  limit = 50
+): Promise<RetryStripeEventsSummary> {
+  const now = new Date();
+  const staleCutoff = new Date(now.getTime() - STALE_PROCESSING_MS);
+
+  const due = await db
+    .select({ id: stripe_events.id })
+    .from(stripe_events)
+    .where(
+      or(
+        and(eq(stripe_events.status, "FAILED"), lte(stripe_events.next_attempt_at, now)),
+        and(eq(stripe_events.status, "PENDING"), lt(stripe_events.created_at, staleCutoff)),
+        and(eq(stripe_events.status, "PROCESSING"), lt(stripe_events.updated_at, staleCutoff))
+      )
+    )
+    .orderBy(asc(stripe_events.created_at))
+    .limit(limit);
+
+  const summary: RetryStripeEventsSummary = { checked: due.length, processed: 0, failed: 0 };
+
+  for (const { id } of due) {
+    const result = await processStripeEvent(db, id);
+    if (result?.status === "PROCESSED") {
+      summary.processed++;
+    } else if (result?.status === "FAILED") {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Re-run an event on demand. Events we never received are fetched from Stripe first.
+ * Returns null if the event is currently being processed.
+ */
+export async function replayStripeEvent(
+  db: DbExecutor,
+  eventId: string
+): Promise<StripeEventRecord | null> {
+  const [existing] = await db
+    .select({ id: stripe_events.id })
+    .from(stripe_events)
+    .where(eq(stripe_events.id, eventId))
+    .limit(1);
+
+  if (!existing) {
+    const event = await getStripe().events.retrieve(eventId);
+    await storeStripeEvent(db, event);
+  }
+
+  return processStripeEvent(db, eventId, { force: true });
+}
+
+function getNextAttemptAt(attempts: number): Date | null {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return new Date(Date.now() + delay);
+}
@@ -0,0 +1,113 @@
+import Stripe from "stripe";
+import { eq } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { recordTransferReversal } from "@/lib/ledger";
+import { applyFundingRefund, creditCampaignFunding } from "@/lib/payments/fundings";
+import { markPayoutReversed } from "@/lib/payments/payouts";
+
+/**
+ * Handles one Stripe event type. Handlers must be idempotent (events can be
+ * retried or replayed) and must throw on failure so the event is retried.
+ */
+export type StripeEventHandler = (event: Stripe.Event, db: DbExecutor) => Promise<void>;
+
+const handlePaymentIntentSucceeded: StripeEventHandler = async (event, db) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+  console.log(`PaymentIntent succeeded: ${paymentIntent.id}`);
+
+  // Credit the initial funding or top-up this PaymentIntent was created for
+  const funding = await creditCampaignFunding(db, paymentIntent);
+  if (!funding) {
+    return;
+  }
+  console.log(`Campaign ${funding.campaign_id} credited with ${funding.type} funding ${funding.id}`);
+};
+
+const handlePaymentIntentFailed: StripeEventHandler = async (event) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+  console.log(`PaymentIntent failed: ${paymentIntent.id}`);
+  console.log(`Failure reason: ${paymentIntent.last_payment_error?.message}`);
+};
+
+const handlePaymentIntentCanceled: StripeEventHandler = async (event) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+  console.log(`PaymentIntent canceled: ${paymentIntent.id}`);
+};
+
+const handleAccountUpdated: StripeEventHandler = async (event, db) => {
+  const account = event.data.object as Stripe.Account;
+  console.log(`Account updated: ${account.id}`);
+
+  // Check if onboarding is complete
+  if (account.details_submitted && account.payouts_enabled) {
+    await db
+      .update(users)
+      .set({ stripe_onboarding_complete: new Date() })
+      .where(eq(users.stripe_account_id, account.id));
+    console.log(`User with Stripe account ${account.id} marked as onboarding complete`);
+  }
+};
+
+const handleTransferCreated: StripeEventHandler = async (event) => {
+  const transfer = event.data.object as Stripe.Transfer;
+  console.log(`Transfer created: ${transfer.id} for ${transfer.amount} ${transfer.currency}`);
+};
+
+const handleTransferReversed: StripeEventHandler = async (event, db) => {
+  const transfer = event.data.object as Stripe.Transfer;
+  console.log(`Transfer reversed: ${transfer.id}`);
+
+  const campaignId = transfer.metadata?.campaign_id;
+  const missionId = transfer.metadata?.mission_id || null;
+  if (!campaignId) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    // Move the reversed amount back into the campaign's reserve
+    await recordTransferReversal(tx, {
+      campaignId: parseInt(campaignId, 10),
+      missionId,
+      transferId: transfer.id,
+      totalReversedCents: transfer.amount_reversed,
+      currency: transfer.currency,
+    });
+
+    // A fully reversed transfer means the creator was not paid: reopen the payout
+    if (transfer.reversed) {
+      const assignment = await markPayoutReversed(tx, { transferId: transfer.id });
+      if (assignment) {
+        console.log(`Assignment ${assignment.id} moved to PAYOUT_FAILED after reversal of ${transfer.id}`);
+      }
+    }
+  });
+};
+
+const handleChargeRefunded: StripeEventHandler = async (event, db) => {
+  const charge = event.data.object as Stripe.Charge;
+  console.log(`Charge refunded: ${charge.id} (${charge.amount_refunded} ${charge.currency})`);
+
+  const result = await applyFundingRefund(db, charge);
+  if (!result) {
+    return;
+  }
+  console.log(`Campaign ${result.funding.campaign_id} marked as ${result.campaignStatus}`);
+};
+
+const handlers: Partial<Record<Stripe.Event.Type, StripeEventHandler>> = {
+  "payment_intent.succeeded": handlePaymentIntentSucceeded,
+  "payment_intent.payment_failed": handlePaymentIntentFailed,
+  "payment_intent.canceled": handlePaymentIntentCanceled,
+  "account.updated": handleAccountUpdated,
+  "transfer.created": handleTransferCreated,
+  "transfer.reversed": handleTransferReversed,
+  "charge.refunded": handleChargeRefunded,
+};
+
+/**
+ * Look up the handler registered for an event type
+ */
+export function getStripeEventHandler(type: string): StripeEventHandler | undefined {
+  return handlers[type as Stripe.Event.Type];
+}